@@ -0,0 +1,43 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { User, SystemConfig, Permission } from '../src/types';
+import { hasPermission } from '../src/utils/permissions';
+import { sendError } from './http';
+import type { LoginAuthority } from './assertions';
+import { Store, USERS_KEY, SYSTEM_CONFIG_KEY } from './store';
+
+// Identifies the caller by the login assertion in `Authorization: Bearer <assertion>` and looks the
+// user up in the directory, so a deactivated user or a changed role takes effect immediately.
+export const createAccessControl = (authority: LoginAuthority, store: Store) => {
+  const findCaller = (req: IncomingMessage): User | null => {
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    const assertion = scheme === 'Bearer' && token ? authority.verify(token) : null;
+    if (!assertion) return null;
+
+    const user = (store.get<User[]>(USERS_KEY) || []).find(u => u.email.toLowerCase() === assertion.email);
+    return user && user.active !== false ? user : null;
+  };
+
+  // Sends 401 and returns null when the request does not come from an active user
+  const requireUser = (req: IncomingMessage, res: ServerResponse): User | null => {
+    const user = findCaller(req);
+    if (!user) sendError(res, 401, 'Inicia sesión para continuar');
+    return user;
+  };
+
+  // Sends 401/403 and returns null unless the caller has `permission` (e.g. configureEmail for SMTP secrets)
+  const requirePermission = (req: IncomingMessage, res: ServerResponse, permission: Permission): User | null => {
+    const user = requireUser(req, res);
+    if (!user) return null;
+
+    const config = store.get<SystemConfig>(SYSTEM_CONFIG_KEY);
+    if (!hasPermission(user, permission, config?.roles || [])) {
+      sendError(res, 403, 'No tienes permiso para esta acción');
+      return null;
+    }
+    return user;
+  };
+
+  return { findCaller, requireUser, requirePermission };
+};
+
+export type AccessControl = ReturnType<typeof createAccessControl>;
@@ -0,0 +1,45 @@
+import { createSigningKey } from './jwt';
+
+// Same as the maximum session age of the client (src/utils/session.ts)
+const ASSERTION_TTL_S = 12 * 60 * 60;
+const AUDIENCE = 'promipoints';
+
+export interface LoginAssertion {
+  email: string;
+  nonce: string;
+  expiresAt: number; // segundos desde epoch
+}
+
+// Login assertions: RS256 tokens proving that this server checked a login code for an email.
+// The browser verifies them against /api/auth/jwks and only starts a session with one.
+export const createLoginAuthority = (issuer: string) => {
+  const signingKey = createSigningKey();
+
+  return {
+    issuer,
+
+    jwks: signingKey.jwks,
+
+    issue: (email: string, nonce: string): string => {
+      const now = Math.floor(Date.now() / 1000);
+      return signingKey.sign({
+        iss: issuer,
+        aud: AUDIENCE,
+        sub: email.toLowerCase(),
+        iat: now,
+        exp: now + ASSERTION_TTL_S,
+        nonce,
+      });
+    },
+
+    // Claims of a valid, unexpired assertion issued by this server, or null
+    verify: (token: string): LoginAssertion | null => {
+      const claims = signingKey.verify(token);
+      if (!claims || claims.iss !== issuer || claims.aud !== AUDIENCE) return null;
+      if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || claims.exp < Date.now() / 1000) return null;
+      return { email: claims.sub, nonce: String(claims.nonce ?? ''), expiresAt: claims.exp };
+    },
+  };
+};
+
+export type LoginAuthority = ReturnType<typeof createLoginAuthority>;
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { Session, SystemConfig, User } from '../src/types';
+import { prepareDocumentWrite, readDocument } from './documentAccess';
+import { createStore, SESSIONS_KEY, SYSTEM_CONFIG_KEY, USERS_KEY } from './store';
+
+const user = (id: string, role: User['role'], overrides: Partial<User> = {}): User => ({
+  id,
+  name: id,
+  email: `${id}@grupoprominente.com`,
+  role,
+  department: 'Ventas',
+  ...overrides,
+});
+
+const session = (id: string, userId: string): Session => ({
+  id,
+  userId,
+  role: 'employee',
+  createdAt: 0,
+  lastActiveAt: 0,
+  expiresAt: 1,
+});
+
+const CONFIG = {
+  departments: [{ id: 'ventas', name: 'Ventas' }, { id: 'marketing', name: 'Marketing' }],
+  budget: { defaultPoints: 10, byDepartment: { Ventas: 20 } },
+  loginDomains: [{ domain: 'grupoprominente.com', defaultDepartment: 'Ventas' }],
+  roles: [],
+} as unknown as SystemConfig;
+
+const ana = user('ana', 'superadmin');
+const luis = user('luis', 'people');
+const eva = user('eva', 'employee');
+
+const storeWith = (config: SystemConfig | null = CONFIG) => {
+  const store = createStore();
+  store.set(USERS_KEY, [ana, luis, eva]);
+  if (config) store.set(SYSTEM_CONFIG_KEY, config);
+  store.set(SESSIONS_KEY, [session('s1', 'ana'), session('s2', 'eva')]);
+  return store;
+};
+
+const refusal = (message?: string) => ({ error: message ?? expect.any(String) });
+
+describe('readDocument', () => {
+  it('only shows the caller their own sessions', () => {
+    const sessions = [session('s1', 'ana'), session('s2', 'eva')];
+
+    expect(readDocument(eva, SESSIONS_KEY, sessions)).toEqual([sessions[1]]);
+    expect(readDocument(null, SESSIONS_KEY, sessions)).toEqual([]);
+    expect(readDocument(null, SYSTEM_CONFIG_KEY, CONFIG)).toBe(CONFIG);
+  });
+});
+
+describe('prepareDocumentWrite', () => {
+  it('leaves the directory to users with manageUsers, within what their role may grant', () => {
+    const store = storeWith();
+    const renamed = [ana, luis, { ...eva, name: 'Eva Ruiz' }];
+    const promoted = [ana, luis, { ...eva, role: 'superadmin' as const }];
+
+    expect(prepareDocumentWrite(store, eva, USERS_KEY, renamed)).toEqual(refusal());
+    expect(prepareDocumentWrite(store, luis, USERS_KEY, renamed)).toEqual({ value: renamed });
+    expect(prepareDocumentWrite(store, luis, USERS_KEY, promoted)).toEqual(
+      refusal('Solo un SuperAdmin puede administrar usuarios SuperAdmin')
+    );
+    expect(prepareDocumentWrite(store, ana, USERS_KEY, promoted)).toEqual({ value: promoted });
+  });
+
+  it('lets a department rename move superadmins, but never delete users or the last superadmin', () => {
+    const store = storeWith();
+    const moved = [ana, luis, eva].map(u => ({ ...u, department: 'Comercial' }));
+
+    expect(prepareDocumentWrite(store, luis, USERS_KEY, moved)).toEqual({ value: moved });
+    expect(prepareDocumentWrite(store, ana, USERS_KEY, [ana, luis])).toEqual(refusal());
+    expect(prepareDocumentWrite(store, ana, USERS_KEY, [{ ...ana, active: false }, luis, eva])).toEqual(
+      refusal('Debe quedar al menos un SuperAdmin activo')
+    );
+  });
+
+  it('checks the permission of each changed config section, renames included', () => {
+    const store = storeWith();
+    const added = { ...CONFIG, departments: [...CONFIG.departments, { id: 'rh', name: 'RH' }] };
+    const raised = { ...CONFIG, budget: { ...CONFIG.budget, defaultPoints: 15 } };
+    const renamed = {
+      ...CONFIG,
+      departments: [{ id: 'ventas', name: 'Comercial' }, CONFIG.departments[1]],
+      budget: { ...CONFIG.budget, byDepartment: { Comercial: 20 } },
+      loginDomains: [{ domain: 'grupoprominente.com', defaultDepartment: 'Comercial' }],
+    };
+    const merged = {
+      ...CONFIG,
+      departments: [CONFIG.departments[1]],
+      budget: { ...CONFIG.budget, byDepartment: { Marketing: 20 } },
+      loginDomains: [{ domain: 'grupoprominente.com', defaultDepartment: 'Marketing' }],
+    };
+
+    expect(prepareDocumentWrite(store, luis, SYSTEM_CONFIG_KEY, added)).toEqual({ value: added });
+    expect(prepareDocumentWrite(store, luis, SYSTEM_CONFIG_KEY, raised)).toEqual(refusal());
+    expect(prepareDocumentWrite(store, ana, SYSTEM_CONFIG_KEY, raised)).toEqual({ value: raised });
+    expect(prepareDocumentWrite(store, luis, SYSTEM_CONFIG_KEY, renamed)).toEqual({ value: renamed });
+    expect(prepareDocumentWrite(store, luis, SYSTEM_CONFIG_KEY, merged)).toEqual({ value: merged });
+  });
+
+  it('needs a superadmin for the first configuration', () => {
+    expect(prepareDocumentWrite(storeWith(null), luis, SYSTEM_CONFIG_KEY, CONFIG)).toEqual(refusal());
+    expect(prepareDocumentWrite(storeWith(null), ana, SYSTEM_CONFIG_KEY, CONFIG)).toEqual({ value: CONFIG });
+  });
+
+  it('merges the caller sessions into the registry and refuses anyone else’s', () => {
+    const store = storeWith();
+    const own = [session('s2', 'eva'), session('s3', 'eva')];
+
+    expect(prepareDocumentWrite(store, eva, SESSIONS_KEY, own)).toEqual({ value: [session('s1', 'ana'), ...own] });
+    expect(prepareDocumentWrite(store, eva, SESSIONS_KEY, [session('s1', 'ana')])).toEqual(
+      refusal('Solo puedes registrar tus propias sesiones')
+    );
+  });
+
+  it('refuses documents the browser does not write', () => {
+    expect(prepareDocumentWrite(storeWith(), ana, 'promipoints_scim_groups', [])).toEqual(refusal());
+  });
+});
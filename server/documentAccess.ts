@@ -0,0 +1,108 @@
+import type { User, Session, SystemConfig } from '../src/types';
+import { assertConfigChange, checkUserChange, hasPermission } from '../src/utils/permissions';
+import type { DepartmentRename } from '../src/utils/departments';
+import { Store, USERS_KEY, SESSIONS_KEY, SYSTEM_CONFIG_KEY, LEDGER_KEYS } from './store';
+
+// Documents the browser reads and writes through /api/store. Anything else in the store, such as the SCIM
+// groups, stays on the server.
+export const CLIENT_KEYS = [USERS_KEY, SESSIONS_KEY, SYSTEM_CONFIG_KEY, ...LEDGER_KEYS];
+
+// The login screen reads the system configuration (domains, SSO, texts) before anyone signs in
+export const PUBLIC_KEYS = [SYSTEM_CONFIG_KEY];
+
+export type DocumentWrite = { value: unknown } | { error: string };
+
+const serialize = (value: unknown) => JSON.stringify(value);
+
+const isActiveSuperadmin = (user: User) => user.role === 'superadmin' && user.active !== false;
+
+// What `caller` may read of a document: each user only ever sees their own sessions
+export const readDocument = (caller: User | null, key: string, value: unknown): unknown =>
+  key === SESSIONS_KEY ? ((value as Session[]) || []).filter(s => s.userId === caller?.id) : value;
+
+// Users are never deleted, and only someone with manageUsers may change them, within what their own role
+// may grant. A change that only moves users to another department is a department rename or merge.
+const checkDirectoryChange = (caller: User, roles: SystemConfig['roles'], current: User[], next: unknown) => {
+  if (!Array.isArray(next) || next.some(u => typeof u?.id !== 'string' || typeof u?.email !== 'string')) {
+    return 'La lista de colaboradores no es válida';
+  }
+  const before = new Map(current.map(u => [u.id, u]));
+  const changed = (next as User[]).filter(u => serialize(before.get(u.id)) !== serialize(u));
+  const removed = current.some(u => !next.some((n: User) => n.id === u.id));
+  if (!changed.length && !removed) return null;
+
+  if (!hasPermission(caller, 'manageUsers', roles)) return 'No tienes permiso para administrar colaboradores';
+  if (removed) return 'Los colaboradores no se eliminan, solo se desactivan';
+
+  for (const user of changed) {
+    const existing = before.get(user.id);
+    if (existing && serialize({ ...existing, department: user.department }) === serialize(user)) continue;
+    const error = checkUserChange(caller, roles, user, existing);
+    if (error) return error;
+  }
+  if (current.some(isActiveSuperadmin) && !(next as User[]).some(isActiveSuperadmin)) {
+    return 'Debe quedar al menos un SuperAdmin activo';
+  }
+  return null;
+};
+
+// The client does not say which departments it renamed or merged: the change passes if renaming the
+// departments whose name changed, plus merging one removed department into any remaining one, explains it.
+const departmentRenameCandidates = (current: SystemConfig, next: SystemConfig): DepartmentRename[][] => {
+  const before = Array.isArray(current.departments) ? current.departments : [];
+  const after = Array.isArray(next.departments) ? next.departments : [];
+  const renamed = after.flatMap(d => {
+    const previous = before.find(b => b.id === d.id);
+    return previous && previous.name !== d.name ? [{ from: previous.name, to: d.name }] : [];
+  });
+  const merges = before
+    .filter(b => !after.some(d => d.id === b.id))
+    .flatMap(source => after.map(target => [...renamed, { from: source.name, to: target.name }]));
+  return [renamed, ...merges];
+};
+
+// Same per-section permissions the settings screens check (assertConfigChange). A first configuration is
+// compared against an empty one, so it needs every permission.
+const checkConfigChange = (caller: User, current: SystemConfig | undefined, next: unknown) => {
+  if (!next || typeof next !== 'object' || Array.isArray(next)) return 'La configuración no es válida';
+  const baseline = current ?? ({ roles: [] } as unknown as SystemConfig);
+  const candidates = departmentRenameCandidates(baseline, next as SystemConfig);
+
+  let firstError: string | null = null;
+  for (const renames of candidates) {
+    try {
+      assertConfigChange(caller, baseline, next as SystemConfig, renames);
+      return null;
+    } catch (error) {
+      firstError ??= error instanceof Error ? error.message : 'No tienes permiso para esta acción';
+    }
+  }
+  return firstError;
+};
+
+// Each user only writes their own sessions; the rest of the registry is kept as stored
+const mergeOwnSessions = (caller: User, current: Session[], next: unknown): DocumentWrite => {
+  if (!Array.isArray(next) || next.some(s => s?.userId !== caller.id)) {
+    return { error: 'Solo puedes registrar tus propias sesiones' };
+  }
+  return { value: [...current.filter(s => s.userId !== caller.id), ...next] };
+};
+
+// Checks a client write of `key` by `caller` against the stored documents and returns the value to store,
+// or why it is refused
+export const prepareDocumentWrite = (store: Store, caller: User, key: string, next: unknown): DocumentWrite => {
+  const config = store.get<SystemConfig>(SYSTEM_CONFIG_KEY);
+  const roles = config?.roles || [];
+  let error: string | null = null;
+
+  if (key === USERS_KEY) {
+    error = checkDirectoryChange(caller, roles, store.get<User[]>(USERS_KEY) || [], next);
+  } else if (key === SYSTEM_CONFIG_KEY) {
+    error = checkConfigChange(caller, config, next);
+  } else if (key === SESSIONS_KEY) {
+    return mergeOwnSessions(caller, store.get<Session[]>(SESSIONS_KEY) || [], next);
+  } else if (!LEDGER_KEYS.includes(key)) {
+    error = `No existe ${key}`;
+  }
+  return error ? { error } : { value: next };
+};
@@ -0,0 +1,81 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+export type RouteParams = Record<string, string>;
+
+export interface Route {
+  method: string;
+  path: RegExp;
+  handler: (req: IncomingMessage, res: ServerResponse, params: RouteParams) => Promise<void> | void;
+}
+
+// Builds a matcher for paths like '/api/store/:key'
+export const route = (method: string, pattern: string, handler: Route['handler']): Route => ({
+  method,
+  path: new RegExp(`^${pattern.replace(/:(\w+)/g, '(?<$1>[^/]+)')}/?$`),
+  handler,
+});
+
+export const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+export const sendJson = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+export const sendHtml = (res: ServerResponse, status: number, html: string) => {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(html);
+};
+
+export const redirect = (res: ServerResponse, location: string) => {
+  res.writeHead(302, { Location: location });
+  res.end();
+};
+
+export const sendError = (res: ServerResponse, status: number, message: string) => {
+  sendJson(res, status, { error: message });
+};
+
+// Only the listed browser origins may call the API cross-origin; other origins get no CORS headers
+export const setCorsHeaders = (req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]) => {
+  res.setHeader('Vary', 'Origin');
+  const origin = req.headers.origin;
+  if (!origin || !allowedOrigins.includes(origin)) return;
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, If-Match, If-None-Match');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag');
+};
+
+export const dispatch = async (routes: Route[], req: IncomingMessage, res: ServerResponse, allowedOrigins: string[] = []) => {
+  setCorsHeaders(req, res, allowedOrigins);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  for (const r of routes) {
+    const match = r.method === req.method ? r.path.exec(pathname) : null;
+    if (match) {
+      const params: RouteParams = {};
+      Object.entries(match.groups || {}).forEach(([name, value]) => {
+        params[name] = decodeURIComponent(value);
+      });
+      await r.handler(req, res, params);
+      return;
+    }
+  }
+
+  sendError(res, 404, `Ruta no encontrada: ${req.method} ${pathname}`);
+};
@@ -0,0 +1,52 @@
+import { createPublicKey, createSign, createVerify, generateKeyPairSync, randomBytes, JsonWebKey, KeyObject } from 'node:crypto';
+
+const base64Url = (value: Buffer | string) => Buffer.from(value).toString('base64url');
+
+const signJwt = (payload: Record<string, unknown>, key: KeyObject, kid: string) => {
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid }));
+  const body = base64Url(JSON.stringify(payload));
+  const signature = createSign('RSA-SHA256').update(`${header}.${body}`).sign(key);
+  return `${header}.${body}.${base64Url(signature)}`;
+};
+
+// Payload of an RS256 token signed with `key`, or null if it is malformed or was tampered with
+const verifyJwt = (token: string, key: KeyObject): Record<string, unknown> | null => {
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature) return null;
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+    const valid =
+      alg === 'RS256' &&
+      createVerify('RSA-SHA256').update(`${header}.${body}`).verify(key, Buffer.from(signature, 'base64url'));
+    return valid ? JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Verifies a token signed by another issuer against the key set it publishes at `jwksUri`
+export const verifyJwtWithJwks = async (token: string, jwksUri: string): Promise<Record<string, unknown> | null> => {
+  try {
+    const { kid } = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+    const response = await fetch(jwksUri);
+    const { keys }: { keys: (JsonWebKey & { kid?: string })[] } = await response.json();
+    const jwk = keys.find(k => k.kid === kid);
+    return jwk ? verifyJwt(token, createPublicKey({ key: jwk, format: 'jwk' })) : null;
+  } catch {
+    return null;
+  }
+};
+
+// RSA key generated at startup, published as a JWKS so clients can verify what the server signs
+export const createSigningKey = () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomBytes(8).toString('hex');
+
+  return {
+    sign: (payload: Record<string, unknown>) => signJwt(payload, privateKey, kid),
+    verify: (token: string) => verifyJwt(token, publicKey),
+    jwks: () => ({
+      keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }],
+    }),
+  };
+};
@@ -0,0 +1,136 @@
+import { lookup } from 'node:dns/promises';
+import nodemailer from 'nodemailer';
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  user?: string;
+  password?: string;
+}
+
+export interface MailSender {
+  email: string;
+  name?: string;
+}
+
+// SMTP server and sender configured on the API server itself (see server/mock-api.ts)
+export interface MailRelay {
+  smtp: SmtpSettings;
+  from: MailSender;
+}
+
+export interface OutgoingMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Port 465 uses implicit TLS, any other port upgrades with STARTTLS when the server offers it.
+// Local SMTP catchers (Mailpit, MailHog) usually listen on 1025 without authentication.
+export const createTransport = (smtp: SmtpSettings) =>
+  nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.port === 465,
+    auth: smtp.user ? { user: smtp.user, pass: smtp.password || '' } : undefined,
+  });
+
+export const sendMessages = async (smtp: SmtpSettings, from: MailSender, messages: OutgoingMessage[]) => {
+  const transport = createTransport(smtp);
+  const failed: { to: string[]; error: string }[] = [];
+  let sent = 0;
+
+  try {
+    for (const message of messages) {
+      try {
+        await transport.sendMail({
+          from: from.name ? { name: from.name, address: from.email } : from.email,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        });
+        sent++;
+      } catch (error) {
+        failed.push({ to: message.to, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  } finally {
+    transport.close();
+  }
+
+  return { sent, failed };
+};
+
+export type MailTestStage = 'dns' | 'connection' | 'tls' | 'auth' | 'send';
+
+export interface MailTestStep {
+  stage: MailTestStage;
+  ok: boolean;
+  detail: string;
+}
+
+const TLS_ERROR = /ssl|tls|certificate|self[- ]signed|wrong version number/i;
+
+// Maps a nodemailer connection error to the stage where it happened
+const getVerifyStage = (error: { code?: string; message?: string }): MailTestStage => {
+  if (error.code === 'EDNS') return 'dns';
+  if (error.code === 'EAUTH' || error.code === 'ENOAUTH') return 'auth';
+  if (error.code === 'ETLS' || TLS_ERROR.test(error.message || '')) return 'tls';
+  return 'connection';
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Runs each stage in order and stops at the first failure:
+// DNS lookup, connection + TLS + authentication (verify), and delivery of a sample message
+export const testConnection = async (smtp: SmtpSettings, from: MailSender, message: OutgoingMessage): Promise<MailTestStep[]> => {
+  const steps: MailTestStep[] = [];
+
+  try {
+    const { address } = await lookup(smtp.host);
+    steps.push({ stage: 'dns', ok: true, detail: `${smtp.host} → ${address}` });
+  } catch (error) {
+    steps.push({ stage: 'dns', ok: false, detail: errorMessage(error) });
+    return steps;
+  }
+
+  const transport = createTransport(smtp);
+  try {
+    try {
+      await transport.verify();
+    } catch (error) {
+      const failedStage = getVerifyStage(error as { code?: string });
+      const order: MailTestStage[] = ['connection', 'tls', 'auth'];
+      order.slice(0, order.indexOf(failedStage)).forEach(stage => steps.push({ stage, ok: true, detail: 'Correcto' }));
+      steps.push({ stage: failedStage, ok: false, detail: errorMessage(error) });
+      return steps;
+    }
+
+    steps.push({ stage: 'connection', ok: true, detail: `${smtp.host}:${smtp.port}` });
+    steps.push({ stage: 'tls', ok: true, detail: smtp.port === 465 ? 'TLS implícito' : 'STARTTLS si el servidor lo ofrece' });
+    steps.push({ stage: 'auth', ok: true, detail: smtp.user ? `Autenticado como ${smtp.user}` : 'Sin autenticación' });
+
+    try {
+      const info = await transport.sendMail({
+        from: from.name ? { name: from.name, address: from.email } : from.email,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+      if (info.rejected.length > 0) {
+        steps.push({ stage: 'send', ok: false, detail: `Destinatario rechazado: ${info.rejected.join(', ')}` });
+      } else {
+        steps.push({ stage: 'send', ok: true, detail: info.response });
+      }
+    } catch (error) {
+      steps.push({ stage: 'send', ok: false, detail: errorMessage(error) });
+    }
+  } finally {
+    transport.close();
+  }
+
+  return steps;
+};
@@ -0,0 +1,84 @@
+import { createServer } from 'node:http';
+import { dispatch, sendError } from './http';
+import { createStore } from './store';
+import { storeRoutes } from './routes/store';
+import { mailRoutes } from './routes/mail';
+import { secretRoutes } from './routes/secrets';
+import { authRoutes } from './routes/auth';
+import { setupRoutes } from './routes/setup';
+import { createOtpService } from './otp';
+import { createLoginAuthority } from './assertions';
+import { createAccessControl } from './access';
+import type { MailRelay } from './mailer';
+import { oidcRoutes } from './routes/oidc';
+import { createOidcProvider } from './oidc';
+import { scimRoutes } from './routes/scim';
+import { createScimDirectory } from './scim';
+
+const port = Number(process.env.MOCK_API_PORT || 4000);
+const store = createStore(process.env.MOCK_API_FILE);
+// Kept apart from the documents so /api/store can never expose them
+const secrets = createStore(process.env.MOCK_API_SECRETS_FILE);
+// The mock IdP signs in any identity typed into its login page, so it is only served when asked for
+const oidc = process.env.MOCK_OIDC === '1'
+  ? createOidcProvider(process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}/oidc`)
+  : null;
+// SSO provider whose id_tokens are traded for login assertions; defaults to the mock IdP when it is served
+const ssoIssuer = process.env.MOCK_SSO_ISSUER || oidc?.issuer;
+const sso = ssoIssuer ? { issuer: ssoIssuer, clientId: process.env.MOCK_SSO_CLIENT_ID || 'promipoints' } : null;
+// Relay for login codes. Only this server's configuration is used, never settings sent by a client.
+const loginRelay: MailRelay | null = process.env.MOCK_SMTP_HOST
+  ? {
+      smtp: {
+        host: process.env.MOCK_SMTP_HOST,
+        port: Number(process.env.MOCK_SMTP_PORT || 587),
+        user: process.env.MOCK_SMTP_USER || undefined,
+        password: process.env.MOCK_SMTP_PASSWORD || undefined,
+      },
+      from: { email: process.env.MOCK_SMTP_FROM || 'no-reply@promipoints.local', name: 'PromiPoints' },
+    }
+  : null;
+const authority = createLoginAuthority(`http://localhost:${port}/api/auth`);
+const access = createAccessControl(authority, store);
+// Browser origins allowed to call the API; the dev server proxies /api, so none is needed there
+const allowedOrigins = (process.env.MOCK_API_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+// SCIM provisioning is only served with a token of its own; there is no default
+const scimToken = process.env.MOCK_SCIM_TOKEN;
+
+const routes = [
+  ...storeRoutes(store, access),
+  ...mailRoutes(secrets, store, access),
+  ...secretRoutes(secrets, access),
+  ...authRoutes(createOtpService(), authority, loginRelay, store, sso),
+  ...setupRoutes(process.env.MOCK_SETUP_TOKEN, authority, store),
+  ...(oidc ? oidcRoutes(oidc) : []),
+  ...(scimToken ? scimRoutes(createScimDirectory(store), scimToken) : []),
+];
+
+const server = createServer((req, res) => {
+  dispatch(routes, req, res, allowedOrigins).catch(error => {
+    console.error('[mock-api]', error);
+    sendError(res, 500, 'Error interno del servidor');
+  });
+});
+
+server.listen(port, () => {
+  console.log(`[mock-api] Escuchando en http://localhost:${port}`);
+  console.log(`[mock-api] Datos: ${process.env.MOCK_API_FILE || 'en memoria'}`);
+  if (oidc) {
+    console.log(`[mock-api] Mock IdP (OIDC): ${oidc.issuer}`);
+  }
+  if (sso) {
+    console.log(`[mock-api] SSO: id_tokens de ${sso.issuer} para ${sso.clientId}`);
+  } else {
+    console.warn('[mock-api] Sin MOCK_SSO_ISSUER: los inicios de sesión con SSO no reciben aserción');
+  }
+  if (!loginRelay) {
+    console.warn('[mock-api] Sin MOCK_SMTP_HOST: no se pueden enviar códigos de acceso');
+  }
+  if (scimToken) {
+    console.log(`[mock-api] SCIM 2.0: http://localhost:${port}/scim/v2`);
+  } else {
+    console.warn('[mock-api] Sin MOCK_SCIM_TOKEN: el aprovisionamiento SCIM está deshabilitado');
+  }
+});
@@ -0,0 +1,105 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { createSigningKey } from './jwt';
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_S = 5 * 60;
+
+export interface MockIdentity {
+  email: string;
+  name: string;
+  department: string;
+  groups: string[];
+}
+
+export interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  scope: string;
+}
+
+interface PendingAuthorization extends AuthorizationRequest {
+  identity: MockIdentity;
+  expiresAt: number;
+}
+
+export type TokenExchange =
+  | { ok: true; idToken: string; accessToken: string; expiresIn: number }
+  | { ok: false; error: 'invalid_grant' | 'invalid_client'; description: string };
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('base64url');
+
+// Minimal OpenID provider for local testing: authorization code flow with PKCE (S256) only,
+// RS256 id tokens signed with a key generated at startup and published as a JWKS.
+export const createOidcProvider = (issuer: string) => {
+  const signingKey = createSigningKey();
+  const codes = new Map<string, PendingAuthorization>();
+
+  return {
+    issuer,
+
+    discovery: () => ({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      scopes_supported: ['openid', 'email', 'profile'],
+      token_endpoint_auth_methods_supported: ['none'],
+      claims_supported: ['sub', 'email', 'name', 'department', 'groups', 'nonce'],
+    }),
+
+    jwks: signingKey.jwks,
+
+    // Called once the user "signs in" on the mock login page
+    authorize: (request: AuthorizationRequest, identity: MockIdentity): string => {
+      const code = randomBytes(24).toString('base64url');
+      codes.set(code, { ...request, identity, expiresAt: Date.now() + CODE_TTL_MS });
+      return code;
+    },
+
+    exchange: (params: URLSearchParams): TokenExchange => {
+      const code = params.get('code') || '';
+      const pending = codes.get(code);
+      codes.delete(code); // single use
+
+      if (!pending || pending.expiresAt < Date.now()) {
+        return { ok: false, error: 'invalid_grant', description: 'Código inválido o vencido' };
+      }
+      if (params.get('client_id') !== pending.clientId) {
+        return { ok: false, error: 'invalid_client', description: 'client_id no coincide' };
+      }
+      if (params.get('redirect_uri') !== pending.redirectUri) {
+        return { ok: false, error: 'invalid_grant', description: 'redirect_uri no coincide' };
+      }
+      if (sha256(params.get('code_verifier') || '') !== pending.codeChallenge) {
+        return { ok: false, error: 'invalid_grant', description: 'code_verifier no coincide (PKCE)' };
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const { identity } = pending;
+      const idToken = signingKey.sign({
+        iss: issuer,
+        aud: pending.clientId,
+        sub: sha256(identity.email.toLowerCase()).slice(0, 24),
+        iat: now,
+        exp: now + ID_TOKEN_TTL_S,
+        nonce: pending.nonce,
+        email: identity.email,
+        email_verified: true,
+        name: identity.name,
+        department: identity.department,
+        groups: identity.groups,
+      });
+
+      return { ok: true, idToken, accessToken: randomBytes(24).toString('base64url'), expiresIn: ID_TOKEN_TTL_S };
+    },
+  };
+};
+
+export type OidcProvider = ReturnType<typeof createOidcProvider>;
@@ -0,0 +1,88 @@
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const RATE_WINDOW_MS = 15 * 60 * 1000;
+const MAX_CODES_PER_WINDOW = 3;
+
+interface PendingCode {
+  hash: Buffer;
+  salt: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+export type IssueResult =
+  | { ok: true; code: string; expiresAt: number; resendAfter: number }
+  | { ok: false; retryAfter: number };
+
+export type VerifyResult = 'ok' | 'invalid' | 'expired' | 'locked' | 'missing';
+
+const hashCode = (salt: string, code: string) => createHash('sha256').update(`${salt}:${code}`).digest();
+
+// One-time login codes. Only a salted hash is kept, in memory, and each code is single use.
+export const createOtpService = () => {
+  const pending = new Map<string, PendingCode>();
+  const issued = new Map<string, number[]>();
+
+  const normalize = (email: string) => email.trim().toLowerCase();
+
+  return {
+    // Rate limited per email: one code per cooldown and a few per window
+    issue: (email: string, now = Date.now()): IssueResult => {
+      const key = normalize(email);
+      const recent = (issued.get(key) || []).filter(t => now - t < RATE_WINDOW_MS);
+      const last = recent[recent.length - 1];
+
+      if (last !== undefined && now - last < RESEND_COOLDOWN_MS) {
+        return { ok: false, retryAfter: last + RESEND_COOLDOWN_MS - now };
+      }
+      if (recent.length >= MAX_CODES_PER_WINDOW) {
+        return { ok: false, retryAfter: recent[0] + RATE_WINDOW_MS - now };
+      }
+
+      const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+      const salt = randomBytes(16).toString('hex');
+      pending.set(key, { hash: hashCode(salt, code), salt, expiresAt: now + CODE_TTL_MS, attempts: 0 });
+      issued.set(key, [...recent, now]);
+
+      return { ok: true, code, expiresAt: now + CODE_TTL_MS, resendAfter: now + RESEND_COOLDOWN_MS };
+    },
+
+    // Used when the code could not be delivered
+    revoke: (email: string) => {
+      pending.delete(normalize(email));
+    },
+
+    verify: (email: string, code: string, now = Date.now()): VerifyResult => {
+      const key = normalize(email);
+      const entry = pending.get(key);
+      if (!entry) return 'missing';
+      if (now > entry.expiresAt) {
+        pending.delete(key);
+        return 'expired';
+      }
+      if (entry.attempts >= MAX_ATTEMPTS) {
+        pending.delete(key);
+        return 'locked';
+      }
+
+      entry.attempts++;
+      if (!timingSafeEqual(entry.hash, hashCode(entry.salt, code))) {
+        if (entry.attempts >= MAX_ATTEMPTS) pending.delete(key);
+        return entry.attempts >= MAX_ATTEMPTS ? 'locked' : 'invalid';
+      }
+
+      pending.delete(key);
+      return 'ok';
+    },
+
+    attemptsLeft: (email: string) => {
+      const entry = pending.get(normalize(email));
+      return entry ? MAX_ATTEMPTS - entry.attempts : 0;
+    },
+  };
+};
+
+export type OtpService = ReturnType<typeof createOtpService>;
@@ -0,0 +1,215 @@
+import type { User, SystemConfig } from '../../src/types';
+import { escapeHtml } from '../../src/utils/emailTemplates';
+import { DEFAULT_LOGIN_DOMAIN, describeLoginDomains, findLoginDomain } from '../../src/utils/domains';
+import { findDepartment } from '../../src/utils/departments';
+import { getClaimValues, resolveIdentityRole } from '../../src/utils/roleMapping';
+import { createId } from '../../src/utils/ids';
+import { Route, route, readBody, sendJson, sendError } from '../http';
+import { sendMessages, MailRelay, OutgoingMessage } from '../mailer';
+import type { OtpService } from '../otp';
+import type { LoginAuthority } from '../assertions';
+import { Store, USERS_KEY, SYSTEM_CONFIG_KEY } from '../store';
+import { verifyJwtWithJwks } from '../jwt';
+
+const VERIFY_ERRORS = {
+  invalid: { status: 401, message: 'El código no es correcto' },
+  expired: { status: 410, message: 'El código venció. Solicita uno nuevo.' },
+  locked: { status: 429, message: 'Demasiados intentos. Solicita un nuevo código.' },
+  missing: { status: 404, message: 'No hay un código pendiente para este correo. Solicita uno nuevo.' },
+};
+
+const parseBody = async <T>(req: Parameters<Route['handler']>[0]): Promise<T | null> => {
+  try {
+    return JSON.parse(await readBody(req));
+  } catch {
+    return null;
+  }
+};
+
+const CLOCK_SKEW_S = 60;
+
+const trimSlash = (url: string) => url.replace(/\/$/, '');
+
+// Provider whose id_tokens this server accepts. It comes from the server's environment, never from the stored
+// login settings, so nobody can point SSO logins at an issuer of their own.
+export interface TrustedProvider {
+  issuer: string;
+  clientId: string;
+}
+
+// Claims of a valid id_token issued to this application by the trusted provider
+const verifyIdToken = async (idToken: string, provider: TrustedProvider): Promise<Record<string, unknown> | null> => {
+  const discovery = await fetch(`${trimSlash(provider.issuer)}/.well-known/openid-configuration`)
+    .then(response => response.json())
+    .catch(() => null);
+  if (typeof discovery?.jwks_uri !== 'string') return null;
+
+  const claims = await verifyJwtWithJwks(idToken, discovery.jwks_uri);
+  if (!claims) return null;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (trimSlash(String(claims.iss)) !== trimSlash(provider.issuer) || !audiences.includes(provider.clientId)) return null;
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_S < Date.now() / 1000) return null;
+  return claims;
+};
+
+// Why `email` may not log in, as the login screen explains it, or null. Codes only go to active users of the
+// directory, and everyone but superadmins needs an address of a login domain. With the browser storage
+// backends this server keeps no directory, and the login screen checks it instead.
+const checkLoginEmail = (store: Store, email: string): { status: number; message: string } | null => {
+  if (!store.has(USERS_KEY)) return null;
+  const user = (store.get<User[]>(USERS_KEY) || []).find(u => u.email.toLowerCase() === email);
+  const domains = store.get<SystemConfig>(SYSTEM_CONFIG_KEY)?.loginDomains ?? [
+    { domain: DEFAULT_LOGIN_DOMAIN, defaultDepartment: '' },
+  ];
+  if (user?.active === false) {
+    return { status: 403, message: 'Tu usuario está desactivado. Contacta a People & Culture para recuperar el acceso.' };
+  }
+  if (user?.role !== 'superadmin' && !findLoginDomain(email, domains)) {
+    return { status: 403, message: `Debes usar tu correo corporativo (${describeLoginDomains(domains)})` };
+  }
+  if (!user) {
+    return { status: 404, message: 'Usuario no encontrado en la nómina. Contacta a People & Culture para obtener acceso.' };
+  }
+  return null;
+};
+
+// Department and role that the id_token claims give the directory user, as SCIM provisioning does. The browser
+// cannot write the directory on behalf of an employee, so the server applies them before the login goes ahead.
+const applyIdentityClaims = (store: Store, email: string, claims: Record<string, unknown>) => {
+  const users = store.get<User[]>(USERS_KEY) || [];
+  const user = users.find(u => u.email.toLowerCase() === email);
+  const config = store.get<SystemConfig>(SYSTEM_CONFIG_KEY);
+  if (!user || user.active === false || !config?.oidc) return;
+
+  const claimed = config.oidc.departmentClaim ? claims[config.oidc.departmentClaim] : undefined;
+  const department = typeof claimed === 'string' && claimed.trim() ? claimed.trim() : undefined;
+  const catalogued = department && config.departments ? findDepartment(config.departments, department) : undefined;
+  const groups = config.oidc.roleClaim ? getClaimValues(claims[config.oidc.roleClaim]) : [];
+  const updated: User = {
+    ...user,
+    department: catalogued?.name ?? department ?? user.department,
+    role: resolveIdentityRole(user, groups, config.oidc, users),
+  };
+
+  const writes: Record<string, unknown> = {};
+  if (updated.department !== user.department || updated.role !== user.role) {
+    writes[USERS_KEY] = users.map(u => (u.id === user.id ? updated : u));
+  }
+  if (department && config.departments && !catalogued) {
+    writes[SYSTEM_CONFIG_KEY] = { ...config, departments: [...config.departments, { id: createId(), name: department }] };
+  }
+  if (Object.keys(writes).length > 0) store.setMany(writes);
+};
+
+const renderLoginCodeEmail = (email: string, code: string, name?: string): OutgoingMessage => ({
+  to: [email],
+  subject: `Tu código de acceso a PromiPoints: ${code}`,
+  text: `Hola${name ? ` ${name}` : ''},
+
+Tu código de acceso a PromiPoints es: ${code}
+
+Vence en 10 minutos y solo puede usarse una vez. Si no lo solicitaste, ignora este mensaje.`,
+  html: `<div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #1f2937;">
+  <h2 style="color: #ea580c;">Hola${name ? ` ${escapeHtml(name)}` : ''}</h2>
+  <p>Tu código de acceso a PromiPoints es:</p>
+  <p style="font-size: 32px; font-weight: bold; letter-spacing: 8px;">${code}</p>
+  <p style="color: #6b7280; font-size: 12px;">Vence en 10 minutos y solo puede usarse una vez. Si no lo solicitaste, ignora este mensaje.</p>
+</div>`,
+});
+
+// One-time code login. The code is generated and checked here and only ever leaves by email, through
+// the relay configured on this server; the client cannot choose the SMTP server or the message.
+// A correct code is answered with a signed login assertion (see ../assertions.ts).
+export const authRoutes = (
+  otp: OtpService,
+  authority: LoginAuthority,
+  relay: MailRelay | null,
+  store: Store,
+  sso: TrustedProvider | null
+): Route[] => [
+  route('GET', '/api/auth/jwks', (_req, res) => {
+    sendJson(res, 200, authority.jwks());
+  }),
+
+  route('POST', '/api/auth/otp', async (req, res) => {
+    const body = await parseBody<{ email?: string }>(req);
+    if (!body) {
+      sendError(res, 400, 'El cuerpo debe ser JSON válido');
+      return;
+    }
+
+    const email = body.email?.trim().toLowerCase();
+    if (!email) {
+      sendError(res, 400, 'Falta el correo');
+      return;
+    }
+    const rejection = checkLoginEmail(store, email);
+    if (rejection) {
+      sendError(res, rejection.status, rejection.message);
+      return;
+    }
+    if (!relay) {
+      sendError(res, 503, 'El servidor no tiene configurado un servidor SMTP para enviar códigos de acceso');
+      return;
+    }
+
+    const issued = otp.issue(email);
+    if (!issued.ok) {
+      sendJson(res, 429, {
+        error: 'Solicitaste demasiados códigos. Espera antes de pedir otro.',
+        retryAfter: Math.ceil(issued.retryAfter / 1000),
+      });
+      return;
+    }
+
+    const user = (store.get<User[]>(USERS_KEY) || []).find(u => u.email.toLowerCase() === email);
+    const result = await sendMessages(relay.smtp, relay.from, [renderLoginCodeEmail(email, issued.code, user?.name)]);
+
+    if (result.sent === 0) {
+      otp.revoke(email);
+      sendJson(res, 502, { error: 'No se pudo enviar el código', detail: result.failed[0]?.error });
+      return;
+    }
+
+    sendJson(res, 202, { expiresAt: issued.expiresAt, resendAfter: issued.resendAfter });
+  }),
+
+  route('POST', '/api/auth/otp/verify', async (req, res) => {
+    const body = await parseBody<{ email?: string; code?: string; nonce?: string }>(req);
+    if (!body?.email || !body.code || !body.nonce) {
+      sendError(res, 400, 'Faltan el correo, el código o el nonce');
+      return;
+    }
+
+    const result = otp.verify(body.email, body.code);
+    if (result === 'ok') {
+      sendJson(res, 200, { assertion: authority.issue(body.email, body.nonce) });
+      return;
+    }
+
+    const { status, message } = VERIFY_ERRORS[result];
+    sendJson(res, status, { error: message, attemptsLeft: otp.attemptsLeft(body.email) });
+  }),
+
+  // SSO logins trade the provider's id_token for a login assertion, so they can call the same routes
+  route('POST', '/api/auth/oidc', async (req, res) => {
+    const body = await parseBody<{ idToken?: string; nonce?: string }>(req);
+    if (!body?.idToken || !body.nonce) {
+      sendError(res, 400, 'Faltan el id_token o el nonce');
+      return;
+    }
+
+    if (!sso || !store.get<SystemConfig>(SYSTEM_CONFIG_KEY)?.oidc?.enabled) {
+      sendError(res, 403, 'El inicio de sesión con SSO no está habilitado en este servidor');
+      return;
+    }
+    const claims = await verifyIdToken(body.idToken, sso);
+    const email = typeof claims?.email === 'string' ? claims.email.toLowerCase() : null;
+    if (!claims || !email) {
+      sendError(res, 401, 'El id_token no es válido para esta aplicación');
+      return;
+    }
+    applyIdentityClaims(store, email, claims);
+    sendJson(res, 200, { assertion: authority.issue(email, body.nonce) });
+  }),
+];
@@ -0,0 +1,84 @@
+import type { User, SystemConfig } from '../../src/types';
+import { Route, route, readBody, sendJson, sendError } from '../http';
+import { sendMessages, testConnection, SmtpSettings, MailSender, OutgoingMessage } from '../mailer';
+import { Store, USERS_KEY, SYSTEM_CONFIG_KEY } from '../store';
+import type { AccessControl } from '../access';
+import type { StoredSecret } from './secrets';
+
+// Relay used by the client to deliver notification emails through the configured SMTP server.
+// Only signed-in users may send, only to the directory and the People & Culture addresses of the settings,
+// and only admins may test new settings. When the client sends no password, the one saved through
+// /api/secrets is used, and only for the host and user it was saved with.
+export const mailRoutes = (secrets: Store, store: Store, access: AccessControl): Route[] => {
+  const withStoredPassword = (smtp: SmtpSettings): SmtpSettings => {
+    if (smtp.password) return smtp;
+    const stored = secrets.get<StoredSecret>('smtpPassword');
+    const matches = stored?.host === smtp.host && (stored.user || '') === (smtp.user || '');
+    return { ...smtp, password: matches ? stored.value : undefined };
+  };
+
+  // Active users of the directory and the People & Culture addresses of the notification settings
+  const getAllowedRecipients = () => {
+    const users = (store.get<User[]>(USERS_KEY) || []).filter(u => u.active !== false);
+    const peopleEmails = store.get<SystemConfig>(SYSTEM_CONFIG_KEY)?.emailNotifications?.peopleEmails || [];
+    return new Set([...users.map(u => u.email), ...peopleEmails].map(email => email.trim().toLowerCase()));
+  };
+
+  return [
+    route('POST', '/api/mail/send', async (req, res) => {
+      if (!access.requireUser(req, res)) return;
+
+      let body: { smtp?: SmtpSettings; from?: MailSender; messages?: OutgoingMessage[] };
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch {
+        sendError(res, 400, 'El cuerpo debe ser JSON válido');
+        return;
+      }
+
+      const { smtp, from, messages } = body;
+      if (!smtp?.host || !smtp.port || !from?.email || !Array.isArray(messages)) {
+        sendError(res, 400, 'Faltan datos del servidor SMTP, remitente o mensajes');
+        return;
+      }
+
+      if (!store.get<SystemConfig>(SYSTEM_CONFIG_KEY)?.emailNotifications?.enabled) {
+        sendError(res, 403, 'Las notificaciones por email están desactivadas');
+        return;
+      }
+      const allowed = getAllowedRecipients();
+      const outsiders = messages.flatMap(m => m.to || []).filter(to => !allowed.has(String(to).trim().toLowerCase()));
+      if (outsiders.length > 0) {
+        sendJson(res, 403, {
+          error: 'Solo se envían notificaciones a colaboradores del directorio y a los correos de People & Culture',
+          recipients: outsiders,
+        });
+        return;
+      }
+
+      const result = await sendMessages(withStoredPassword(smtp), from, messages.filter(m => m.to?.length > 0));
+      sendJson(res, 200, result);
+    }),
+
+    // Checks the SMTP settings stage by stage and sends a single sample message
+    route('POST', '/api/mail/test', async (req, res) => {
+      if (!access.requirePermission(req, res, 'configureEmail')) return;
+
+      let body: { smtp?: SmtpSettings; from?: MailSender; message?: OutgoingMessage };
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch {
+        sendError(res, 400, 'El cuerpo debe ser JSON válido');
+        return;
+      }
+
+      const { smtp, from, message } = body;
+      if (!smtp?.host || !smtp.port || !from?.email || !message?.to?.length) {
+        sendError(res, 400, 'Faltan datos del servidor SMTP, remitente o destinatario');
+        return;
+      }
+
+      sendJson(res, 200, { steps: await testConnection(withStoredPassword(smtp), from, message) });
+    }),
+  ];
+};
@@ -0,0 +1,120 @@
+import { Route, route, readBody, sendJson, sendHtml, redirect } from '../http';
+import type { OidcProvider, AuthorizationRequest } from '../oidc';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Login page of the mock IdP: any identity can be typed in, nothing is checked
+const renderLoginPage = (query: URLSearchParams) => `<!doctype html>
+<html lang="es">
+<head>
+  <meta charset="utf-8">
+  <title>Mock IdP - PromiPoints</title>
+  <style>
+    body { font-family: Arial, sans-serif; background: #f3f4f6; display: flex; justify-content: center; padding: 48px 16px; }
+    form { background: white; padding: 24px; border-radius: 12px; width: 100%; max-width: 380px; box-shadow: 0 4px 16px rgba(0,0,0,.08); }
+    label { display: block; font-size: 14px; margin: 12px 0 4px; }
+    input { width: 100%; padding: 8px; box-sizing: border-box; border: 1px solid #d1d5db; border-radius: 6px; }
+    button { margin-top: 20px; width: 100%; padding: 10px; background: #ea580c; color: white; border: 0; border-radius: 6px; font-size: 15px; cursor: pointer; }
+    p { color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <form method="post">
+    <h2>Mock IdP</h2>
+    <p>Proveedor OpenID Connect de pruebas. Se acepta cualquier identidad.</p>
+    ${Array.from(query.entries())
+      .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+      .join('\n    ')}
+    <label for="email">Email</label>
+    <input id="email" name="email" type="email" required value="maria.garcia@grupoprominente.com">
+    <label for="name">Nombre</label>
+    <input id="name" name="name" value="María García">
+    <label for="department">Departamento</label>
+    <input id="department" name="department" value="Desarrollo">
+    <label for="groups">Grupos (separados por coma)</label>
+    <input id="groups" name="groups" value="">
+    <button type="submit">Iniciar sesión</button>
+  </form>
+</body>
+</html>`;
+
+const parseAuthorizationRequest = (params: URLSearchParams): AuthorizationRequest | string => {
+  if (params.get('response_type') !== 'code') return 'response_type debe ser "code"';
+  if (!params.get('client_id')) return 'Falta client_id';
+  if (!isHttpUrl(params.get('redirect_uri') || '')) return 'redirect_uri inválido';
+  if (!params.get('code_challenge') || params.get('code_challenge_method') !== 'S256') {
+    return 'Se requiere PKCE con code_challenge_method=S256';
+  }
+  return {
+    clientId: params.get('client_id')!,
+    redirectUri: params.get('redirect_uri')!,
+    codeChallenge: params.get('code_challenge')!,
+    nonce: params.get('nonce') || undefined,
+    scope: params.get('scope') || 'openid',
+  };
+};
+
+// Mock OpenID Connect provider, mounted at /oidc (see server/oidc.ts)
+export const oidcRoutes = (provider: OidcProvider): Route[] => [
+  route('GET', '/oidc/.well-known/openid-configuration', (_req, res) => {
+    sendJson(res, 200, provider.discovery());
+  }),
+
+  route('GET', '/oidc/jwks', (_req, res) => {
+    sendJson(res, 200, provider.jwks());
+  }),
+
+  route('GET', '/oidc/authorize', (req, res) => {
+    const query = new URL(req.url || '/', 'http://localhost').searchParams;
+    const request = parseAuthorizationRequest(query);
+    if (typeof request === 'string') {
+      sendHtml(res, 400, `<p>${escapeHtml(request)}</p>`);
+      return;
+    }
+    sendHtml(res, 200, renderLoginPage(query));
+  }),
+
+  route('POST', '/oidc/authorize', async (req, res) => {
+    const form = new URLSearchParams(await readBody(req));
+    const request = parseAuthorizationRequest(form);
+    if (typeof request === 'string') {
+      sendHtml(res, 400, `<p>${escapeHtml(request)}</p>`);
+      return;
+    }
+
+    const code = provider.authorize(request, {
+      email: form.get('email') || '',
+      name: form.get('name') || '',
+      department: form.get('department') || '',
+      groups: (form.get('groups') || '').split(',').map(g => g.trim()).filter(Boolean),
+    });
+
+    const target = new URL(request.redirectUri);
+    target.searchParams.set('code', code);
+    if (form.get('state')) target.searchParams.set('state', form.get('state')!);
+    redirect(res, target.toString());
+  }),
+
+  route('POST', '/oidc/token', async (req, res) => {
+    const result = provider.exchange(new URLSearchParams(await readBody(req)));
+    if (!result.ok) {
+      sendJson(res, 400, { error: result.error, error_description: result.description });
+      return;
+    }
+    sendJson(res, 200, {
+      token_type: 'Bearer',
+      access_token: result.accessToken,
+      id_token: result.idToken,
+      expires_in: result.expiresIn,
+    });
+  }),
+];
@@ -0,0 +1,149 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Route, RouteParams, route, readBody } from '../http';
+import { SCIM_SCHEMAS, ScimError, ScimDirectory, ScimResource, parseOperations } from '../scim';
+
+const MAX_PAGE_SIZE = 200;
+
+const sendScim = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/scim+json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const sendScimError = (res: ServerResponse, error: ScimError) => {
+  sendScim(res, error.status, {
+    schemas: [SCIM_SCHEMAS.error],
+    status: String(error.status),
+    scimType: error.scimType,
+    detail: error.message,
+  });
+};
+
+const isAuthorized = (req: IncomingMessage, token: string) => {
+  const header = req.headers.authorization || '';
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(header);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+const getBaseUrl = (req: IncomingMessage) => `http://${req.headers.host || 'localhost'}/scim/v2`;
+
+const readResource = async (req: IncomingMessage): Promise<ScimResource> => {
+  try {
+    return JSON.parse(await readBody(req));
+  } catch {
+    throw new ScimError(400, 'El cuerpo debe ser JSON válido', 'invalidSyntax');
+  }
+};
+
+const listResponse = (req: IncomingMessage, resources: ScimResource[]) => {
+  const query = new URL(req.url || '/', 'http://localhost').searchParams;
+  const startIndex = Math.max(1, Number(query.get('startIndex')) || 1);
+  const count = Math.min(MAX_PAGE_SIZE, Math.max(0, Number(query.get('count') ?? MAX_PAGE_SIZE) || 0));
+  const page = resources.slice(startIndex - 1, startIndex - 1 + count);
+  return {
+    schemas: [SCIM_SCHEMAS.list],
+    totalResults: resources.length,
+    startIndex,
+    itemsPerPage: page.length,
+    Resources: page,
+  };
+};
+
+const getFilter = (req: IncomingMessage) => new URL(req.url || '/', 'http://localhost').searchParams.get('filter');
+
+// SCIM 2.0 provisioning (RFC 7643/7644) of the user directory, authenticated with a bearer token
+export const scimRoutes = (directory: ScimDirectory, token: string): Route[] => {
+  const scimRoute = (method: string, pattern: string, handler: Route['handler']) =>
+    route(method, `/scim/v2${pattern}`, async (req: IncomingMessage, res: ServerResponse, params: RouteParams) => {
+      if (!isAuthorized(req, token)) {
+        sendScimError(res, new ScimError(401, 'Token de aprovisionamiento inválido'));
+        return;
+      }
+      try {
+        await handler(req, res, params);
+      } catch (error) {
+        if (!(error instanceof ScimError)) throw error;
+        sendScimError(res, error);
+      }
+    });
+
+  return [
+    scimRoute('GET', '/ServiceProviderConfig', (_req, res) => {
+      sendScim(res, 200, {
+        schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
+        patch: { supported: true },
+        bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+        filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+        changePassword: { supported: false },
+        sort: { supported: false },
+        etag: { supported: false },
+        authenticationSchemes: [
+          { type: 'oauthbearertoken', name: 'Bearer token', description: 'Token definido en MOCK_SCIM_TOKEN' },
+        ],
+      });
+    }),
+
+    scimRoute('GET', '/Users', (req, res) => {
+      const baseUrl = getBaseUrl(req);
+      const users = directory.listUsers(getFilter(req)).map(u => directory.toUserResource(u, baseUrl));
+      sendScim(res, 200, listResponse(req, users));
+    }),
+
+    scimRoute('GET', '/Users/:id', (req, res, { id }) => {
+      sendScim(res, 200, directory.toUserResource(directory.getUser(id), getBaseUrl(req)));
+    }),
+
+    scimRoute('POST', '/Users', async (req, res) => {
+      const user = directory.createUser(await readResource(req));
+      sendScim(res, 201, directory.toUserResource(user, getBaseUrl(req)));
+    }),
+
+    scimRoute('PUT', '/Users/:id', async (req, res, { id }) => {
+      const user = directory.replaceUser(id, await readResource(req));
+      sendScim(res, 200, directory.toUserResource(user, getBaseUrl(req)));
+    }),
+
+    scimRoute('PATCH', '/Users/:id', async (req, res, { id }) => {
+      const body = await readResource(req);
+      const user = directory.patchUser(id, parseOperations(body), getBaseUrl(req));
+      sendScim(res, 200, directory.toUserResource(user, getBaseUrl(req)));
+    }),
+
+    scimRoute('DELETE', '/Users/:id', (_req, res, { id }) => {
+      directory.deactivateUser(id);
+      sendScim(res, 204);
+    }),
+
+    scimRoute('GET', '/Groups', (req, res) => {
+      const baseUrl = getBaseUrl(req);
+      const groups = directory.listGroups(getFilter(req)).map(g => directory.toGroupResource(g, baseUrl));
+      sendScim(res, 200, listResponse(req, groups));
+    }),
+
+    scimRoute('GET', '/Groups/:id', (req, res, { id }) => {
+      sendScim(res, 200, directory.toGroupResource(directory.getGroup(id), getBaseUrl(req)));
+    }),
+
+    scimRoute('POST', '/Groups', async (req, res) => {
+      const group = directory.createGroup(await readResource(req));
+      sendScim(res, 201, directory.toGroupResource(group, getBaseUrl(req)));
+    }),
+
+    scimRoute('PUT', '/Groups/:id', async (req, res, { id }) => {
+      const group = directory.replaceGroup(id, await readResource(req));
+      sendScim(res, 200, directory.toGroupResource(group, getBaseUrl(req)));
+    }),
+
+    scimRoute('PATCH', '/Groups/:id', async (req, res, { id }) => {
+      const body = await readResource(req);
+      const group = directory.patchGroup(id, parseOperations(body));
+      sendScim(res, 200, directory.toGroupResource(group, getBaseUrl(req)));
+    }),
+
+    scimRoute('DELETE', '/Groups/:id', (_req, res, { id }) => {
+      directory.deleteGroup(id);
+      sendScim(res, 204);
+    }),
+  ];
+};
@@ -0,0 +1,54 @@
+import { Route, route, readBody, sendJson, sendError } from '../http';
+import type { Store } from '../store';
+import type { AccessControl } from '../access';
+
+// A secret is bound to the SMTP host and user it was saved with and is never sent anywhere else
+export interface StoredSecret {
+  value: string;
+  host: string;
+  user?: string;
+}
+
+// Write-only secrets (e.g. the SMTP password). Values are never returned, only whether they are set.
+// Only users who can configure email may read their status or change them.
+export const secretRoutes = (secrets: Store, access: AccessControl): Route[] => [
+  route('GET', '/api/secrets/:name', (req, res, { name }) => {
+    if (!access.requirePermission(req, res, 'configureEmail')) return;
+    sendJson(res, 200, { configured: secrets.has(name) });
+  }),
+
+  route('PUT', '/api/secrets/:name', async (req, res, { name }) => {
+    if (!access.requirePermission(req, res, 'configureEmail')) return;
+
+    let body: { value?: unknown; host?: unknown; user?: unknown };
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      sendError(res, 400, 'El cuerpo debe ser JSON válido');
+      return;
+    }
+    if (typeof body.value !== 'string' || !body.value) {
+      sendError(res, 400, 'El secreto debe ser un texto no vacío');
+      return;
+    }
+    if (typeof body.host !== 'string' || !body.host) {
+      sendError(res, 400, 'Falta el servidor SMTP al que pertenece el secreto');
+      return;
+    }
+    const secret: StoredSecret = {
+      value: body.value,
+      host: body.host,
+      user: typeof body.user === 'string' && body.user ? body.user : undefined,
+    };
+    secrets.set(name, secret);
+    res.writeHead(204);
+    res.end();
+  }),
+
+  route('DELETE', '/api/secrets/:name', (req, res, { name }) => {
+    if (!access.requirePermission(req, res, 'configureEmail')) return;
+    secrets.delete(name);
+    res.writeHead(204);
+    res.end();
+  }),
+];
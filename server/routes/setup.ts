@@ -0,0 +1,96 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { User, SystemConfig } from '../../src/types';
+import { findDepartment } from '../../src/utils/departments';
+import { createId } from '../../src/utils/ids';
+import { Route, route, readBody, sendJson, sendError } from '../http';
+import type { LoginAuthority } from '../assertions';
+import { Store, USERS_KEY, SYSTEM_CONFIG_KEY } from '../store';
+
+// Hashing first makes the comparison constant-time whatever the length of the token sent
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+const hasActiveSuperadmin = (store: Store) =>
+  (store.get<User[]>(USERS_KEY) || []).some(u => u.role === 'superadmin' && u.active !== false);
+
+// Adds the admin to the directory kept here (promoting an existing user of that email) and their department
+// to the catalogue when it is new
+const saveAdmin = (store: Store, name: string, email: string, departmentName: string) => {
+  const users = store.get<User[]>(USERS_KEY) || [];
+  const config = store.get<SystemConfig>(SYSTEM_CONFIG_KEY);
+  const catalogued = config?.departments ? findDepartment(config.departments, departmentName) : undefined;
+  const existing = users.find(u => u.email.toLowerCase() === email);
+  const admin: User = {
+    ...existing,
+    id: existing?.id ?? createId(),
+    name,
+    email,
+    role: 'superadmin',
+    department: catalogued?.name ?? departmentName,
+    active: true,
+  };
+
+  const writes: Record<string, unknown> = {
+    [USERS_KEY]: existing ? users.map(u => (u.id === existing.id ? admin : u)) : [...users, admin],
+  };
+  if (config?.departments && !catalogued) {
+    writes[SYSTEM_CONFIG_KEY] = { ...config, departments: [...config.departments, { id: createId(), name: departmentName }] };
+  }
+  store.setMany(writes);
+};
+
+// First superadmin of a new install. The setup screen needs the token set in MOCK_SETUP_TOKEN, so only
+// whoever runs the server can create it, and only while the directory has no active superadmin.
+// The answer is a login assertion for the new admin, as after a login code. Clients using this server as their
+// storage backend ask it to create the admin (createUser); the browser backends keep their own directory.
+export const setupRoutes = (setupToken: string | undefined, authority: LoginAuthority, store: Store): Route[] => [
+  // Whether to show the setup screen: the browser cannot read the directory before signing in
+  route('GET', '/api/setup/admin', (_req, res) => {
+    sendJson(res, 200, { needed: !hasActiveSuperadmin(store) });
+  }),
+
+  route('POST', '/api/setup/admin', async (req, res) => {
+    let body: {
+      token?: unknown;
+      name?: unknown;
+      email?: unknown;
+      department?: unknown;
+      nonce?: unknown;
+      createUser?: unknown;
+    };
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      sendError(res, 400, 'El cuerpo debe ser JSON válido');
+      return;
+    }
+
+    if (!setupToken) {
+      sendError(res, 403, 'La configuración inicial está deshabilitada en este servidor');
+      return;
+    }
+    if (typeof body.token !== 'string' || !timingSafeEqual(digest(body.token), digest(setupToken))) {
+      sendError(res, 401, 'El token de configuración no es correcto');
+      return;
+    }
+    if (
+      typeof body.name !== 'string' ||
+      !body.name.trim() ||
+      typeof body.email !== 'string' ||
+      !body.email.trim() ||
+      typeof body.nonce !== 'string' ||
+      !body.nonce
+    ) {
+      sendError(res, 400, 'Faltan el nombre, el correo del administrador o el nonce');
+      return;
+    }
+    if (hasActiveSuperadmin(store)) {
+      sendError(res, 409, 'Ya existe un administrador del sistema');
+      return;
+    }
+
+    const email = body.email.trim().toLowerCase();
+    const department = (typeof body.department === 'string' && body.department.trim()) || 'Administración';
+    if (body.createUser === true) saveAdmin(store, body.name.trim(), email, department);
+    sendJson(res, 200, { assertion: authority.issue(email, body.nonce) });
+  }),
+];
@@ -0,0 +1,119 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Route, route, readBody, sendJson, sendError } from '../http';
+import type { Store } from '../store';
+import type { AccessControl } from '../access';
+import { CLIENT_KEYS, PUBLIC_KEYS, prepareDocumentWrite, readDocument } from '../documentAccess';
+
+// REST counterpart of the client's http storage adapter. Every document needs the caller's login assertion
+// except the public ones, and writes are checked per document (see documentAccess.ts).
+export const storeRoutes = (store: Store, access: AccessControl): Route[] => {
+  const etag = (key: string) => (store.has(key) ? `"${store.version(key)}"` : null);
+
+  // Conditional writes: If-Match must name the current version, If-None-Match: * that the key does not exist.
+  // Sends 412 and returns false when the client wrote from a stale copy.
+  const checkPreconditions = (req: IncomingMessage, res: ServerResponse, key: string) => {
+    const ifMatch = req.headers['if-match'];
+    const ifNoneMatch = req.headers['if-none-match'];
+    if ((ifMatch && ifMatch !== etag(key)) || (ifNoneMatch === '*' && store.has(key))) {
+      sendError(res, 412, `${key} cambió desde la última lectura`);
+      return false;
+    }
+    return true;
+  };
+
+  // Sends 404 for documents the browser never reads, such as the SCIM groups
+  const checkClientKey = (res: ServerResponse, key: string) => {
+    if (!CLIENT_KEYS.includes(key)) sendError(res, 404, `No existe ${key}`);
+    return CLIENT_KEYS.includes(key);
+  };
+
+  const readJsonBody = async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      return { body: JSON.parse(await readBody(req)) as unknown };
+    } catch {
+      sendError(res, 400, 'El cuerpo debe ser JSON válido');
+      return null;
+    }
+  };
+
+  return [
+    route('GET', '/api/store/:key', (req, res, { key }) => {
+      if (!checkClientKey(res, key)) return;
+      const caller = PUBLIC_KEYS.includes(key) ? access.findCaller(req) : access.requireUser(req, res);
+      if (!caller && !PUBLIC_KEYS.includes(key)) return;
+      if (!store.has(key)) {
+        sendError(res, 404, `No existe ${key}`);
+        return;
+      }
+      res.setHeader('ETag', etag(key)!);
+      if (req.headers['if-none-match'] === etag(key)) {
+        res.writeHead(304);
+        res.end();
+        return;
+      }
+      sendJson(res, 200, readDocument(caller, key, store.get(key)));
+    }),
+
+    route('PUT', '/api/store/:key', async (req, res, { key }) => {
+      if (!checkClientKey(res, key)) return;
+      const caller = access.requireUser(req, res);
+      if (!caller) return;
+      const parsed = await readJsonBody(req, res);
+      if (!parsed) return;
+      if (!checkPreconditions(req, res, key)) return;
+
+      const write = prepareDocumentWrite(store, caller, key, parsed.body);
+      if ('error' in write) {
+        sendError(res, 403, write.error);
+        return;
+      }
+      store.set(key, write.value);
+      res.writeHead(204, { ETag: etag(key)! });
+      res.end();
+    }),
+
+    // The browser replaces documents but never deletes them
+    route('DELETE', '/api/store/:key', (req, res, { key }) => {
+      if (!checkClientKey(res, key)) return;
+      if (!access.requirePermission(req, res, 'configureSystem')) return;
+      if (!checkPreconditions(req, res, key)) return;
+      store.delete(key);
+      res.writeHead(204);
+      res.end();
+    }),
+
+    // Commits all writes only if every expected ETag still matches (null = key did not exist)
+    route('POST', '/api/transactions', async (req, res) => {
+      const caller = access.requireUser(req, res);
+      if (!caller) return;
+      const parsed = await readJsonBody(req, res);
+      if (!parsed) return;
+      const body = (parsed.body || {}) as { expected?: Record<string, string | null>; writes?: Record<string, unknown> };
+      const keys = [...Object.keys(body.expected || {}), ...Object.keys(body.writes || {})];
+      if (!keys.every(key => checkClientKey(res, key))) return;
+
+      const conflicts = Object.entries(body.expected || {})
+        .filter(([key, expected]) => etag(key) !== expected)
+        .map(([key]) => key);
+
+      if (conflicts.length > 0) {
+        sendJson(res, 409, { error: 'Los datos cambiaron durante la transacción', conflicts });
+        return;
+      }
+
+      // Same checks as a PUT of each written document; nothing is written if one is refused
+      const writes: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(body.writes || {})) {
+        const write = prepareDocumentWrite(store, caller, key, value);
+        if ('error' in write) {
+          sendError(res, 403, write.error);
+          return;
+        }
+        writes[key] = write.value;
+      }
+      store.setMany(writes);
+      // New versions of the written keys, so the client can keep making conditional writes
+      sendJson(res, 200, { versions: Object.fromEntries(Object.keys(writes).map(key => [key, etag(key)])) });
+    }),
+  ];
+};
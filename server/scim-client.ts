@@ -0,0 +1,145 @@
+// Minimal SCIM client to exercise the provisioning endpoints, the way an IdP would.
+//
+//   npm run scim-client -- list
+//   npm run scim-client -- create <email> "<nombre>" [departamento]
+//   npm run scim-client -- update <email> [--name "<nombre>"] [--department <departamento>] [--manager <email>]
+//   npm run scim-client -- deactivate <email>
+//   npm run scim-client -- group <nombre del grupo> [email...]
+//   npm run scim-client -- demo <email>
+const baseUrl = (process.env.SCIM_URL || 'http://localhost:4000/scim/v2').replace(/\/$/, '');
+// Same value as MOCK_SCIM_TOKEN on the server
+const token = process.env.SCIM_TOKEN;
+const ENTERPRISE = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+const PATCH_OP = 'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+
+// The attributes of the server's responses this client reads
+interface ScimUser {
+  id: string;
+  userName: string;
+  displayName: string;
+  active: boolean;
+  groups?: { value: string; display: string }[];
+  [ENTERPRISE]?: { department?: string; manager?: { value: string } };
+}
+
+interface ScimGroup {
+  id: string;
+  displayName: string;
+  members: { value: string; display?: string }[];
+}
+
+interface ListResponse<T> {
+  totalResults: number;
+  Resources: T[];
+}
+
+const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/scim+json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = response.status === 204 ? null : await response.json();
+  if (!response.ok) {
+    throw new Error(`${method} ${path} -> ${response.status}: ${data?.detail || response.statusText}`);
+  }
+  return data as T;
+};
+
+const findUser = async (email: string) => {
+  const { Resources } = await request<ListResponse<ScimUser>>('GET', `/Users?filter=${encodeURIComponent(`userName eq "${email}"`)}`);
+  if (!Resources[0]) throw new Error(`No existe el usuario ${email}`);
+  return Resources[0];
+};
+
+const describeUser = (user: ScimUser) =>
+  `${user.active ? '✓' : '✗'} ${user.userName.padEnd(40)} ${user.displayName} · ${user[ENTERPRISE]?.department}` +
+  (user[ENTERPRISE]?.manager ? ` · manager: ${user[ENTERPRISE].manager.value}` : '') +
+  (user.groups?.length ? ` · grupos: ${user.groups.map(g => g.display).join(', ')}` : '');
+
+const option = (args: string[], name: string) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const commands: Record<string, (args: string[]) => Promise<void>> = {
+  list: async () => {
+    const { Resources, totalResults } = await request<ListResponse<ScimUser>>('GET', '/Users');
+    Resources.forEach(u => console.log(describeUser(u)));
+    console.log(`${totalResults} usuarios`);
+  },
+
+  create: async ([email, name, department]) => {
+    const user = await request<ScimUser>('POST', '/Users', {
+      schemas: ['urn:ietf:params:scim:schemas:core:2.0:User', ENTERPRISE],
+      userName: email,
+      displayName: name,
+      emails: [{ value: email, primary: true, type: 'work' }],
+      active: true,
+      ...(department ? { [ENTERPRISE]: { department } } : {}),
+    });
+    console.log('Creado:', describeUser(user));
+  },
+
+  update: async ([email, ...args]) => {
+    const user = await findUser(email);
+    const Operations = [];
+    if (option(args, '--name')) Operations.push({ op: 'replace', path: 'displayName', value: option(args, '--name') });
+    if (option(args, '--department')) {
+      Operations.push({ op: 'replace', path: `${ENTERPRISE}:department`, value: option(args, '--department') });
+    }
+    if (option(args, '--manager')) {
+      const manager = await findUser(option(args, '--manager')!);
+      Operations.push({ op: 'replace', path: `${ENTERPRISE}:manager`, value: { value: manager.id } });
+    }
+    const updated = await request<ScimUser>('PATCH', `/Users/${user.id}`, { schemas: [PATCH_OP], Operations });
+    console.log('Actualizado:', describeUser(updated));
+  },
+
+  deactivate: async ([email]) => {
+    const user = await findUser(email);
+    const updated = await request<ScimUser>('PATCH', `/Users/${user.id}`, {
+      schemas: [PATCH_OP],
+      Operations: [{ op: 'replace', path: 'active', value: false }],
+    });
+    console.log('Desactivado:', describeUser(updated));
+  },
+
+  // Creates the group if needed and sets its members
+  group: async ([displayName, ...emails]) => {
+    const members = await Promise.all(emails.map(async email => ({ value: (await findUser(email)).id })));
+    const { Resources } = await request<ListResponse<ScimGroup>>('GET', `/Groups?filter=${encodeURIComponent(`displayName eq "${displayName}"`)}`);
+    const group = Resources[0]
+      ? await request<ScimGroup>('PATCH', `/Groups/${Resources[0].id}`, {
+          schemas: [PATCH_OP],
+          Operations: [{ op: 'replace', path: 'members', value: members }],
+        })
+      : await request<ScimGroup>('POST', '/Groups', { schemas: ['urn:ietf:params:scim:schemas:core:2.0:Group'], displayName, members });
+    console.log(`Grupo ${group.displayName}: ${group.members.map(m => m.display).join(', ') || 'sin miembros'}`);
+  },
+
+  // Joiner, mover and leaver for one address
+  demo: async ([email]) => {
+    if (!email) throw new Error('Indica un correo de un dominio permitido');
+    await commands.create([email, 'Persona de Prueba SCIM', 'Desarrollo']);
+    await commands.update([email, '--department', 'Marketing']);
+    await commands.group(['people-culture', email]);
+    console.log(describeUser(await findUser(email)));
+    await commands.group(['people-culture']);
+    await commands.deactivate([email]);
+  },
+};
+
+const [command = 'list', ...args] = process.argv.slice(2);
+if (!token) {
+  console.error('Define SCIM_TOKEN con el token configurado en MOCK_SCIM_TOKEN del servidor');
+  process.exit(1);
+}
+if (!commands[command]) {
+  console.error(`Comando desconocido: ${command}. Usa: ${Object.keys(commands).join(', ')}`);
+  process.exit(1);
+}
+commands[command](args).catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
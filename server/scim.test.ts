@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { User } from '../src/types';
+import { ScimError, createScimDirectory } from './scim';
+import { createStore, SYSTEM_CONFIG_KEY, USERS_KEY } from './store';
+
+const BASE_URL = 'http://localhost/scim/v2';
+
+const admin = (id: string, overrides: Partial<User> = {}): User => ({
+  id,
+  name: id,
+  email: `${id}@grupoprominente.com`,
+  role: 'superadmin',
+  department: 'Dirección',
+  ...overrides,
+});
+
+const ROLE_MAPPING = [
+  { claimValue: 'promipoints-admins', role: 'superadmin' },
+  { claimValue: 'people-culture', role: 'people' },
+];
+
+const directoryWith = (users: User[], roleClaim = 'groups') => {
+  const store = createStore();
+  store.set(USERS_KEY, users);
+  store.set(SYSTEM_CONFIG_KEY, { oidc: { roleClaim, roleMapping: ROLE_MAPPING } });
+  return { store, directory: createScimDirectory(store) };
+};
+
+const roles = (store: ReturnType<typeof createStore>) =>
+  Object.fromEntries((store.get<User[]>(USERS_KEY) || []).map(u => [u.id, u.role]));
+
+// What the directory throws when a change would leave nobody able to administer it
+const lastSuperadminError = expect.objectContaining({ status: 400, scimType: 'mutability' });
+
+describe('SCIM last-superadmin guard', () => {
+  it('refuses to deactivate the only active superadmin, however the IdP asks', () => {
+    const { store, directory } = directoryWith([admin('ana'), admin('luis', { active: false })]);
+    const resource = { ...directory.toUserResource(admin('ana'), BASE_URL), active: false };
+    const deactivate = [{ op: 'replace', path: 'active', value: false }];
+
+    [
+      () => directory.replaceUser('ana', resource),
+      () => directory.patchUser('ana', deactivate, BASE_URL),
+      () => directory.deactivateUser('ana'),
+    ].forEach(action => {
+      expect(action).toThrow(ScimError);
+      expect(action).toThrow(lastSuperadminError);
+    });
+    expect(store.get<User[]>(USERS_KEY)?.find(u => u.id === 'ana')?.active).not.toBe(false);
+  });
+
+  it('deactivates a superadmin while another one stays active', () => {
+    const { store, directory } = directoryWith([admin('ana'), admin('luis')]);
+
+    directory.patchUser('ana', [{ op: 'replace', path: 'active', value: false }], BASE_URL);
+    expect(() => directory.deactivateUser('luis')).toThrow(ScimError);
+
+    expect(store.get<User[]>(USERS_KEY)?.map(u => u.active)).toEqual([false, undefined]);
+  });
+});
+
+describe('SCIM group roles', () => {
+  const members = (...ids: string[]) => ids.map(value => ({ value }));
+
+  it('sets roles from the mapped groups and demotes whoever leaves them, as the SSO login does', () => {
+    const { store, directory } = directoryWith([
+      admin('ana'),
+      admin('root'),
+      admin('luis', { role: 'employee' }),
+      admin('eva', { role: 'people' }),
+    ]);
+
+    const group = directory.createGroup({ displayName: 'people-culture', members: members('luis') });
+    expect(roles(store)).toMatchObject({ luis: 'people', eva: 'people' });
+
+    directory.patchGroup(group.id, [{ op: 'remove', path: 'members[value eq "luis"]' }]);
+    directory.createGroup({ displayName: 'ventas', members: members('eva', 'root') });
+    expect(roles(store)).toMatchObject({ ana: 'superadmin', root: 'employee', luis: 'employee', eva: 'employee' });
+  });
+
+  it('keeps the last active superadmin when every superadmin leaves the admin group at once', () => {
+    const { store, directory } = directoryWith([admin('ana'), admin('root')]);
+    const group = directory.createGroup({ displayName: 'promipoints-admins', members: members('ana', 'root') });
+
+    directory.patchGroup(group.id, [{ op: 'replace', path: 'members', value: [] }]);
+
+    expect(Object.values(roles(store)).filter(role => role === 'superadmin')).toHaveLength(1);
+  });
+
+  it('leaves roles alone without a role claim in the SSO settings', () => {
+    const { store, directory } = directoryWith([admin('ana'), admin('eva', { role: 'people' })], '');
+
+    directory.createGroup({ displayName: 'promipoints-admins', members: members('eva') });
+    directory.createGroup({ displayName: 'ventas', members: members('ana') });
+
+    expect(roles(store)).toEqual({ ana: 'superadmin', eva: 'people' });
+  });
+});
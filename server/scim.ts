@@ -0,0 +1,433 @@
+import type { User, SystemConfig } from '../src/types';
+import { Store, USERS_KEY, SYSTEM_CONFIG_KEY } from './store';
+import { wouldCreateCycle } from '../src/utils/hierarchy';
+import { deriveDepartments, findDepartment } from '../src/utils/departments';
+import { isLastActiveSuperadmin } from '../src/utils/permissions';
+import { getEmailDomain, normalizeDomain } from '../src/utils/domains';
+import { resolveIdentityRole } from '../src/utils/roleMapping';
+import { createId } from '../src/utils/ids';
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  enterprise: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  list: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patch: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+};
+
+// Groups only exist for provisioning; their members' roles come from the SSO role mapping
+const GROUPS_KEY = 'promipoints_scim_groups';
+
+export interface ScimGroup {
+  id: string;
+  displayName: string;
+  externalId?: string;
+  members: string[]; // ids de usuario
+}
+
+// Attributes as sent by the identity provider; each one is narrowed before it reaches the directory
+export type ScimResource = { [attribute: string]: unknown };
+
+export interface PatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+export class ScimError extends Error {
+  status: number;
+  scimType?: string;
+
+  constructor(status: number, detail: string, scimType?: string) {
+    super(detail);
+    this.name = 'ScimError';
+    this.status = status;
+    this.scimType = scimType;
+  }
+}
+
+const isObject = (value: unknown): value is ScimResource =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asObject = (value: unknown): ScimResource => (isObject(value) ? value : {});
+
+const asOptionalString = (value: unknown) => (value === undefined || value === null ? undefined : String(value));
+
+// Id of a `{ value: id }` entry of a multi-valued attribute such as `members`
+const memberId = (member: unknown) => String((isObject(member) ? member.value : undefined) ?? '');
+
+// Operations of a PatchOp request body; a missing list is treated as empty
+export const parseOperations = (body: ScimResource): PatchOperation[] => {
+  const operations = body.Operations ?? [];
+  if (!Array.isArray(operations)) {
+    throw new ScimError(400, 'Operations debe ser una lista', 'invalidSyntax');
+  }
+  return operations.map(operation => {
+    if (!isObject(operation) || typeof operation.op !== 'string') {
+      throw new ScimError(400, 'Cada operación necesita un op', 'invalidSyntax');
+    }
+    return {
+      op: operation.op,
+      path: typeof operation.path === 'string' ? operation.path : undefined,
+      value: operation.value,
+    };
+  });
+};
+
+// `attr eq "value"` is the only filter SCIM clients need for provisioning lookups
+export const parseFilter = (filter: string | null, allowed: string[]) => {
+  if (!filter) return null;
+  const match = /^\s*([\w.:]+)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i.exec(filter);
+  if (!match || !allowed.includes(match[1])) {
+    throw new ScimError(400, `Filtro no soportado: ${filter}`, 'invalidFilter');
+  }
+  return { attribute: match[1], value: match[2].replace(/\\(.)/g, '$1') };
+};
+
+// Applies PATCH operations to a SCIM resource. Supports plain and dotted paths, the enterprise
+// extension prefix and the `emails[type eq "work"].value` form sent by Entra ID.
+export const applyPatch = (resource: ScimResource, operations: PatchOperation[]): ScimResource => {
+  const result = structuredClone(resource);
+
+  // Nested object at `key`, created when missing
+  const child = (node: ScimResource, key: string): ScimResource => {
+    const existing = node[key];
+    if (isObject(existing)) return existing;
+    const created: ScimResource = {};
+    node[key] = created;
+    return created;
+  };
+
+  const setPath = (path: string, value: unknown, remove: boolean) => {
+    const extension = path.startsWith(`${SCIM_SCHEMAS.enterprise}:`);
+    const target = extension ? child(result, SCIM_SCHEMAS.enterprise) : result;
+    const attribute = extension ? path.slice(SCIM_SCHEMAS.enterprise.length + 1) : path;
+
+    if (/^emails(\[.*\])?(\.value)?$/.test(attribute)) {
+      const first = Array.isArray(value) ? value[0] : value;
+      const email = isObject(first) ? first.value : first;
+      result.emails = remove ? [] : [{ value: email, primary: true, type: 'work' }];
+      return;
+    }
+
+    const parts = attribute.split('.');
+    const parent = parts.slice(0, -1).reduce(child, target);
+    if (remove) {
+      delete parent[parts[parts.length - 1]];
+    } else {
+      parent[parts[parts.length - 1]] = value;
+    }
+  };
+
+  operations.forEach(({ op, path, value }) => {
+    const operation = op?.toLowerCase();
+    if (!['add', 'replace', 'remove'].includes(operation)) {
+      throw new ScimError(400, `Operación no soportada: ${op}`, 'invalidSyntax');
+    }
+    if (path) {
+      setPath(path, value, operation === 'remove');
+    } else if (isObject(value)) {
+      Object.entries(value).forEach(([key, attributeValue]) => setPath(key, attributeValue, false));
+    } else {
+      throw new ScimError(400, 'La operación requiere path o un objeto value', 'noTarget');
+    }
+  });
+  return result;
+};
+
+// Provisioning view of the user directory stored in the mock API
+export const createScimDirectory = (store: Store) => {
+  const getUsers = () => store.get<User[]>(USERS_KEY) || [];
+  const getGroups = () => store.get<ScimGroup[]>(GROUPS_KEY) || [];
+  const getConfig = () => store.get<SystemConfig>(SYSTEM_CONFIG_KEY);
+
+  const findDefaultDepartment = (email: string) =>
+    getConfig()?.loginDomains?.find(d => normalizeDomain(d.domain) === getEmailDomain(email))?.defaultDepartment || '';
+
+  const toUserResource = (user: User, baseUrl: string): ScimResource => ({
+    schemas: [SCIM_SCHEMAS.user, SCIM_SCHEMAS.enterprise],
+    id: user.id,
+    externalId: user.externalId,
+    userName: user.email,
+    displayName: user.name,
+    name: { formatted: user.name },
+    emails: [{ value: user.email, primary: true, type: 'work' }],
+    active: user.active !== false,
+    groups: getGroups()
+      .filter(g => g.members.includes(user.id))
+      .map(g => ({ value: g.id, display: g.displayName, $ref: `${baseUrl}/Groups/${g.id}` })),
+    [SCIM_SCHEMAS.enterprise]: {
+      department: user.department,
+      manager: user.managerId ? { value: user.managerId, $ref: `${baseUrl}/Users/${user.managerId}` } : undefined,
+    },
+    meta: { resourceType: 'User', location: `${baseUrl}/Users/${user.id}` },
+  });
+
+  const toGroupResource = (group: ScimGroup, baseUrl: string): ScimResource => {
+    const users = getUsers();
+    return {
+      schemas: [SCIM_SCHEMAS.group],
+      id: group.id,
+      externalId: group.externalId,
+      displayName: group.displayName,
+      members: group.members.map(id => ({
+        value: id,
+        display: users.find(u => u.id === id)?.name,
+        $ref: `${baseUrl}/Users/${id}`,
+      })),
+      meta: { resourceType: 'Group', location: `${baseUrl}/Groups/${group.id}` },
+    };
+  };
+
+  // The enterprise `manager.value` is the SCIM id of another user. A resource without the
+  // enterprise extension keeps the current manager; with it, a missing manager clears it.
+  const resolveManager = (resource: ScimResource, userId: string, existing?: User) => {
+    const extension = resource[SCIM_SCHEMAS.enterprise];
+    if (!isObject(extension)) return existing?.managerId;
+
+    const managerId = asOptionalString(isObject(extension.manager) ? extension.manager.value : extension.manager);
+    if (!managerId) return undefined;
+    const users = getUsers();
+    if (!users.some(u => u.id === managerId)) {
+      throw new ScimError(400, `No existe el usuario ${managerId} indicado como manager`, 'invalidValue');
+    }
+    if (wouldCreateCycle(users, userId, managerId)) {
+      throw new ScimError(400, 'El manager no puede ser el mismo usuario ni alguien de su equipo', 'invalidValue');
+    }
+    return managerId;
+  };
+
+  // Maps a SCIM user resource onto a directory user, validating it like the client does
+  const fromUserResource = (resource: ScimResource, existing?: User): User => {
+    const emails = Array.isArray(resource.emails) ? resource.emails.filter(isObject) : [];
+    const primaryEmail = (emails.find(e => e.primary) ?? emails[0])?.value;
+    const email = String(resource.userName || primaryEmail || '').trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new ScimError(400, 'userName debe ser un correo válido', 'invalidValue');
+    }
+
+    const allowedDomains = (getConfig()?.loginDomains || []).map(d => normalizeDomain(d.domain));
+    if (allowedDomains.length > 0 && !allowedDomains.includes(getEmailDomain(email)) && existing?.role !== 'superadmin') {
+      throw new ScimError(400, `El dominio de ${email} no está permitido`, 'invalidValue');
+    }
+
+    const duplicate = getUsers().find(u => u.id !== existing?.id && u.email.toLowerCase() === email);
+    if (duplicate) {
+      throw new ScimError(409, `Ya existe un usuario con userName ${email}`, 'uniqueness');
+    }
+
+    const name = asObject(resource.name);
+    const displayName = String(
+      resource.displayName || name.formatted || [name.givenName, name.familyName].filter(Boolean).join(' ') || ''
+    ).trim();
+    const department = String(
+      asObject(resource[SCIM_SCHEMAS.enterprise]).department || existing?.department || findDefaultDepartment(email)
+    ).trim();
+    if (!department) {
+      throw new ScimError(400, 'Falta el departamento y el dominio no tiene uno por defecto', 'invalidValue');
+    }
+    const catalogue = getConfig()?.departments ?? deriveDepartments(getUsers());
+
+    const id = existing?.id ?? createId();
+    return {
+      ...existing,
+      id,
+      externalId: asOptionalString(resource.externalId) ?? existing?.externalId,
+      name: displayName || existing?.name || email,
+      email,
+      department: findDepartment(catalogue, department)?.name ?? department,
+      role: existing?.role ?? 'employee',
+      managerId: resolveManager(resource, id, existing),
+      active: resource.active === undefined ? existing?.active ?? true : resource.active !== false && resource.active !== 'False',
+    };
+  };
+
+  // The IdP is authoritative for departments: one missing from the catalogue is added to it. Until the
+  // client first saves its config the catalogue is derived from the users, so there is nothing to add.
+  // Deactivating or demoting the last active superadmin is refused, whatever the IdP sends.
+  const saveUser = (user: User) => {
+    const users = getUsers();
+    const previous = users.find(u => u.id === user.id);
+    const wasActiveSuperadmin = previous?.role === 'superadmin' && previous.active !== false;
+    const isActiveSuperadmin = user.role === 'superadmin' && user.active !== false;
+    if (wasActiveSuperadmin && !isActiveSuperadmin && isLastActiveSuperadmin(users, user.id)) {
+      throw new ScimError(400, 'Debe quedar al menos un SuperAdmin activo', 'mutability');
+    }
+    const exists = !!previous;
+    const updatedUsers = exists ? users.map(u => (u.id === user.id ? user : u)) : [...users, user];
+    const config = getConfig();
+    if (config?.departments && !findDepartment(config.departments, user.department)) {
+      const departments = [...config.departments, { id: createId(), name: user.department }];
+      store.setMany({ [USERS_KEY]: updatedUsers, [SYSTEM_CONFIG_KEY]: { ...config, departments } });
+    } else {
+      store.set(USERS_KEY, updatedUsers);
+    }
+  };
+
+  // Stores the groups and re-derives the roles of the users whose membership changed, with the same role
+  // mapping as the SSO login. Users are updated one by one, so the last superadmin guard sees earlier demotions.
+  const saveGroups = (groups: ScimGroup[], affectedUserIds: string[]) => {
+    const affected = new Set(affectedUserIds);
+    const oidc = getConfig()?.oidc;
+    const users = [...getUsers()];
+    users.forEach((user, index) => {
+      if (!affected.has(user.id)) return;
+      const names = groups.filter(g => g.members.includes(user.id)).map(g => g.displayName);
+      users[index] = { ...user, role: resolveIdentityRole(user, names, oidc, users) };
+    });
+    store.setMany({ [GROUPS_KEY]: groups, [USERS_KEY]: users });
+  };
+
+  const requireUser = (id: string) => {
+    const user = getUsers().find(u => u.id === id);
+    if (!user) throw new ScimError(404, `Usuario ${id} no encontrado`);
+    return user;
+  };
+
+  const requireGroup = (id: string) => {
+    const group = getGroups().find(g => g.id === id);
+    if (!group) throw new ScimError(404, `Grupo ${id} no encontrado`);
+    return group;
+  };
+
+  const parseMembers = (members: unknown): string[] => {
+    if (!Array.isArray(members)) return [];
+    const userIds = new Set(getUsers().map(u => u.id));
+    const ids = members.map(memberId);
+    const unknown = ids.find(id => !userIds.has(id));
+    if (unknown !== undefined) {
+      throw new ScimError(400, `El miembro ${unknown} no existe`, 'invalidValue');
+    }
+    return Array.from(new Set(ids));
+  };
+
+  const fromGroupResource = (resource: ScimResource, existing?: ScimGroup): ScimGroup => {
+    const displayName = String(resource.displayName ?? existing?.displayName ?? '').trim();
+    if (!displayName) throw new ScimError(400, 'displayName es obligatorio', 'invalidValue');
+    if (getGroups().some(g => g.id !== existing?.id && g.displayName === displayName)) {
+      throw new ScimError(409, `Ya existe el grupo ${displayName}`, 'uniqueness');
+    }
+    return {
+      id: existing?.id ?? createId(),
+      displayName,
+      externalId: asOptionalString(resource.externalId) ?? existing?.externalId,
+      members: resource.members === undefined ? existing?.members ?? [] : parseMembers(resource.members),
+    };
+  };
+
+  const writeGroup = (group: ScimGroup, previous?: ScimGroup) => {
+    const groups = getGroups();
+    const next = previous ? groups.map(g => (g.id === group.id ? group : g)) : [...groups, group];
+    saveGroups(next, [...group.members, ...(previous?.members ?? [])]);
+  };
+
+  return {
+    listUsers: (filter: string | null) => {
+      const condition = parseFilter(filter, ['userName', 'externalId', 'emails.value', 'emails']);
+      return getUsers().filter(u => {
+        if (!condition) return true;
+        if (condition.attribute === 'externalId') return u.externalId === condition.value;
+        return u.email.toLowerCase() === condition.value.toLowerCase();
+      });
+    },
+
+    getUser: requireUser,
+
+    createUser: (resource: ScimResource): User => {
+      const user = fromUserResource(resource);
+      saveUser(user);
+      return user;
+    },
+
+    replaceUser: (id: string, resource: ScimResource): User => {
+      const user = fromUserResource(resource, requireUser(id));
+      saveUser(user);
+      return user;
+    },
+
+    patchUser: (id: string, operations: PatchOperation[], baseUrl: string): User => {
+      const existing = requireUser(id);
+      const user = fromUserResource(applyPatch(toUserResource(existing, baseUrl), operations), existing);
+      saveUser(user);
+      return user;
+    },
+
+    // Leavers are deactivated, never deleted, so their recognitions keep resolving
+    deactivateUser: (id: string) => {
+      const user = requireUser(id);
+      saveUser({ ...user, active: false });
+      const groups = getGroups();
+      if (groups.some(g => g.members.includes(id))) {
+        saveGroups(groups.map(g => ({ ...g, members: g.members.filter(m => m !== id) })), [id]);
+      }
+    },
+
+    listGroups: (filter: string | null) => {
+      const condition = parseFilter(filter, ['displayName', 'externalId']);
+      return getGroups().filter(g => {
+        if (!condition) return true;
+        return condition.attribute === 'externalId' ? g.externalId === condition.value : g.displayName === condition.value;
+      });
+    },
+
+    getGroup: requireGroup,
+
+    createGroup: (resource: ScimResource): ScimGroup => {
+      const group = fromGroupResource(resource);
+      writeGroup(group);
+      return group;
+    },
+
+    replaceGroup: (id: string, resource: ScimResource): ScimGroup => {
+      const previous = requireGroup(id);
+      const group = fromGroupResource(resource, previous);
+      writeGroup(group, previous);
+      return group;
+    },
+
+    patchGroup: (id: string, operations: PatchOperation[]): ScimGroup => {
+      const previous = requireGroup(id);
+      let members = [...previous.members];
+      let displayName = previous.displayName;
+      let externalId = previous.externalId;
+
+      operations.forEach(({ op, path, value }) => {
+        const operation = op?.toLowerCase();
+        const memberFilter = /^members\[value eq "([^"]+)"\]$/.exec(path || '');
+
+        if (memberFilter && operation === 'remove') {
+          members = members.filter(m => m !== memberFilter[1]);
+        } else if (path === 'members' && operation === 'add') {
+          members = Array.from(new Set([...members, ...parseMembers(value)]));
+        } else if (path === 'members' && operation === 'remove') {
+          const removed = new Set(Array.isArray(value) ? value.map(memberId) : members);
+          members = members.filter(m => !removed.has(m));
+        } else if (path === 'members' && operation === 'replace') {
+          members = parseMembers(value);
+        } else if (path === 'displayName' || path === 'externalId' || (!path && isObject(value))) {
+          const changes = path ? { [path]: value } : asObject(value);
+          displayName = asOptionalString(changes.displayName) ?? displayName;
+          externalId = asOptionalString(changes.externalId) ?? externalId;
+          if (changes.members) members = parseMembers(changes.members);
+        } else {
+          throw new ScimError(400, `Operación no soportada en grupos: ${op} ${path ?? ''}`, 'invalidPath');
+        }
+      });
+
+      const group = fromGroupResource({ displayName, externalId }, { ...previous, members });
+      writeGroup(group, previous);
+      return group;
+    },
+
+    deleteGroup: (id: string) => {
+      const group = requireGroup(id);
+      saveGroups(getGroups().filter(g => g.id !== id), group.members);
+    },
+
+    toUserResource,
+    toGroupResource,
+  };
+};
+
+export type ScimDirectory = ReturnType<typeof createScimDirectory>;
@@ -0,0 +1,56 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+// Key/value document store. Persists to a JSON file when a path is given, otherwise in memory.
+export const createStore = (file?: string) => {
+  const documents = new Map<string, unknown>();
+  // Incremented on every write, used for optimistic concurrency (ETag)
+  const versions = new Map<string, number>();
+
+  if (file && existsSync(file)) {
+    const data = JSON.parse(readFileSync(file, 'utf8')) as Record<string, unknown>;
+    Object.entries(data).forEach(([key, value]) => documents.set(key, value));
+  }
+
+  const flush = () => {
+    if (file) {
+      writeFileSync(file, JSON.stringify(Object.fromEntries(documents), null, 2));
+    }
+  };
+
+  return {
+    has: (key: string) => documents.has(key),
+
+    get: <T = unknown>(key: string): T | undefined => documents.get(key) as T | undefined,
+
+    version: (key: string): number => versions.get(key) || 0,
+
+    set: (key: string, value: unknown) => {
+      documents.set(key, value);
+      versions.set(key, (versions.get(key) || 0) + 1);
+      flush();
+    },
+
+    // Writes several documents with a single flush
+    setMany: (writes: Record<string, unknown>) => {
+      Object.entries(writes).forEach(([key, value]) => {
+        documents.set(key, value);
+        versions.set(key, (versions.get(key) || 0) + 1);
+      });
+      flush();
+    },
+
+    delete: (key: string) => {
+      documents.delete(key);
+      versions.set(key, (versions.get(key) || 0) + 1);
+      flush();
+    },
+  };
+};
+
+export type Store = ReturnType<typeof createStore>;
+
+// Same documents the client reads through STORAGE_KEYS (src/utils/storage.ts)
+export const USERS_KEY = 'promipoints_users';
+export const SESSIONS_KEY = 'promipoints_sessions';
+export const SYSTEM_CONFIG_KEY = 'promipoints_system_config';
+export const LEDGER_KEYS = ['promipoints_allocations', 'promipoints_assignments', 'promipoints_adjustments'];
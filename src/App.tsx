@@ -1,32 +1,95 @@
 import { useState, useEffect } from 'react';
 import { User } from './types';
-import { storage, initializeDemoData } from './utils/storage';
+import { storage, initStorage, initializeDemoData, getStorageBackend } from './utils/storage';
+import { needsBootstrap } from './utils/bootstrap';
+import { appConfig } from './config';
+import { startSession, resumeSession, checkSession, touchSession, endSession, SESSION_END_MESSAGES } from './utils/session';
 import { Login } from './components/Login';
+import { BootstrapAdmin } from './components/BootstrapAdmin';
 import { UserDashboard } from './components/UserDashboard';
 import { PeopleDashboard } from './components/PeopleDashboard';
 import { Toaster } from './components/ui/sonner';
 
+const SESSION_CHECK_INTERVAL_MS = 30 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown'] as const;
+
 export default function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [storageError, setStorageError] = useState('');
+  const [sessionNotice, setSessionNotice] = useState('');
+  const [showBootstrap, setShowBootstrap] = useState(false);
 
   useEffect(() => {
-    // Initialize demo data
-    initializeDemoData();
+    const init = async () => {
+      try {
+        // Load shared data from the configured persistence backend
+        await initStorage();
+      } catch (error) {
+        console.error('[storage] No se pudo inicializar el almacenamiento:', error);
+        setStorageError('No se pudo conectar con el servidor de datos. Intenta de nuevo más tarde.');
+        setIsLoading(false);
+        return;
+      }
 
-    // Check for existing session
-    const user = storage.getCurrentUser();
-    setCurrentUser(user);
-    setIsLoading(false);
+      // Demo data is only seeded in demo mode; production starts with an empty directory. The API server
+      // only takes writes from signed-in users, so its directory starts from the setup screen.
+      if (appConfig.mode === 'demo' && getStorageBackend() !== 'http') {
+        await initializeDemoData();
+      }
+      setShowBootstrap(await needsBootstrap());
+
+      // Check for existing session
+      const session = await resumeSession();
+      setCurrentUser(session?.user ?? null);
+      if (session?.reason) {
+        setSessionNotice(SESSION_END_MESSAGES[session.reason]);
+      }
+      setIsLoading(false);
+    };
+
+    init();
   }, []);
 
-  const handleLogin = (user: User) => {
-    storage.setCurrentUser(user);
+  // Re-check the session periodically: expiry, idle timeout, logout elsewhere, role or status changes
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const verify = () => {
+      const result = checkSession();
+      if (result.reason) {
+        endSession();
+        setSessionNotice(SESSION_END_MESSAGES[result.reason]);
+        setCurrentUser(null);
+      }
+    };
+    const handleActivity = () => touchSession();
+
+    const interval = setInterval(verify, SESSION_CHECK_INTERVAL_MS);
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity));
+    document.addEventListener('visibilitychange', verify);
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', verify);
+    };
+  }, [currentUser]);
+
+  const handleLogin = async (user: User, assertion?: string | null) => {
+    try {
+      await startSession(user, assertion);
+    } catch (error) {
+      console.error('[session] No se pudo iniciar la sesión:', error);
+      setSessionNotice('No se pudo iniciar la sesión. Intenta de nuevo.');
+      return;
+    }
+    setSessionNotice('');
+    setShowBootstrap(false);
     setCurrentUser(user);
   };
 
   const handleLogout = () => {
-    storage.setCurrentUser(null);
+    endSession();
     setCurrentUser(null);
   };
 
@@ -41,10 +104,27 @@ export default function App() {
     );
   }
 
+  if (storageError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <p className="text-muted-foreground text-center">{storageError}</p>
+      </div>
+    );
+  }
+
+  if (!currentUser && showBootstrap) {
+    return (
+      <>
+        <BootstrapAdmin onCreated={handleLogin} />
+        <Toaster />
+      </>
+    );
+  }
+
   if (!currentUser) {
     return (
       <>
-        <Login onLogin={handleLogin} />
+        <Login onLogin={handleLogin} notice={sessionNotice} />
         <Toaster />
       </>
     );
@@ -52,7 +132,8 @@ export default function App() {
 
   return (
     <>
-      {currentUser.role === 'people' || currentUser.role === 'superadmin' ? (
+      {/* Every tab of the People Dashboard needs a permission, and custom roles decide which ones */}
+      {storage.getUserPermissions(currentUser).length > 0 ? (
         <PeopleDashboard user={currentUser} onLogout={handleLogout} />
       ) : (
         <UserDashboard user={currentUser} onLogout={handleLogout} />
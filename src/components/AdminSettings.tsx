@@ -1,6 +1,19 @@
 import { useState } from 'react';
-import { SystemConfig, User, OnboardingStep, EmailNotificationConfig } from '../types';
-import { storage, getCurrentMonth } from '../utils/storage';
+import { SystemConfig, User, OnboardingStep, EmailNotificationConfig, BudgetConfig, RolloverPolicy, AnonymityPolicy, OidcConfig, OidcRoleMapping, CustomRole, Permission } from '../types';
+import { storage, applyConfigEdits } from '../utils/storage';
+import { createId } from '../utils/ids';
+import { ReconciliationEntry } from '../utils/ledger';
+import { BUDGET_PLACEHOLDER } from '../utils/budget';
+import { ROLLOVER_PLACEHOLDER } from '../utils/rollover';
+import { ANONYMITY_PLACEHOLDER } from '../utils/anonymity';
+import { sendTestEmail, MailTestStep, MailTestStage } from '../utils/notifications';
+import { validateEmailTemplates, EMAIL_TEMPLATE_LABELS } from '../utils/emailTemplates';
+import { saveSecret, deleteSecret, secretsAreServerSide } from '../utils/secrets';
+import { normalizeDomain, isValidDomain } from '../utils/domains';
+import { ROLE_LABELS } from '../utils/directory';
+import { findDepartment } from '../utils/departments';
+import { PERMISSION_LABELS, ALL_PERMISSIONS, ROLE_PERMISSIONS, assertPermission, assertConfigChange } from '../utils/permissions';
+import { getRedirectUri } from '../utils/oidc';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -13,26 +26,66 @@ import { Alert, AlertDescription } from './ui/alert';
 import { Separator } from './ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Badge } from './ui/badge';
-import { Settings, Plus, X, RotateCcw, AlertTriangle, Info, Mail, FileText, Tag, BookOpen, Bell, Trash2, Server, Search } from 'lucide-react';
+import { EmailTemplateEditor } from './EmailTemplateEditor';
+import { Settings, Plus, X, RotateCcw, AlertTriangle, Info, Mail, FileText, Tag, BookOpen, Bell, Trash2, Server, Search, Scale, CheckCircle2, Wallet, Send, XCircle, Loader2, ShieldCheck, KeyRound } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { motion, AnimatePresence } from 'motion/react';
 
 interface AdminSettingsProps {
+  user: User;
   onUpdate?: () => void;
 }
 
 const MAX_ONBOARDING_STEPS = 5;
 
-export function AdminSettings({ onUpdate }: AdminSettingsProps) {
+const MAIL_TEST_STAGE_LABELS: Record<MailTestStage, string> = {
+  dns: 'Resolución DNS',
+  connection: 'Conexión al servidor',
+  tls: 'Cifrado TLS',
+  auth: 'Autenticación',
+  send: 'Envío del mensaje',
+};
+
+// Empty input means "inherit from the next rule"
+const parseBudgetInput = (value: string): number | undefined =>
+  value === '' ? undefined : Math.max(0, parseInt(value) || 0);
+
+export function AdminSettings({ user: currentUser, onUpdate }: AdminSettingsProps) {
   const [open, setOpen] = useState(false);
   const [config, setConfig] = useState<SystemConfig>(storage.getSystemConfig());
+  // Stored config when the dialog opened, to save only the sections edited here
+  const [openedConfig, setOpenedConfig] = useState<SystemConfig>(config);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   const [resetType, setResetType] = useState<'partial' | 'total'>('partial');
   const [newPeopleEmail, setNewPeopleEmail] = useState('');
+  const [newLoginDomain, setNewLoginDomain] = useState('');
+  const [newLoginDomainDepartment, setNewLoginDomainDepartment] = useState('');
+  const [newRoleName, setNewRoleName] = useState('');
   const [userSearchTerm, setUserSearchTerm] = useState('');
-
-  const users = storage.getUsers().filter(u => u.role === 'employee');
+  const [reconciliation, setReconciliation] = useState<ReconciliationEntry[] | null>(null);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [budgetUserId, setBudgetUserId] = useState('');
+  const [budgetUserPoints, setBudgetUserPoints] = useState('');
+  const [testEmailTo, setTestEmailTo] = useState(currentUser.email);
+  const [testEmailSteps, setTestEmailSteps] = useState<MailTestStep[] | null>(null);
+  const [isTestingEmail, setIsTestingEmail] = useState(false);
+  // Write-only: the stored password is never loaded back into the form
+  const [smtpPasswordDraft, setSmtpPasswordDraft] = useState('');
+  const [removeSmtpPassword, setRemoveSmtpPassword] = useState(false);
+
+  const allUsers = storage.getUsers();
+  const users = allUsers.filter(u => u.role === 'employee');
+  const permissions = storage.getUserPermissions(currentUser);
+  const can = (permission: Permission) => permissions.includes(permission);
+  const isSuperadmin = currentUser.role === 'superadmin';
+  const defaultTab = can('editCategories')
+    ? 'categories'
+    : can('configureSystem')
+      ? 'budget'
+      : can('configureEmail')
+        ? 'notifications'
+        : 'reset';
   
   // Ensure onboardingSteps exists
   const onboardingSteps = config.onboardingSteps || [];
@@ -78,6 +131,61 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
     setConfig(updatedConfig);
   };
 
+  const handleAddLoginDomain = () => {
+    const domain = normalizeDomain(newLoginDomain);
+    if (!isValidDomain(domain)) {
+      toast.error('Dominio inválido', { description: 'Usa el formato empresa.com' });
+      return;
+    }
+
+    if (config.loginDomains.some(d => normalizeDomain(d.domain) === domain)) {
+      toast.error('Este dominio ya está en la lista');
+      return;
+    }
+
+    const loginDomains = [...config.loginDomains, { domain, defaultDepartment: newLoginDomainDepartment.trim() }];
+    setConfig({ ...config, loginDomains });
+    setNewLoginDomain('');
+    setNewLoginDomainDepartment('');
+    toast.success('Dominio agregado');
+  };
+
+  const handleUpdateLoginDomainDepartment = (domain: string, defaultDepartment: string) => {
+    const loginDomains = config.loginDomains.map(d => (d.domain === domain ? { ...d, defaultDepartment } : d));
+    setConfig({ ...config, loginDomains });
+  };
+
+  const handleRemoveLoginDomain = (domain: string) => {
+    if (config.loginDomains.length <= 1) {
+      toast.error('Debe haber al menos un dominio permitido');
+      return;
+    }
+
+    setConfig({ ...config, loginDomains: config.loginDomains.filter(d => d.domain !== domain) });
+    toast.success('Dominio eliminado');
+  };
+
+  const handleUpdateOidcConfig = <K extends keyof OidcConfig>(field: K, value: OidcConfig[K]) => {
+    const updatedConfig = {
+      ...config,
+      oidc: { ...config.oidc, [field]: value },
+    };
+    setConfig(updatedConfig);
+  };
+
+  const handleUpdateOidcRoleMapping = (index: number, changes: Partial<OidcRoleMapping>) => {
+    const roleMapping = config.oidc.roleMapping.map((m, i) => (i === index ? { ...m, ...changes } : m));
+    handleUpdateOidcConfig('roleMapping', roleMapping);
+  };
+
+  const handleAddOidcRoleMapping = () => {
+    handleUpdateOidcConfig('roleMapping', [...config.oidc.roleMapping, { claimValue: '', role: 'people' }]);
+  };
+
+  const handleRemoveOidcRoleMapping = (index: number) => {
+    handleUpdateOidcConfig('roleMapping', config.oidc.roleMapping.filter((_, i) => i !== index));
+  };
+
   const handleUpdateOnboardingStep = (index: number, field: keyof OnboardingStep, value: string) => {
     const updatedSteps = [...config.onboardingSteps];
     updatedSteps[index] = { ...updatedSteps[index], [field]: value };
@@ -125,6 +233,59 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
     setConfig(updatedConfig);
   };
 
+  const updateBudget = (budget: BudgetConfig) => {
+    setConfig({ ...config, budget });
+  };
+
+  const withBudgetValue = <K extends string>(values: Partial<Record<K, number>>, key: K, value: string) => {
+    const updated = { ...values };
+    const points = parseBudgetInput(value);
+    if (points === undefined) {
+      delete updated[key];
+    } else {
+      updated[key] = points;
+    }
+    return updated;
+  };
+
+  const handleUpdateDefaultBudget = (value: string) => {
+    updateBudget({ ...config.budget, defaultPoints: parseBudgetInput(value) ?? 0 });
+  };
+
+  const handleUpdateRoleBudget = (role: User['role'], value: string) => {
+    updateBudget({ ...config.budget, byRole: withBudgetValue(config.budget.byRole, role, value) });
+  };
+
+  const handleUpdateDepartmentBudget = (department: string, value: string) => {
+    updateBudget({
+      ...config.budget,
+      byDepartment: withBudgetValue(config.budget.byDepartment, department, value) as Record<string, number>,
+    });
+  };
+
+  const handleAddUserBudget = () => {
+    const points = parseBudgetInput(budgetUserPoints);
+    if (!budgetUserId || points === undefined) {
+      toast.error('Selecciona un colaborador e ingresa los puntos');
+      return;
+    }
+
+    updateBudget({ ...config.budget, byUser: { ...config.budget.byUser, [budgetUserId]: points } });
+    setBudgetUserId('');
+    setBudgetUserPoints('');
+    toast.success('Presupuesto individual agregado');
+  };
+
+  const handleRemoveUserBudget = (userId: string) => {
+    const byUser = { ...config.budget.byUser };
+    delete byUser[userId];
+    updateBudget({ ...config.budget, byUser });
+  };
+
+  const handleUpdateRollover = (field: keyof RolloverPolicy, value: RolloverPolicy[keyof RolloverPolicy]) => {
+    setConfig({ ...config, rollover: { ...config.rollover, [field]: value } });
+  };
+
   const handleAddPeopleEmail = () => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!emailRegex.test(newPeopleEmail)) {
@@ -149,35 +310,45 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
     toast.success('Email eliminado');
   };
 
-  const handleResetPoints = () => {
-    if (selectedUsers.length === 0) {
-      toast.error('Selecciona al menos un colaborador');
+  const handleSendTestEmail = async () => {
+    if (!testEmailTo.includes('@')) {
+      toast.error('Ingresa un email válido para la prueba');
       return;
     }
 
-    const month = getCurrentMonth();
-    const allocations = storage.getAllocations();
-    const assignments = storage.getAssignments();
-
-    selectedUsers.forEach(userId => {
-      const allocation = allocations.find(a => a.userId === userId && a.month === month);
-      
-      if (allocation) {
-        if (resetType === 'total') {
-          allocation.pointsRemaining = 10;
-          allocation.pointsReceived = 0;
-        } else {
-          allocation.pointsReceived = 0;
-        }
-        storage.updateAllocation(allocation);
+    setIsTestingEmail(true);
+    setTestEmailSteps(null);
+    try {
+      const steps = await sendTestEmail(config.emailNotifications, testEmailTo.trim(), smtpPasswordDraft || undefined);
+      setTestEmailSteps(steps);
+      const failed = steps.find(step => !step.ok);
+      if (failed) {
+        toast.error(`Falló la etapa: ${MAIL_TEST_STAGE_LABELS[failed.stage]}`);
+      } else {
+        toast.success(`Email de prueba enviado a ${testEmailTo.trim()}`);
       }
-    });
+    } catch (error) {
+      console.error('[AdminSettings] Error al probar la conexión SMTP:', error);
+      toast.error('No se pudo contactar al servidor de la API', {
+        description: 'Verifica que esté en ejecución (npm run mock-api).',
+      });
+    } finally {
+      setIsTestingEmail(false);
+    }
+  };
 
-    if (resetType === 'total') {
-      const filteredAssignments = assignments.filter(a => 
-        a.month !== month || (!selectedUsers.includes(a.toUserId) && !selectedUsers.includes(a.fromUserId))
-      );
-      storage.setAssignments(filteredAssignments);
+  const handleResetPoints = async () => {
+    if (selectedUsers.length === 0) {
+      toast.error('Selecciona al menos un colaborador');
+      return;
+    }
+
+    try {
+      await storage.resetPoints(selectedUsers, resetType, currentUser.id);
+    } catch (error) {
+      console.error('[AdminSettings] Error al resetear puntos:', error);
+      toast.error('No se pudieron resetear los puntos. Intenta de nuevo.');
+      return;
     }
 
     toast.success(`Puntos ${resetType === 'total' ? 'totales' : 'recibidos'} reseteados para ${selectedUsers.length} usuario(s)`);
@@ -185,7 +356,48 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
     onUpdate?.();
   };
 
-  const handleSaveConfig = () => {
+  const handleAnalyzeLedger = () => {
+    const report = storage.getReconciliationReport();
+    setReconciliation(report);
+    if (report.length === 0) {
+      toast.success('Los saldos coinciden con el historial de asignaciones');
+    }
+  };
+
+  const handleRepairLedger = async () => {
+    if (!reconciliation || reconciliation.length === 0) return;
+
+    setIsRepairing(true);
+    try {
+      await storage.repairAllocations(reconciliation, currentUser.id);
+    } catch (error) {
+      console.error('[AdminSettings] Error al conciliar saldos:', error);
+      toast.error('No se pudieron reparar los saldos. Intenta de nuevo.');
+      setIsRepairing(false);
+      return;
+    }
+
+    toast.success(`${reconciliation.length} saldo(s) reparado(s) a partir del historial`);
+    setReconciliation(storage.getReconciliationReport());
+    setIsRepairing(false);
+    onUpdate?.();
+  };
+
+  const getUserName = (userId: string) => allUsers.find(u => u.id === userId)?.name || userId;
+
+  const departments = config.departments.map(d => d.name).sort((a, b) => a.localeCompare(b));
+
+  // Departments are managed from the dashboard, so each time the dialog opens it starts from the stored config
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      const stored = storage.getSystemConfig();
+      setConfig(stored);
+      setOpenedConfig(stored);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleSaveConfig = async () => {
     const enabledCategories = config.categories.filter(cat => cat.enabled);
     
     if (enabledCategories.length === 0) {
@@ -198,12 +410,148 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
       return;
     }
 
-    storage.setSystemConfig(config);
+    const templateIssue = validateEmailTemplates(config.emailNotifications.templates)[0];
+    if (templateIssue) {
+      toast.error(`La plantilla "${EMAIL_TEMPLATE_LABELS[templateIssue.kind]}" tiene marcadores no reconocidos`, {
+        description: templateIssue.placeholders.join(', '),
+      });
+      return;
+    }
+
+    const unknownDepartment = config.loginDomains.find(
+      d => d.defaultDepartment.trim() && !findDepartment(config.departments, d.defaultDepartment)
+    );
+    if (unknownDepartment) {
+      toast.error(`El departamento por defecto de @${unknownDepartment.domain} no está en el catálogo`, {
+        description: unknownDepartment.defaultDepartment,
+      });
+      return;
+    }
+
+    if (config.oidc.enabled) {
+      try {
+        new URL(config.oidc.issuer);
+      } catch {
+        toast.error('El emisor (issuer) del SSO debe ser una URL válida');
+        return;
+      }
+      if (!config.oidc.clientId.trim()) {
+        toast.error('Falta el Client ID del SSO');
+        return;
+      }
+    }
+
+    // The saved password is bound to its server and user, on the API server and in this browser alike
+    const savedEmail = storage.getSystemConfig().emailNotifications;
+    const { smtpHost, smtpUser, smtpPasswordSet } = config.emailNotifications;
+    const smtpAccountChanged = savedEmail.smtpHost !== smtpHost || savedEmail.smtpUser !== smtpUser;
+    if (smtpAccountChanged && smtpPasswordSet && !smtpPasswordDraft && !removeSmtpPassword) {
+      toast.error('Vuelve a escribir la contraseña SMTP', {
+        description: 'La contraseña guardada solo se usa con el servidor y el usuario con los que se guardó.',
+      });
+      return;
+    }
+
+    const emailNotifications = smtpPasswordDraft
+      ? { ...config.emailNotifications, smtpPasswordSet: true }
+      : removeSmtpPassword
+        ? { ...config.emailNotifications, smtpPasswordSet: false }
+        : config.emailNotifications;
+    const loginDomains = can('configureSystem')
+      ? config.loginDomains.map(d => ({
+          ...d,
+          defaultDepartment: findDepartment(config.departments, d.defaultDepartment)?.name ?? '',
+        }))
+      : config.loginDomains;
+    const editedConfig = { ...config, loginDomains, emailNotifications };
+
+    // The password is written before the config, so the permissions are checked before either is saved
+    try {
+      const latest = storage.getSystemConfig();
+      if (smtpPasswordDraft || removeSmtpPassword) assertPermission(currentUser, 'configureEmail', latest.roles);
+      assertConfigChange(currentUser, latest, applyConfigEdits(latest, openedConfig, editedConfig));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No tienes permiso para esta acción');
+      return;
+    }
+
+    try {
+      if (smtpPasswordDraft) {
+        await saveSecret('smtpPassword', smtpPasswordDraft, {
+          host: emailNotifications.smtpHost,
+          user: emailNotifications.smtpUser,
+        });
+      } else if (removeSmtpPassword) {
+        await deleteSecret('smtpPassword');
+      }
+    } catch (error) {
+      console.error('[AdminSettings] Error al guardar la contraseña SMTP:', error);
+      toast.error('No se pudo guardar la contraseña SMTP', { description: 'Intenta de nuevo más tarde.' });
+      return;
+    }
+
+    let savedConfig: SystemConfig;
+    try {
+      savedConfig = await storage.updateSystemConfig(
+        latest => applyConfigEdits(latest, openedConfig, editedConfig),
+        currentUser.id
+      );
+    } catch (error) {
+      console.error('[AdminSettings] Error al guardar la configuración:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo guardar la configuración');
+      return;
+    }
+    setConfig(savedConfig);
+    setOpenedConfig(savedConfig);
+    setSmtpPasswordDraft('');
+    setRemoveSmtpPassword(false);
     toast.success('Configuración guardada exitosamente');
     setOpen(false);
     onUpdate?.();
   };
 
+  const handleAddRole = () => {
+    const name = newRoleName.trim();
+    if (!name) {
+      toast.error('Ingresa un nombre para el rol');
+      return;
+    }
+    if (config.roles.some(r => r.name.toLowerCase() === name.toLowerCase())) {
+      toast.error('Ya existe un rol con ese nombre');
+      return;
+    }
+
+    const updatedConfig = { ...config, roles: [...config.roles, { id: createId(), name, permissions: ['viewReports'] as Permission[] }] };
+    setConfig(updatedConfig);
+    setNewRoleName('');
+  };
+
+  const handleToggleRolePermission = (roleId: string, permission: Permission) => {
+    const updatedRoles = config.roles.map(role => {
+      if (role.id !== roleId) return role;
+      const permissions = role.permissions.includes(permission)
+        ? role.permissions.filter(p => p !== permission)
+        : [...role.permissions, permission];
+      return { ...role, permissions };
+    });
+    const updatedConfig = { ...config, roles: updatedRoles };
+    setConfig(updatedConfig);
+  };
+
+  // Removing a role in use would silently give its users the full People & Culture permissions
+  const handleRemoveRole = (role: CustomRole) => {
+    const assigned = allUsers.filter(u => u.customRoleId === role.id).length;
+    if (assigned > 0) {
+      toast.error(`El rol ${role.name} está asignado a ${assigned} colaborador(es)`, {
+        description: 'Asígnales otro rol antes de eliminarlo.',
+      });
+      return;
+    }
+
+    const updatedConfig = { ...config, roles: config.roles.filter(r => r.id !== role.id) };
+    setConfig(updatedConfig);
+  };
+
   const handleSelectAllUsers = () => {
     if (selectedUsers.length === users.length) {
       setSelectedUsers([]);
@@ -229,6 +577,10 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
         handleUpdateEmailConfig('smtpHost', 'smtp.sendgrid.net');
         handleUpdateEmailConfig('smtpPort', 587);
         break;
+      case 'local':
+        handleUpdateEmailConfig('smtpHost', 'localhost');
+        handleUpdateEmailConfig('smtpPort', 1025);
+        break;
       case 'custom':
         // Keep current values for custom
         break;
@@ -248,7 +600,7 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
   });
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button variant="outline" size="sm">
           <Settings className="w-4 h-4 mr-2" />
@@ -263,32 +615,60 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
             Configuración del Sistema
           </DialogTitle>
           <DialogDescription>
-            Administra categorías, onboarding, notificaciones, contenido de login y reseteo de puntos
+            Administra categorías, presupuesto, onboarding, notificaciones, contenido de login, reseteo y conciliación de puntos
           </DialogDescription>
         </DialogHeader>
 
-        <Tabs defaultValue="categories" className="mt-4">
-          <TabsList className="grid w-full grid-cols-5 h-auto">
-            <TabsTrigger value="categories" className="flex flex-col sm:flex-row gap-1 py-2">
-              <Tag className="w-4 h-4" />
-              <span className="text-xs sm:text-sm">Categorías</span>
-            </TabsTrigger>
-            <TabsTrigger value="onboarding" className="flex flex-col sm:flex-row gap-1 py-2">
-              <BookOpen className="w-4 h-4" />
-              <span className="text-xs sm:text-sm">Tutorial</span>
-            </TabsTrigger>
-            <TabsTrigger value="notifications" className="flex flex-col sm:flex-row gap-1 py-2">
-              <Bell className="w-4 h-4" />
-              <span className="text-xs sm:text-sm">Emails</span>
-            </TabsTrigger>
-            <TabsTrigger value="login" className="flex flex-col sm:flex-row gap-1 py-2">
-              <Mail className="w-4 h-4" />
-              <span className="text-xs sm:text-sm">Login</span>
-            </TabsTrigger>
-            <TabsTrigger value="reset" className="flex flex-col sm:flex-row gap-1 py-2">
-              <RotateCcw className="w-4 h-4" />
-              <span className="text-xs sm:text-sm">Reset</span>
-            </TabsTrigger>
+        <Tabs defaultValue={defaultTab} className="mt-4">
+          <TabsList className="flex flex-wrap w-full h-auto">
+            {can('editCategories') && (
+              <TabsTrigger value="categories" className="flex-1 flex flex-col sm:flex-row gap-1 py-2">
+                <Tag className="w-4 h-4" />
+                <span className="text-xs sm:text-sm">Categorías</span>
+              </TabsTrigger>
+            )}
+            {can('configureSystem') && (
+              <>
+                <TabsTrigger value="budget" className="flex-1 flex flex-col sm:flex-row gap-1 py-2">
+                  <Wallet className="w-4 h-4" />
+                  <span className="text-xs sm:text-sm">Presupuesto</span>
+                </TabsTrigger>
+                <TabsTrigger value="onboarding" className="flex-1 flex flex-col sm:flex-row gap-1 py-2">
+                  <BookOpen className="w-4 h-4" />
+                  <span className="text-xs sm:text-sm">Tutorial</span>
+                </TabsTrigger>
+              </>
+            )}
+            {can('configureEmail') && (
+              <TabsTrigger value="notifications" className="flex-1 flex flex-col sm:flex-row gap-1 py-2">
+                <Bell className="w-4 h-4" />
+                <span className="text-xs sm:text-sm">Emails</span>
+              </TabsTrigger>
+            )}
+            {can('configureSystem') && (
+              <TabsTrigger value="login" className="flex-1 flex flex-col sm:flex-row gap-1 py-2">
+                <Mail className="w-4 h-4" />
+                <span className="text-xs sm:text-sm">Login</span>
+              </TabsTrigger>
+            )}
+            {can('resetPoints') && (
+              <>
+                <TabsTrigger value="reset" className="flex-1 flex flex-col sm:flex-row gap-1 py-2">
+                  <RotateCcw className="w-4 h-4" />
+                  <span className="text-xs sm:text-sm">Reset</span>
+                </TabsTrigger>
+                <TabsTrigger value="reconcile" className="flex-1 flex flex-col sm:flex-row gap-1 py-2">
+                  <Scale className="w-4 h-4" />
+                  <span className="text-xs sm:text-sm">Conciliar</span>
+                </TabsTrigger>
+              </>
+            )}
+            {isSuperadmin && (
+              <TabsTrigger value="roles" className="flex-1 flex flex-col sm:flex-row gap-1 py-2">
+                <KeyRound className="w-4 h-4" />
+                <span className="text-xs sm:text-sm">Roles</span>
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Categorías */}
@@ -373,6 +753,215 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
             </Card>
           </TabsContent>
 
+          {/* Presupuesto */}
+          <TabsContent value="budget" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Presupuesto Mensual de Puntos</CardTitle>
+                <CardDescription>
+                  Define cuántos PromiPoints recibe cada colaborador para compartir al inicio del mes
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertDescription>
+                    Prioridad: usuario, luego departamento, luego rol y por último el valor por defecto. 
+                    Deja un campo vacío para heredar. Los cambios aplican a las asignaciones mensuales nuevas.
+                  </AlertDescription>
+                </Alert>
+
+                <div className="space-y-2">
+                  <Label htmlFor="budget-default">Puntos por defecto</Label>
+                  <Input
+                    id="budget-default"
+                    type="number"
+                    min={0}
+                    value={config.budget.defaultPoints}
+                    onChange={(e) => handleUpdateDefaultBudget(e.target.value)}
+                    className="w-32"
+                  />
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3">
+                  <h4 className="font-semibold">Por Rol</h4>
+                  {(Object.keys(ROLE_LABELS) as User['role'][]).map(role => (
+                    <div key={role} className="flex items-center justify-between gap-4">
+                      <Label htmlFor={`budget-role-${role}`}>{ROLE_LABELS[role]}</Label>
+                      <Input
+                        id={`budget-role-${role}`}
+                        type="number"
+                        min={0}
+                        value={config.budget.byRole[role] ?? ''}
+                        onChange={(e) => handleUpdateRoleBudget(role, e.target.value)}
+                        placeholder={String(config.budget.defaultPoints)}
+                        className="w-32"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3">
+                  <h4 className="font-semibold">Por Departamento</h4>
+                  {departments.map(department => (
+                    <div key={department} className="flex items-center justify-between gap-4">
+                      <Label htmlFor={`budget-dept-${department}`}>{department}</Label>
+                      <Input
+                        id={`budget-dept-${department}`}
+                        type="number"
+                        min={0}
+                        value={config.budget.byDepartment[department] ?? ''}
+                        onChange={(e) => handleUpdateDepartmentBudget(department, e.target.value)}
+                        placeholder="Heredar"
+                        className="w-32"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3">
+                  <h4 className="font-semibold">Por Colaborador</h4>
+                  <div className="flex gap-2">
+                    <Select value={budgetUserId} onValueChange={setBudgetUserId}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Selecciona un colaborador..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {allUsers.map(u => (
+                          <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={budgetUserPoints}
+                      onChange={(e) => setBudgetUserPoints(e.target.value)}
+                      placeholder="Puntos"
+                      className="w-28"
+                    />
+                    <Button onClick={handleAddUserBudget} size="sm">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Agregar
+                    </Button>
+                  </div>
+
+                  {Object.keys(config.budget.byUser).length > 0 ? (
+                    <div className="space-y-2">
+                      {Object.entries(config.budget.byUser).map(([userId, points]) => (
+                        <div key={userId} className="flex items-center justify-between p-2 bg-background border rounded">
+                          <span className="text-sm">{getUserName(userId)}</span>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="secondary">{points} pts</Badge>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRemoveUserBudget(userId)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No hay presupuestos individuales
+                    </p>
+                  )}
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3">
+                  <h4 className="font-semibold">Acumulación de Puntos No Usados</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Se aplica al crear la asignación del mes siguiente de cada colaborador
+                  </p>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="rollover-mode">Política</Label>
+                    <Select
+                      value={config.rollover.mode}
+                      onValueChange={(v) => handleUpdateRollover('mode', v as RolloverPolicy['mode'])}
+                    >
+                      <SelectTrigger id="rollover-mode" className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Sin acumulación (expiran)</SelectItem>
+                        <SelectItem value="full">Acumulación total</SelectItem>
+                        <SelectItem value="capped">Hasta un máximo de puntos</SelectItem>
+                        <SelectItem value="percentage">Porcentaje de lo no usado</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {config.rollover.mode === 'capped' && (
+                    <div className="flex items-center justify-between gap-4">
+                      <Label htmlFor="rollover-cap">Máximo de puntos</Label>
+                      <Input
+                        id="rollover-cap"
+                        type="number"
+                        min={0}
+                        value={config.rollover.cap}
+                        onChange={(e) => handleUpdateRollover('cap', parseBudgetInput(e.target.value) ?? 0)}
+                        className="w-32"
+                      />
+                    </div>
+                  )}
+
+                  {config.rollover.mode === 'percentage' && (
+                    <div className="flex items-center justify-between gap-4">
+                      <Label htmlFor="rollover-percentage">Porcentaje (%)</Label>
+                      <Input
+                        id="rollover-percentage"
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={config.rollover.percentage}
+                        onChange={(e) => handleUpdateRollover('percentage', Math.min(100, parseBudgetInput(e.target.value) ?? 0))}
+                        className="w-32"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3">
+                  <h4 className="font-semibold">Anonimato de los Reconocimientos</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Define quién ve al remitente en los tableros, exportaciones y emails. Aplica también a los
+                    reconocimientos anteriores.
+                  </p>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="anonymity-mode">Política</Label>
+                    <Select
+                      value={config.anonymity.mode}
+                      onValueChange={(v) => setConfig({ ...config, anonymity: { mode: v as AnonymityPolicy['mode'] } })}
+                    >
+                      <SelectTrigger id="anonymity-mode" className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="anonymous">Totalmente anónimo</SelectItem>
+                        <SelectItem value="people">Visible solo para People</SelectItem>
+                        <SelectItem value="senderChoice">El remitente decide si firma</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Onboarding */}
           <TabsContent value="onboarding" className="space-y-4">
             <Card>
@@ -387,7 +976,10 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
                   <Info className="h-4 w-4" />
                   <AlertDescription>
                     Edita el contenido de cada paso del tutorial inicial. 
-                    Hay {config.onboardingSteps.length} de máximo {MAX_ONBOARDING_STEPS} pasos.
+                    Hay {config.onboardingSteps.length} de máximo {MAX_ONBOARDING_STEPS} pasos. 
+                    Usa <strong>{BUDGET_PLACEHOLDER}</strong> para mostrar los puntos mensuales de cada colaborador,{' '}
+                    <strong>{ROLLOVER_PLACEHOLDER}</strong> para explicar la política de acumulación
+                    y <strong>{ANONYMITY_PLACEHOLDER}</strong> para explicar quién ve al remitente.
                   </AlertDescription>
                 </Alert>
 
@@ -482,12 +1074,12 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
-                <Alert variant="destructive">
-                  <AlertTriangle className="h-4 w-4" />
+                <Alert>
+                  <Info className="h-4 w-4" />
                   <AlertDescription>
-                    <strong>Nota:</strong> Esta es una funcionalidad de frontend únicamente. 
-                    Los emails NO se enviarán realmente. Necesitarás integrar un backend 
-                    con un servicio de email (SendGrid, Mailgun, etc.) para envíos reales.
+                    Los emails se envían a través del servidor de la API (<code>npm run mock-api</code> en desarrollo),
+                    que se conecta al servidor SMTP configurado abajo. Para pruebas, elige "Servidor local de pruebas"
+                    y ejecuta un capturador SMTP como Mailpit o MailHog.
                   </AlertDescription>
                 </Alert>
 
@@ -623,6 +1215,7 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
                         <SelectItem value="gmail">Gmail / Google Workspace</SelectItem>
                         <SelectItem value="outlook">Outlook / Microsoft 365</SelectItem>
                         <SelectItem value="sendgrid">SendGrid</SelectItem>
+                        <SelectItem value="local">Servidor local de pruebas</SelectItem>
                         <SelectItem value="custom">Personalizado</SelectItem>
                       </SelectContent>
                     </Select>
@@ -667,16 +1260,40 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
 
                   <div className="space-y-2">
                     <Label htmlFor="smtp-password">Contraseña / API Key</Label>
-                    <Input
-                      id="smtp-password"
-                      type="password"
-                      value={config.emailNotifications.smtpPassword}
-                      onChange={(e) => handleUpdateEmailConfig('smtpPassword', e.target.value)}
-                      placeholder="••••••••••••••••"
-                      disabled={!config.emailNotifications.enabled}
-                    />
+                    <div className="flex gap-2">
+                      <Input
+                        id="smtp-password"
+                        type="password"
+                        autoComplete="new-password"
+                        value={smtpPasswordDraft}
+                        onChange={(e) => {
+                          setSmtpPasswordDraft(e.target.value);
+                          setRemoveSmtpPassword(false);
+                        }}
+                        placeholder={
+                          config.emailNotifications.smtpPasswordSet && !removeSmtpPassword
+                            ? 'Guardada · escribe para reemplazarla'
+                            : '••••••••••••••••'
+                        }
+                        disabled={!config.emailNotifications.enabled}
+                      />
+                      {config.emailNotifications.smtpPasswordSet && !removeSmtpPassword && !smtpPasswordDraft && (
+                        <Button
+                          variant="outline"
+                          onClick={() => setRemoveSmtpPassword(true)}
+                          disabled={!config.emailNotifications.enabled}
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Eliminar
+                        </Button>
+                      )}
+                    </div>
                     <p className="text-xs text-muted-foreground">
                       Para Gmail, usa una contraseña de aplicación. Para SendGrid, usa tu API Key.
+                      {secretsAreServerSide()
+                        ? ' Se guarda solo en el servidor, ligada a este servidor y usuario, y no se vuelve a mostrar.'
+                        : ' Se guarda cifrada en este navegador, ligada a este servidor y usuario, y no se vuelve a mostrar.'}
+                      {removeSmtpPassword && ' Se eliminará al guardar la configuración.'}
                     </p>
                   </div>
 
@@ -705,6 +1322,72 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
                     />
                   </div>
                 </div>
+
+                <Separator />
+
+                {/* Plantillas de Email */}
+                <div className="space-y-4">
+                  <h4 className="font-semibold flex items-center gap-2">
+                    <FileText className="w-4 h-4" />
+                    Plantillas de Email
+                  </h4>
+                  <EmailTemplateEditor
+                    templates={config.emailNotifications.templates}
+                    onChange={(templates) => handleUpdateEmailConfig('templates', templates)}
+                  />
+                </div>
+
+                <Separator />
+
+                {/* Probar Configuración */}
+                <div className="space-y-4">
+                  <h4 className="font-semibold flex items-center gap-2">
+                    <Send className="w-4 h-4" />
+                    Probar Configuración
+                  </h4>
+                  <p className="text-sm text-muted-foreground">
+                    Verifica la conexión, la autenticación y envía un reconocimiento de ejemplo con los datos actuales,
+                    aunque todavía no estén guardados.
+                  </p>
+
+                  <div className="flex gap-2">
+                    <Input
+                      type="email"
+                      value={testEmailTo}
+                      onChange={(e) => setTestEmailTo(e.target.value)}
+                      placeholder="destinatario@grupoprominente.com"
+                      onKeyDown={(e) => e.key === 'Enter' && !isTestingEmail && handleSendTestEmail()}
+                    />
+                    <Button onClick={handleSendTestEmail} disabled={isTestingEmail || !config.emailNotifications.smtpHost}>
+                      {isTestingEmail ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Send className="w-4 h-4 mr-2" />
+                      )}
+                      Enviar Prueba
+                    </Button>
+                  </div>
+
+                  {testEmailSteps && (
+                    <div className="border rounded-lg divide-y">
+                      {testEmailSteps.map(step => (
+                        <div key={step.stage} className="p-3 flex items-start gap-3">
+                          {step.ok ? (
+                            <CheckCircle2 className="w-4 h-4 mt-0.5 text-success flex-shrink-0" />
+                          ) : (
+                            <XCircle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+                          )}
+                          <div className="min-w-0">
+                            <p className="font-medium text-sm">{MAIL_TEST_STAGE_LABELS[step.stage]}</p>
+                            <p className={`text-xs break-words ${step.ok ? 'text-muted-foreground' : 'text-destructive'}`}>
+                              {step.detail}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
@@ -768,6 +1451,208 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
                 </Alert>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Dominios Permitidos</CardTitle>
+                <CardDescription>
+                  Solo los correos de estos dominios pueden iniciar sesión. El departamento se asigna por defecto
+                  a los usuarios nuevos del dominio al importar la nómina.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    placeholder="subsidiaria.com"
+                    value={newLoginDomain}
+                    onChange={(e) => setNewLoginDomain(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddLoginDomain()}
+                  />
+                  <Input
+                    placeholder="Departamento por defecto (opcional)"
+                    list="login-domain-departments"
+                    value={newLoginDomainDepartment}
+                    onChange={(e) => setNewLoginDomainDepartment(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddLoginDomain()}
+                  />
+                  <Button onClick={handleAddLoginDomain} size="sm" className="sm:h-auto">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Agregar
+                  </Button>
+                </div>
+                <datalist id="login-domain-departments">
+                  {departments.map(department => (
+                    <option key={department} value={department} />
+                  ))}
+                </datalist>
+
+                <div className="space-y-2">
+                  {config.loginDomains.map(loginDomain => (
+                    <div
+                      key={loginDomain.domain}
+                      className="flex items-center gap-2 p-2 bg-background border rounded"
+                    >
+                      <span className="text-sm font-medium flex-1 min-w-0 truncate">@{loginDomain.domain}</span>
+                      <Input
+                        className="h-8 flex-1"
+                        placeholder="Sin departamento por defecto"
+                        list="login-domain-departments"
+                        value={loginDomain.defaultDepartment}
+                        onChange={(e) => handleUpdateLoginDomainDepartment(loginDomain.domain, e.target.value)}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveLoginDomain(loginDomain.domain)}
+                        className="text-destructive hover:text-destructive"
+                        disabled={config.loginDomains.length <= 1}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  Los usuarios SuperAdmin pueden iniciar sesión con cualquier dominio.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <ShieldCheck className="w-5 h-5" />
+                  SSO (OpenID Connect)
+                </CardTitle>
+                <CardDescription>
+                  Permite iniciar sesión con el proveedor de identidad corporativo. El usuario debe existir en la
+                  nómina; su departamento y rol se actualizan con los datos del proveedor.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="oidc-enabled">Habilitar SSO</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Muestra el botón de SSO en la pantalla de inicio de sesión
+                    </p>
+                  </div>
+                  <Switch
+                    id="oidc-enabled"
+                    checked={config.oidc.enabled}
+                    onCheckedChange={(checked) => handleUpdateOidcConfig('enabled', checked)}
+                  />
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="oidc-issuer">Emisor (Issuer)</Label>
+                    <Input
+                      id="oidc-issuer"
+                      value={config.oidc.issuer}
+                      onChange={(e) => handleUpdateOidcConfig('issuer', e.target.value)}
+                      placeholder="https://login.empresa.com"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="oidc-client-id">Client ID</Label>
+                    <Input
+                      id="oidc-client-id"
+                      value={config.oidc.clientId}
+                      onChange={(e) => handleUpdateOidcConfig('clientId', e.target.value)}
+                      placeholder="promipoints"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="oidc-scopes">Scopes</Label>
+                    <Input
+                      id="oidc-scopes"
+                      value={config.oidc.scopes}
+                      onChange={(e) => handleUpdateOidcConfig('scopes', e.target.value)}
+                      placeholder="openid email profile"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="oidc-button-label">Texto del botón</Label>
+                    <Input
+                      id="oidc-button-label"
+                      value={config.oidc.buttonLabel}
+                      onChange={(e) => handleUpdateOidcConfig('buttonLabel', e.target.value)}
+                      placeholder="SSO Corporativo"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="oidc-department-claim">Claim de departamento</Label>
+                    <Input
+                      id="oidc-department-claim"
+                      value={config.oidc.departmentClaim}
+                      onChange={(e) => handleUpdateOidcConfig('departmentClaim', e.target.value)}
+                      placeholder="department"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="oidc-role-claim">Claim de grupos / roles</Label>
+                    <Input
+                      id="oidc-role-claim"
+                      value={config.oidc.roleClaim}
+                      onChange={(e) => handleUpdateOidcConfig('roleClaim', e.target.value)}
+                      placeholder="groups"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Mapeo de grupos a roles</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Si el usuario pertenece a varios grupos se aplica el rol de mayor nivel. Sin coincidencias se
+                    conserva su rol actual.
+                  </p>
+                  {config.oidc.roleMapping.map((mapping, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        className="h-9 flex-1"
+                        placeholder="Valor del claim"
+                        value={mapping.claimValue}
+                        onChange={(e) => handleUpdateOidcRoleMapping(index, { claimValue: e.target.value })}
+                      />
+                      <Select
+                        value={mapping.role}
+                        onValueChange={(role: User['role']) => handleUpdateOidcRoleMapping(index, { role })}
+                      >
+                        <SelectTrigger className="h-9 w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ROLE_LABELS) as User['role'][]).map(role => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveOidcRoleMapping(index)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" onClick={handleAddOidcRoleMapping}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Agregar mapeo
+                  </Button>
+                </div>
+
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertDescription>
+                    Registra esta URL de redirección en el proveedor: <code className="text-xs">{getRedirectUri()}</code>
+                  </AlertDescription>
+                </Alert>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           {/* Resetear Puntos */}
@@ -812,7 +1697,7 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
                     </p>
                     <p className="text-xs text-muted-foreground">
                       {resetType === 'partial' 
-                        ? 'Solo resetea los puntos recibidos. Los puntos dados por el usuario se mantienen.'
+                        ? 'Solo resetea los puntos recibidos. Los puntos dados por el usuario se mantienen y el historial queda registrado como ajuste.'
                         : 'Resetea puntos recibidos, devuelve 10 puntos para dar, y elimina todas las asignaciones del mes.'}
                     </p>
                   </div>
@@ -851,7 +1736,7 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-64 overflow-y-auto p-2 border rounded-lg">
                       {filteredUsers.map(user => {
                         const isSelected = selectedUsers.includes(user.id);
-                        const allocation = storage.getUserAllocation(user.id, getCurrentMonth());
+                        const { pointsReceived } = storage.getBalance(user.id);
                         
                         return (
                           <div
@@ -875,7 +1760,7 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
                                 <p className="text-xs text-muted-foreground truncate">{user.department}</p>
                               </div>
                               <Badge variant={isSelected ? "default" : "outline"} className="ml-2">
-                                {allocation?.pointsReceived || 0} pts
+                                {pointsReceived} pts
                               </Badge>
                             </div>
                           </div>
@@ -902,6 +1787,144 @@ export function AdminSettings({ onUpdate }: AdminSettingsProps) {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Conciliación */}
+          <TabsContent value="reconcile" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Conciliación de Saldos</CardTitle>
+                <CardDescription>
+                  Compara los saldos guardados con los calculados a partir de asignaciones y ajustes
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertDescription>
+                    El historial de asignaciones y ajustes es la fuente de verdad. Reparar actualiza los 
+                    puntos disponibles y recibidos guardados para que coincidan con él.
+                  </AlertDescription>
+                </Alert>
+
+                <Button onClick={handleAnalyzeLedger} variant="outline" className="w-full">
+                  <Scale className="w-4 h-4 mr-2" />
+                  Analizar Saldos
+                </Button>
+
+                {reconciliation && (
+                  reconciliation.length === 0 ? (
+                    <div className="p-8 text-center text-muted-foreground border rounded-lg">
+                      <CheckCircle2 className="w-12 h-12 mx-auto mb-2 text-success" />
+                      <p>Todos los saldos coinciden con el historial</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      <div className="border rounded-lg divide-y max-h-72 overflow-y-auto">
+                        {reconciliation.map(entry => (
+                          <div key={`${entry.userId}-${entry.month}`} className="p-3 flex items-center justify-between gap-4">
+                            <div className="min-w-0">
+                              <p className="font-medium text-sm truncate">{getUserName(entry.userId)}</p>
+                              <p className="text-xs text-muted-foreground">{entry.month}</p>
+                            </div>
+                            <div className="text-xs text-right space-y-1">
+                              <p>
+                                Disponibles: <span className="text-destructive">{entry.stored?.pointsRemaining ?? '—'}</span>
+                                {' → '}<span className="font-semibold">{entry.ledger.pointsRemaining}</span>
+                              </p>
+                              <p>
+                                Recibidos: <span className="text-destructive">{entry.stored?.pointsReceived ?? '—'}</span>
+                                {' → '}<span className="font-semibold">{entry.ledger.pointsReceived}</span>
+                              </p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+
+                      <Button
+                        onClick={handleRepairLedger}
+                        className="w-full"
+                        disabled={isRepairing}
+                      >
+                        <CheckCircle2 className="w-4 h-4 mr-2" />
+                        Reparar {reconciliation.length} Saldo(s)
+                      </Button>
+                    </div>
+                  )
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Roles */}
+          <TabsContent value="roles" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Roles Personalizados</CardTitle>
+                <CardDescription>
+                  Variantes del rol People &amp; Culture con permisos propios, por ejemplo un analista que ve reportes
+                  pero no puede resetear puntos. Se asignan desde el directorio de colaboradores.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertDescription>
+                    Sin rol personalizado, People &amp; Culture puede{' '}
+                    {ROLE_PERMISSIONS.people.map(p => PERMISSION_LABELS[p].toLowerCase()).join(', ')}.
+                    Los SuperAdmin siempre tienen todos los permisos.
+                  </AlertDescription>
+                </Alert>
+
+                {config.roles.map(role => (
+                  <div key={role.id} className="p-4 rounded-lg border-2 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium">{role.name}</p>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveRole(role)}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {ALL_PERMISSIONS.map(permission => (
+                        <div key={permission} className="flex items-center gap-2">
+                          <Switch
+                            id={`role-${role.id}-${permission}`}
+                            checked={role.permissions.includes(permission)}
+                            onCheckedChange={() => handleToggleRolePermission(role.id, permission)}
+                          />
+                          <Label htmlFor={`role-${role.id}-${permission}`} className="text-sm font-normal">
+                            {PERMISSION_LABELS[permission]}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                <Separator />
+
+                <div className="space-y-3">
+                  <Label>Agregar Nuevo Rol</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Ej: Analista de People"
+                      value={newRoleName}
+                      onChange={(e) => setNewRoleName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddRole()}
+                    />
+                    <Button onClick={handleAddRole}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Agregar
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
 
         <div className="flex justify-end gap-2 pt-4 border-t">
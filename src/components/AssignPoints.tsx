@@ -1,10 +1,13 @@
 import { useState, useEffect } from 'react';
 import { User, PointAssignment } from '../types';
-import { storage, getCurrentMonth } from '../utils/storage';
+import { storage, TransferError } from '../utils/storage';
+import { notifyAssignment } from '../utils/notifications';
+import { isActiveUser } from '../utils/directory';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
+import { Switch } from './ui/switch';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Alert, AlertDescription } from './ui/alert';
@@ -37,6 +40,7 @@ export function AssignPoints({ currentUser, onClose, onSuccess }: AssignPointsPr
   const [points, setPoints] = useState(1);
   const [category, setCategory] = useState<string>('');
   const [message, setMessage] = useState('');
+  const [signed, setSigned] = useState(false);
   const [availablePoints, setAvailablePoints] = useState(0);
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -46,14 +50,26 @@ export function AssignPoints({ currentUser, onClose, onSuccess }: AssignPointsPr
   const systemConfig = storage.getSystemConfig();
   const enabledCategories = systemConfig.categories.filter(cat => cat.enabled);
 
+  // Only the 'senderChoice' policy lets the sender sign with their name
+  const canSign = systemConfig.anonymity.mode === 'senderChoice';
+  const isSigned = canSign && signed;
+  const recipientName = selectedUser?.name;
+  const privacyNotice = isSigned
+    ? `${recipientName} verá que viene de ti`
+    : systemConfig.anonymity.mode === 'anonymous'
+      ? `${recipientName} no sabrá quién lo envió, y People & Culture tampoco`
+      : `${recipientName} no sabrá quién lo envió; solo People & Culture puede verlo`;
+
+  const loadAvailablePoints = () => {
+    setAvailablePoints(storage.getBalance(currentUser.id).pointsRemaining);
+  };
+
   useEffect(() => {
     const allUsers = storage.getUsers();
-    const otherUsers = allUsers.filter(u => u.id !== currentUser.id);
+    const otherUsers = allUsers.filter(u => u.id !== currentUser.id && isActiveUser(u));
     setUsers(otherUsers);
 
-    const month = getCurrentMonth();
-    const allocation = storage.getUserAllocation(currentUser.id, month);
-    setAvailablePoints(allocation?.pointsRemaining || 0);
+    loadAvailablePoints();
   }, [currentUser.id]);
 
   const filteredUsers = users.filter(user =>
@@ -94,31 +110,30 @@ export function AssignPoints({ currentUser, onClose, onSuccess }: AssignPointsPr
 
     await new Promise(resolve => setTimeout(resolve, 800));
 
-    const month = getCurrentMonth();
-    
-    const assignment: PointAssignment = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      fromUserId: currentUser.id,
-      toUserId: selectedUser.id,
-      points,
-      category,
-      message: message.trim() || undefined,
-      timestamp: Date.now(),
-      month,
-    };
-
-    storage.addAssignment(assignment);
-
-    const senderAllocation = storage.getUserAllocation(currentUser.id, month);
-    if (senderAllocation) {
-      senderAllocation.pointsRemaining -= points;
-      storage.updateAllocation(senderAllocation);
-    }
-
-    const receiverAllocation = storage.getUserAllocation(selectedUser.id, month);
-    if (receiverAllocation) {
-      receiverAllocation.pointsReceived += points;
-      storage.updateAllocation(receiverAllocation);
+    let assignment: PointAssignment;
+    try {
+      assignment = await storage.transferPoints({
+        fromUserId: currentUser.id,
+        toUserId: selectedUser.id,
+        points,
+        category,
+        message: message.trim() || undefined,
+        signed: isSigned,
+        expectedRemaining: availablePoints,
+      });
+    } catch (error) {
+      if (error instanceof TransferError) {
+        toast.error('No se pudo enviar el reconocimiento', { description: error.message });
+        if (error.code !== 'invalid') {
+          loadAvailablePoints();
+          setShowConfirmation(false);
+        }
+      } else {
+        console.error('[AssignPoints] Error al asignar puntos:', error);
+        toast.error('No se pudo enviar el reconocimiento', { description: 'Intenta de nuevo más tarde.' });
+      }
+      setIsSubmitting(false);
+      return;
     }
 
     toast.success(
@@ -128,6 +143,13 @@ export function AssignPoints({ currentUser, onClose, onSuccess }: AssignPointsPr
         duration: 4000,
       }
     );
+
+    // Email delivery must never block or undo the recognition
+    notifyAssignment(assignment)
+      .then(result => {
+        result?.failed.forEach(f => console.error('[AssignPoints] No se pudo enviar el email a', f.to.join(', '), f.error));
+      })
+      .catch(error => console.error('[AssignPoints] Error al enviar notificaciones:', error));
     
     onSuccess();
   };
@@ -381,11 +403,25 @@ export function AssignPoints({ currentUser, onClose, onSuccess }: AssignPointsPr
                       </div>
                     </div>
 
+                    {canSign && (
+                      <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                        <div>
+                          <Label htmlFor="sign-recognition" className="text-sm sm:text-base">
+                            Firmar con mi nombre
+                          </Label>
+                          <p className="text-xs text-muted-foreground">
+                            {selectedUser.name} sabrá que el reconocimiento viene de ti
+                          </p>
+                        </div>
+                        <Switch id="sign-recognition" checked={signed} onCheckedChange={setSigned} />
+                      </div>
+                    )}
+
                     {/* Privacy Notice */}
                     <Alert className="border-primary/20 bg-primary/5">
                       <ShieldCheck className="h-4 w-4 text-primary flex-shrink-0" />
                       <AlertDescription className="ml-2 text-xs sm:text-sm">
-                        <span className="font-semibold">Anónimo:</span> {selectedUser.name} no sabrá quién lo envió
+                        <span className="font-semibold">{isSigned ? 'Firmado:' : 'Anónimo:'}</span> {privacyNotice}
                       </AlertDescription>
                     </Alert>
 
@@ -471,7 +507,7 @@ export function AssignPoints({ currentUser, onClose, onSuccess }: AssignPointsPr
                 <Alert className="border-primary/20 bg-primary/5">
                   <ShieldCheck className="h-4 w-4 text-primary flex-shrink-0" />
                   <AlertDescription className="ml-2 text-xs sm:text-sm">
-                    Este reconocimiento es anónimo. {selectedUser?.name} no sabrá que viene de ti.
+                    {isSigned ? 'Este reconocimiento lleva tu firma.' : 'Este reconocimiento es anónimo.'} {privacyNotice}.
                   </AlertDescription>
                 </Alert>
 
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { User } from '../types';
+import { createBootstrapAdmin } from '../utils/bootstrap';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { AlertCircle, Info, Lock, ShieldCheck } from 'lucide-react';
+import { motion } from 'motion/react';
+
+interface BootstrapAdminProps {
+  onCreated: (user: User, assertion: string) => void | Promise<void>;
+}
+
+export function BootstrapAdmin({ onCreated }: BootstrapAdminProps) {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [department, setDepartment] = useState('Administración');
+  const [setupToken, setSetupToken] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!name.trim()) {
+      setError('Ingresa el nombre del administrador');
+      return;
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      setError('Ingresa un correo válido');
+      return;
+    }
+    if (!setupToken.trim()) {
+      setError('Ingresa el token de configuración del servidor');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { admin, assertion } = await createBootstrapAdmin({ name, email, department, setupToken: setupToken.trim() });
+      await onCreated(admin, assertion);
+    } catch (err) {
+      console.error('[BootstrapAdmin] No se pudo crear el administrador:', err);
+      setError(err instanceof Error ? err.message : 'No se pudo crear el administrador');
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/10 via-background to-secondary/10 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Card className="w-full max-w-md shadow-xl border-2">
+          <CardHeader className="text-center space-y-6 pb-8">
+            <div className="flex justify-center">
+              <div className="bg-gradient-to-br from-amber-500 to-primary rounded-2xl p-4 shadow-lg">
+                <ShieldCheck className="w-12 h-12 text-white" />
+              </div>
+            </div>
+            <div>
+              <CardTitle className="text-2xl mb-2">Configuración Inicial</CardTitle>
+              <CardDescription>
+                Crea la cuenta del administrador del sistema para comenzar a usar PromiPoints
+              </CardDescription>
+            </div>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription className="ml-2">
+                El directorio está vacío. Después podrás configurar el correo, los dominios permitidos y cargar la
+                nómina desde la configuración del sistema.
+              </AlertDescription>
+            </Alert>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="bootstrap-name">Nombre</Label>
+                <Input
+                  id="bootstrap-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Nombre y apellido"
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="bootstrap-email">Correo</Label>
+                <Input
+                  id="bootstrap-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="admin@empresa.com"
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="bootstrap-department">Departamento</Label>
+                <Input
+                  id="bootstrap-department"
+                  value={department}
+                  onChange={(e) => setDepartment(e.target.value)}
+                  placeholder="Administración"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="bootstrap-token">Token de configuración</Label>
+                <Input
+                  id="bootstrap-token"
+                  type="password"
+                  autoComplete="off"
+                  value={setupToken}
+                  onChange={(e) => setSetupToken(e.target.value)}
+                  disabled={isLoading}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Lo define quien administra el servidor de la API (MOCK_SETUP_TOKEN).
+                </p>
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription className="ml-2">{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button type="submit" className="w-full h-12 shadow-md hover:shadow-lg transition-all" disabled={isLoading}>
+                <Lock className="w-5 h-5 mr-2" />
+                Crear Administrador
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import { Department, User } from '../types';
+import { storage } from '../utils/storage';
+import { DepartmentInput, saveDepartment, mergeDepartments, isActiveUser } from '../utils/directory';
+import { findDepartment, getDepartmentBranch, getDepartmentPath } from '../utils/departments';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Plus, Pencil, Merge } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface DepartmentManagementProps {
+  currentUser: User;
+  onUpdate?: () => void;
+}
+
+const EMPTY_FORM: DepartmentInput = { name: '', parentId: undefined, costCenter: '', headUserId: undefined };
+const NONE = 'none';
+
+export function DepartmentManagement({ currentUser, onUpdate }: DepartmentManagementProps) {
+  const [departments, setDepartments] = useState<Department[]>(() => storage.getSystemConfig().departments);
+  const [users, setUsers] = useState(() => storage.getUsers());
+  // null: closed, undefined department: creating a new one
+  const [editing, setEditing] = useState<{ department?: Department } | null>(null);
+  const [form, setForm] = useState<DepartmentInput>(EMPTY_FORM);
+  const [formError, setFormError] = useState('');
+  const [merging, setMerging] = useState<Department | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const rows = departments
+    .map(d => ({
+      department: d,
+      path: getDepartmentPath(departments, d),
+      head: users.find(u => u.id === d.headUserId),
+      userCount: users.filter(u => isActiveUser(u) && findDepartment([d], u.department)).length,
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  // A department cannot be nested under itself or one of its subdepartments
+  const parentOptions = rows.filter(
+    r => !editing?.department || !getDepartmentBranch(departments, editing.department.id).includes(r.department)
+  );
+  const headOptions = users.filter(isActiveUser).sort((a, b) => a.name.localeCompare(b.name));
+  const mergeTargets = rows.filter(r => r.department.id !== merging?.id);
+  const mergeCount = rows.find(r => r.department.id === merging?.id)?.userCount ?? 0;
+
+  const refresh = () => {
+    setDepartments(storage.getSystemConfig().departments);
+    setUsers(storage.getUsers());
+    onUpdate?.();
+  };
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setFormError('');
+    setEditing({});
+  };
+
+  const openEdit = (department: Department) => {
+    setForm({
+      name: department.name,
+      parentId: department.parentId,
+      costCenter: department.costCenter ?? '',
+      headUserId: department.headUserId,
+    });
+    setFormError('');
+    setEditing({ department });
+  };
+
+  const openMerge = (department: Department) => {
+    setMergeTargetId('');
+    setMerging(department);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const previous = editing?.department;
+    try {
+      const saved = await saveDepartment(form, currentUser, previous?.id);
+      toast.success(previous ? 'Departamento actualizado' : 'Departamento agregado', {
+        description:
+          previous && previous.name !== saved.name
+            ? `Los colaboradores de ${previous.name} ahora están en ${saved.name}.`
+            : undefined,
+      });
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'No se pudo guardar el departamento');
+      return;
+    }
+    setEditing(null);
+    refresh();
+  };
+
+  const handleMerge = async () => {
+    if (!merging) return;
+    const target = departments.find(d => d.id === mergeTargetId);
+    try {
+      const moved = await mergeDepartments(merging.id, mergeTargetId, currentUser);
+      toast.success('Departamentos fusionados', {
+        description: `${moved} ${moved === 1 ? 'colaborador pasó' : 'colaboradores pasaron'} a ${target?.name}.`,
+      });
+    } catch (error) {
+      console.error('[DepartmentManagement] Error al fusionar departamentos:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudieron fusionar los departamentos');
+      return;
+    }
+    setMerging(null);
+    refresh();
+  };
+
+  return (
+    <Card className="border-2">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between gap-4">
+          <div>
+            <CardTitle>Catálogo de Departamentos</CardTitle>
+            <CardDescription>
+              Los colaboradores, filtros y reportes usan estos departamentos. Fusiona los duplicados para unificar
+              sus analíticas.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} size="sm" className="self-start">
+            <Plus className="w-4 h-4 mr-2" />
+            Nuevo Departamento
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Departamento</TableHead>
+                <TableHead>Centro de costos</TableHead>
+                <TableHead>Responsable</TableHead>
+                <TableHead className="text-center">Colaboradores</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ department, path, head, userCount }) => (
+                <TableRow key={department.id}>
+                  <TableCell className="font-medium">{path}</TableCell>
+                  <TableCell className="text-muted-foreground">{department.costCenter || '—'}</TableCell>
+                  <TableCell>{head?.name || <span className="text-muted-foreground">—</span>}</TableCell>
+                  <TableCell className="text-center">{userCount}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(department)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openMerge(department)}
+                      disabled={departments.length < 2}
+                    >
+                      <Merge className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    Aún no hay departamentos
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{editing?.department ? 'Editar Departamento' : 'Nuevo Departamento'}</DialogTitle>
+              <DialogDescription>
+                {editing?.department
+                  ? 'Cambiar el nombre lo actualiza para todos sus colaboradores, presupuestos y dominios.'
+                  : 'Quedará disponible para asignarlo a los colaboradores.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="department-name">Nombre</Label>
+              <Input
+                id="department-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Ventas"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Departamento superior</Label>
+              <Select
+                value={form.parentId || NONE}
+                onValueChange={(value) => setForm({ ...form, parentId: value === NONE ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Ninguno</SelectItem>
+                  {parentOptions.map(({ department, path }) => (
+                    <SelectItem key={department.id} value={department.id}>{path}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="department-cost-center">Centro de costos</Label>
+              <Input
+                id="department-cost-center"
+                value={form.costCenter ?? ''}
+                onChange={(e) => setForm({ ...form, costCenter: e.target.value })}
+                placeholder="CC-1200"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Responsable</Label>
+              <Select
+                value={form.headUserId || NONE}
+                onValueChange={(value) => setForm({ ...form, headUserId: value === NONE ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Sin responsable</SelectItem>
+                  {headOptions.map(u => (
+                    <SelectItem key={u.id} value={u.id}>
+                      {u.name} · {u.department}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancelar
+              </Button>
+              <Button type="submit">{editing?.department ? 'Guardar Cambios' : 'Agregar'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={merging !== null} onOpenChange={(open) => !open && setMerging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Fusionar {merging?.name}</DialogTitle>
+            <DialogDescription>
+              {mergeCount} {mergeCount === 1 ? 'colaborador pasará' : 'colaboradores pasarán'} al departamento que
+              elijas y {merging?.name} se eliminará del catálogo. Sus subdepartamentos, presupuesto y dominios
+              también se trasladan.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Fusionar con</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecciona un departamento" />
+              </SelectTrigger>
+              <SelectContent>
+                {mergeTargets.map(({ department, path }) => (
+                  <SelectItem key={department.id} value={department.id}>{path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setMerging(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleMerge} disabled={!mergeTargetId}>
+              Fusionar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+import { useMemo, useState } from 'react';
+import { EmailTemplate, EmailTemplates, PointAssignment } from '../types';
+import { storage } from '../utils/storage';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_LABELS,
+  EmailTemplateKind,
+  buildPlaceholderValues,
+  createSampleAssignment,
+  findUnknownPlaceholders,
+  getPlaceholdersFor,
+  renderEmailTemplate,
+} from '../utils/emailTemplates';
+import { getVisibleSender } from '../utils/anonymity';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Alert, AlertDescription } from './ui/alert';
+import { Badge } from './ui/badge';
+import { AlertTriangle, Eye, RotateCcw } from 'lucide-react';
+
+interface EmailTemplateEditorProps {
+  templates: EmailTemplates;
+  onChange: (templates: EmailTemplates) => void;
+  disabled?: boolean;
+}
+
+const SAMPLE_ID = 'sample';
+const MAX_PREVIEW_ASSIGNMENTS = 20;
+
+export function EmailTemplateEditor({ templates, onChange, disabled }: EmailTemplateEditorProps) {
+  const [kind, setKind] = useState<EmailTemplateKind>('employee');
+  const users = storage.getUsers();
+  const recentAssignments = useMemo(
+    () => [...storage.getAssignments()].sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_PREVIEW_ASSIGNMENTS),
+    []
+  );
+  const [previewId, setPreviewId] = useState(recentAssignments[0]?.id ?? SAMPLE_ID);
+
+  const template = templates[kind];
+  const unknownPlaceholders = findUnknownPlaceholders(kind, template);
+  const getUserName = (userId: string) => users.find(u => u.id === userId)?.name || 'Usuario desconocido';
+
+  const handleUpdate = (field: keyof EmailTemplate, value: string) => {
+    onChange({ ...templates, [kind]: { ...template, [field]: value } });
+  };
+
+  const handleRestoreDefault = () => {
+    onChange({ ...templates, [kind]: DEFAULT_EMAIL_TEMPLATES[kind] });
+  };
+
+  // Preview rendered from a real assignment, or from a sample one when there are none
+  const previewAssignment: PointAssignment =
+    recentAssignments.find(a => a.id === previewId) ?? createSampleAssignment();
+  const previewRecipient = users.find(u => u.id === previewAssignment.toUserId) ?? {
+    id: '',
+    name: 'María García',
+    email: 'maria.garcia@grupoprominente.com',
+    role: 'employee' as const,
+    department: 'Marketing',
+  };
+  // The preview hides the sender exactly as the sent email would
+  const { anonymity } = storage.getSystemConfig();
+  const preview = renderEmailTemplate(
+    kind,
+    template,
+    buildPlaceholderValues(
+      previewAssignment,
+      previewRecipient,
+      getVisibleSender(previewAssignment, 'people', anonymity, users),
+      getVisibleSender(previewAssignment, 'recipient', anonymity, users)
+    )
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="email-template-kind">Plantilla</Label>
+          <Select value={kind} onValueChange={(value) => setKind(value as EmailTemplateKind)}>
+            <SelectTrigger id="email-template-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EMAIL_TEMPLATE_LABELS) as EmailTemplateKind[]).map(k => (
+                <SelectItem key={k} value={k}>{EMAIL_TEMPLATE_LABELS[k]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email-template-preview">Vista previa con</Label>
+          <Select value={previewId} onValueChange={setPreviewId}>
+            <SelectTrigger id="email-template-preview">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SAMPLE_ID}>Reconocimiento de ejemplo</SelectItem>
+              {recentAssignments.map(a => (
+                <SelectItem key={a.id} value={a.id}>
+                  {getUserName(a.toUserId)} · {a.points} pts · {new Date(a.timestamp).toLocaleDateString('es-ES')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Marcadores disponibles</p>
+        <div className="flex flex-wrap gap-2">
+          {getPlaceholdersFor(kind).map(p => (
+            <Badge key={p.key} variant="secondary" className="font-mono" title={p.description}>
+              {`{${p.key}}`}
+            </Badge>
+          ))}
+        </div>
+        {kind === 'employee' && (
+          <p className="text-xs text-muted-foreground">
+            Este email no puede incluir datos de quien envía los puntos para mantener el anonimato; {'{firma}'} solo
+            muestra su nombre cuando firmó el reconocimiento.
+          </p>
+        )}
+      </div>
+
+      {unknownPlaceholders.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Marcadores no reconocidos en esta plantilla: <strong>{unknownPlaceholders.join(', ')}</strong>.
+            Corrígelos antes de guardar.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="email-template-subject">Asunto</Label>
+        <Input
+          id="email-template-subject"
+          value={template.subject}
+          onChange={(e) => handleUpdate('subject', e.target.value)}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="email-template-html">Cuerpo HTML</Label>
+        <Textarea
+          id="email-template-html"
+          value={template.html}
+          onChange={(e) => handleUpdate('html', e.target.value)}
+          rows={8}
+          className="font-mono text-xs"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="email-template-text">Cuerpo de texto plano</Label>
+        <Textarea
+          id="email-template-text"
+          value={template.text}
+          onChange={(e) => handleUpdate('text', e.target.value)}
+          rows={6}
+          className="font-mono text-xs"
+          disabled={disabled}
+        />
+      </div>
+
+      <Button variant="outline" size="sm" onClick={handleRestoreDefault} disabled={disabled}>
+        <RotateCcw className="w-4 h-4 mr-2" />
+        Restaurar plantilla predeterminada
+      </Button>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <Eye className="w-4 h-4" />
+          Vista Previa
+        </p>
+        <div className="border rounded-lg overflow-hidden">
+          <div className="p-3 bg-accent/30 border-b text-sm">
+            <span className="text-muted-foreground">Asunto: </span>
+            <span className="font-medium">{preview.subject}</span>
+          </div>
+          {/* Sandboxed so the template cannot run scripts or reach the app */}
+          <iframe
+            title="Vista previa HTML"
+            sandbox=""
+            srcDoc={preview.html}
+            className="w-full h-64 bg-white"
+          />
+          <pre className="p-3 border-t text-xs whitespace-pre-wrap font-mono bg-muted/30">{preview.text}</pre>
+        </div>
+      </div>
+    </div>
+  );
+}
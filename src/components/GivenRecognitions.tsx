@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { User, PointAssignment } from '../types';
+import { storage, getCurrentMonth } from '../utils/storage';
+import { isActiveUser } from '../utils/directory';
+import { departmentKey } from '../utils/departments';
+import { getTrailingMonths } from '../utils/periods';
+import { isSenderVisible } from '../utils/anonymity';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { RECENT_MONTHS, ALL, usePagination, MonthFilter, PaginationControls } from './RecognitionListControls';
+import { Send, Lock } from 'lucide-react';
+
+interface GivenRecognitionsProps {
+  user: User;
+  // Every recognition the user has given
+  given: PointAssignment[];
+  // Given in fully anonymous recognitions, which keep no sender and cannot be listed
+  anonymousPoints: number;
+}
+
+const MAX_FORGOTTEN = 8;
+
+export function GivenRecognitions({ user, given, anonymousPoints }: GivenRecognitionsProps) {
+  const [filterMonth, setFilterMonth] = useState(ALL);
+
+  const users = storage.getUsers();
+  const { anonymity } = storage.getSystemConfig();
+  const sorted = [...given].sort((a, b) => b.timestamp - a.timestamp);
+  const months = Array.from(new Set(sorted.map(a => a.month)));
+
+  const filtered = sorted.filter(a => filterMonth === ALL || a.month === filterMonth);
+  const { page, pageCount, pageItems, setPage } = usePagination(filtered, [filterMonth]);
+
+  const totalGiven = given.reduce((sum, a) => sum + a.points, 0) + anonymousPoints;
+  const colleaguesRecognized = new Set(given.map(a => a.toUserId)).size;
+
+  // Teammates from the same department nobody should forget
+  const recentMonths = getTrailingMonths(getCurrentMonth(), RECENT_MONTHS);
+  const recentlyRecognized = new Set(given.filter(a => recentMonths.includes(a.month)).map(a => a.toUserId));
+  const forgotten = users.filter(
+    u =>
+      u.id !== user.id &&
+      isActiveUser(u) &&
+      !recentlyRecognized.has(u.id) &&
+      departmentKey(u.department) === departmentKey(user.department)
+  );
+
+  return (
+    <Card className="border-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <Send className="w-5 h-5 text-primary" />
+          Reconocimientos enviados
+        </CardTitle>
+        <CardDescription className="text-sm flex items-center gap-1">
+          <Lock className="w-3 h-3" />
+          Solo tú puedes ver esta lista
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 grid-cols-2 sm:grid-cols-3">
+          <div className="bg-muted/30 rounded-lg p-3 border">
+            <p className="text-xs text-muted-foreground">Puntos otorgados</p>
+            <p className="text-2xl text-primary">{totalGiven}</p>
+          </div>
+          <div className="bg-muted/30 rounded-lg p-3 border">
+            <p className="text-xs text-muted-foreground">Reconocimientos</p>
+            <p className="text-2xl">{given.length}</p>
+          </div>
+          <div className="bg-muted/30 rounded-lg p-3 border col-span-2 sm:col-span-1">
+            <p className="text-xs text-muted-foreground">Compañeros reconocidos</p>
+            <p className="text-2xl">{colleaguesRecognized}</p>
+          </div>
+        </div>
+
+        {anonymousPoints > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Incluye {anonymousPoints} puntos de reconocimientos totalmente anónimos, que no aparecen en esta lista.
+          </p>
+        )}
+
+        {forgotten.length > 0 && (
+          <div className="text-sm bg-primary/5 border border-primary/20 rounded-lg p-3">
+            <p className="mb-2">
+              De tu departamento, no has reconocido en los últimos {RECENT_MONTHS} meses a:
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {forgotten.slice(0, MAX_FORGOTTEN).map(u => (
+                <Badge key={u.id} variant="outline" className="text-xs">
+                  {u.name}
+                </Badge>
+              ))}
+              {forgotten.length > MAX_FORGOTTEN && (
+                <span className="text-xs text-muted-foreground">y {forgotten.length - MAX_FORGOTTEN} más</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <div className="flex justify-end">
+            <MonthFilter value={filterMonth} months={months} onChange={setFilterMonth} className="sm:w-56" />
+          </div>
+
+          <div className="space-y-3">
+            {pageItems.map(assignment => {
+              const recipient = users.find(u => u.id === assignment.toUserId);
+              return (
+                <div
+                  key={assignment.id}
+                  className="flex items-start justify-between gap-3 p-3 bg-muted/30 rounded-lg border"
+                >
+                  <div className="flex-1 space-y-2">
+                    <div>
+                      <p className="font-medium">{recipient?.name || 'Usuario eliminado'}</p>
+                      {recipient && <p className="text-xs text-muted-foreground">{recipient.department}</p>}
+                    </div>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant="secondary" className="text-xs">
+                        {assignment.category}
+                      </Badge>
+                      {isSenderVisible(assignment, 'recipient', anonymity) && (
+                        <Badge variant="outline" className="text-xs">
+                          Firmado
+                        </Badge>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(assignment.timestamp).toLocaleDateString('es-MX', {
+                          day: 'numeric',
+                          month: 'short',
+                          year: 'numeric',
+                        })}
+                      </span>
+                    </div>
+                    {assignment.message && (
+                      <p className="text-sm text-foreground italic">"{assignment.message}"</p>
+                    )}
+                  </div>
+                  <span className="text-2xl text-primary">{assignment.points}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <PaginationControls page={page} pageCount={pageCount} onPageChange={setPage} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
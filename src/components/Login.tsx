@@ -1,27 +1,94 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { User } from '../types';
-import { storage } from '../utils/storage';
+import { storage, getStorageBackend } from '../utils/storage';
+import { appConfig } from '../config';
+import { findLoginDomain, describeLoginDomains, normalizeDomain } from '../utils/domains';
+import { startOidcLogin, completeOidcLogin, hasOidcCallback, OidcError } from '../utils/oidc';
+import { requestLoginCode, verifyLoginCode, loadSignedInUser, LoginCodeError, LOGIN_CODE_LENGTH } from '../utils/auth';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Label } from './ui/label';
 import { Alert, AlertDescription } from './ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
-import { Mail, Award, Lock, AlertCircle, HelpCircle, Building2 } from 'lucide-react';
+import { Mail, Award, Lock, AlertCircle, HelpCircle, Building2, KeyRound, ArrowLeft, RotateCcw, Info, ShieldCheck } from 'lucide-react';
 import { motion } from 'motion/react';
 
 interface LoginProps {
-  onLogin: (user: User) => void;
+  onLogin: (user: User, assertion?: string | null) => void | Promise<void>;
+  notice?: string; // Motivo por el que se cerró la sesión anterior
 }
 
-export function Login({ onLogin }: LoginProps) {
+export function Login({ onLogin, notice }: LoginProps) {
   const [email, setEmail] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Second step: the email the one-time code was sent to
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [resendAt, setResendAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  // Return from the identity provider (OIDC redirect)
+  useEffect(() => {
+    if (!hasOidcCallback()) return;
+
+    const complete = async () => {
+      setIsLoading(true);
+      try {
+        const { user, assertion } = await completeOidcLogin(config.oidc);
+        await storage.ensureMonthlyAllocation(user.id);
+        await onLogin(user, assertion);
+      } catch (err) {
+        setError(describeError(err));
+      }
+      setIsLoading(false);
+    };
+
+    complete();
+  }, []);
+
+  useEffect(() => {
+    if (!pendingEmail) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [pendingEmail]);
   
   // Get login content from system config
   const config = storage.getSystemConfig();
   const { title, subtitle, description, helpEmail } = config.loginContent;
+  const allowedDomains = describeLoginDomains(config.loginDomains);
+
+  const describeError = (err: unknown) => {
+    if (err instanceof OidcError) {
+      return err.message;
+    }
+    if (err instanceof LoginCodeError) {
+      if (err.code === 'rate_limited' && err.retryAfter) {
+        return `${err.message} (${Math.ceil(err.retryAfter / 60)} min)`;
+      }
+      if (err.code === 'invalid' && err.attemptsLeft) {
+        return `${err.message}. Te quedan ${err.attemptsLeft} intento${err.attemptsLeft === 1 ? '' : 's'}.`;
+      }
+      return err.message;
+    }
+    console.error('[Login] Error de autenticación:', err);
+    return 'No se pudo contactar al servidor. Intenta de nuevo más tarde.';
+  };
+
+  const sendCode = async (address: string) => {
+    try {
+      const { resendAfter } = await requestLoginCode(address);
+      setPendingEmail(address);
+      setCode('');
+      setResendAt(resendAfter);
+      setNow(Date.now());
+    } catch (err) {
+      setError(describeError(err));
+    }
+    setIsLoading(false);
+  };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,19 +98,30 @@ export function Login({ onLogin }: LoginProps) {
     // Simular delay de autenticación
     await new Promise(resolve => setTimeout(resolve, 800));
 
+    // The API server keeps the directory and only sends codes to those who may log in
+    if (getStorageBackend() === 'http') {
+      await sendCode(email.trim().toLowerCase());
+      return;
+    }
+
     const users = storage.getUsers();
     const user = users.find(u => u.email.toLowerCase() === email.toLowerCase());
 
+    if (user && user.active === false) {
+      setError('Tu usuario está desactivado. Contacta a People & Culture para recuperar el acceso.');
+      setIsLoading(false);
+      return;
+    }
+
     // Allow superadmin to login without corporate email validation
     if (user && user.role === 'superadmin') {
-      storage.ensureMonthlyAllocation(user.id);
-      onLogin(user);
+      await sendCode(user.email);
       return;
     }
 
     // Regular users must use corporate email
-    if (!email.endsWith('@grupoprominente.com')) {
-      setError('Debes usar tu correo corporativo (@grupoprominente.com)');
+    if (!findLoginDomain(email, config.loginDomains)) {
+      setError(`Debes usar tu correo corporativo (${allowedDomains})`);
       setIsLoading(false);
       return;
     }
@@ -54,10 +132,64 @@ export function Login({ onLogin }: LoginProps) {
       return;
     }
 
-    storage.ensureMonthlyAllocation(user.id);
-    onLogin(user);
+    await sendCode(user.email);
   };
 
+  const handleOidcLogin = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      await startOidcLogin(config.oidc);
+    } catch (err) {
+      setError(describeError(err));
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingEmail || code.length !== LOGIN_CODE_LENGTH) return;
+
+    setError('');
+    setIsLoading(true);
+    let user: User | null;
+    let assertion: string;
+    try {
+      assertion = await verifyLoginCode(pendingEmail, code);
+      user = await loadSignedInUser(pendingEmail, assertion);
+    } catch (err) {
+      setError(describeError(err));
+      setCode('');
+      setIsLoading(false);
+      return;
+    }
+    if (!user) {
+      setError('Usuario no encontrado en la nómina o desactivado. Contacta a People & Culture para obtener acceso.');
+      setPendingEmail(null);
+      setIsLoading(false);
+      return;
+    }
+
+    await storage.ensureMonthlyAllocation(user.id);
+    await onLogin(user, assertion);
+    setIsLoading(false);
+  };
+
+  const handleResendCode = async () => {
+    if (!pendingEmail) return;
+    setError('');
+    setIsLoading(true);
+    await sendCode(pendingEmail);
+  };
+
+  const handleChangeEmail = () => {
+    setPendingEmail(null);
+    setCode('');
+    setError('');
+  };
+
+  const resendSeconds = Math.max(0, Math.ceil((resendAt - now) / 1000));
+
   const handleDemoLogin = async (userEmail: string) => {
     setEmail(userEmail);
     setError('');
@@ -67,10 +199,13 @@ export function Login({ onLogin }: LoginProps) {
     
     const users = storage.getUsers();
     const user = users.find(u => u.email === userEmail);
-    if (user) {
-      storage.ensureMonthlyAllocation(user.id);
-      onLogin(user);
+    if (user && user.active === false) {
+      setError('Tu usuario está desactivado. Contacta a People & Culture para recuperar el acceso.');
+    } else if (user) {
+      await storage.ensureMonthlyAllocation(user.id);
+      await onLogin(user);
     }
+    setIsLoading(false);
   };
 
   return (
@@ -105,147 +240,264 @@ export function Login({ onLogin }: LoginProps) {
             </CardHeader>
             
             <CardContent className="space-y-6">
-              <form onSubmit={handleLogin} className="space-y-4">
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <Label htmlFor="email">Correo Corporativo</Label>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <button type="button" className="text-muted-foreground hover:text-foreground transition-colors">
-                          <HelpCircle className="w-4 h-4" />
-                        </button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p className="max-w-xs">
-                          Usa tu correo corporativo de Grupo Prominente para acceder.
-                          Solo colaboradores registrados en nómina tienen acceso.
-                        </p>
-                      </TooltipContent>
-                    </Tooltip>
+              {notice && !pendingEmail && (
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertDescription className="ml-2">{notice}</AlertDescription>
+                </Alert>
+              )}
+
+              {config.oidc.enabled && !pendingEmail && (
+                <div className="space-y-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full h-12 border-2"
+                    onClick={handleOidcLogin}
+                    disabled={isLoading}
+                  >
+                    <ShieldCheck className="w-5 h-5 mr-2" />
+                    Continuar con {config.oidc.buttonLabel}
+                  </Button>
+                  <div className="relative">
+                    <div className="absolute inset-0 flex items-center">
+                      <span className="w-full border-t border-border" />
+                    </div>
+                    <div className="relative flex justify-center text-sm">
+                      <span className="bg-card px-3 text-muted-foreground">
+                        o con un código por correo
+                      </span>
+                    </div>
                   </div>
-                  
-                  <div className="relative group">
-                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground group-focus-within:text-primary transition-colors" />
-                    <Input
-                      id="email"
-                      type="email"
-                      placeholder="tu.nombre@grupoprominente.com"
-                      value={email}
-                      onChange={(e) => {
-                        setEmail(e.target.value);
+                </div>
+              )}
+
+              {pendingEmail ? (
+                <form onSubmit={handleVerifyCode} className="space-y-4">
+                  <div className="space-y-2 text-center">
+                    <Label htmlFor="login-code">Código de acceso</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Enviamos un código de {LOGIN_CODE_LENGTH} dígitos a <strong>{pendingEmail}</strong>.
+                      Vence en 10 minutos.
+                    </p>
+                  </div>
+
+                  <div className="flex justify-center">
+                    <InputOTP
+                      id="login-code"
+                      maxLength={LOGIN_CODE_LENGTH}
+                      value={code}
+                      onChange={(value) => {
+                        setCode(value.replace(/\D/g, ''));
                         setError('');
                       }}
-                      className="pl-10 h-12 border-2 focus:border-primary transition-all"
-                      required
                       disabled={isLoading}
-                      aria-describedby={error ? "email-error" : undefined}
-                    />
-                    <Lock className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      aria-describedby={error ? "code-error" : undefined}
+                      autoFocus
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: LOGIN_CODE_LENGTH }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} className="h-12 w-11 text-lg" />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
                   </div>
-                </div>
 
-                {error && (
-                  <motion.div
-                    initial={{ opacity: 0, height: 0 }}
-                    animate={{ opacity: 1, height: 'auto' }}
-                    exit={{ opacity: 0, height: 0 }}
-                  >
-                    <Alert variant="destructive" id="email-error">
-                      <AlertCircle className="h-4 w-4" />
-                      <AlertDescription className="ml-2">
-                        {error}
-                      </AlertDescription>
-                    </Alert>
-                  </motion.div>
-                )}
-
-                <Button 
-                  type="submit" 
-                  className="w-full h-12 shadow-md hover:shadow-lg transition-all"
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <>
-                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                      Iniciando sesión...
-                    </>
-                  ) : (
-                    <>
-                      <Mail className="w-5 h-5 mr-2" />
-                      Iniciar Sesión
-                    </>
+                  {error && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: 'auto' }}
+                      exit={{ opacity: 0, height: 0 }}
+                    >
+                      <Alert variant="destructive" id="code-error">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription className="ml-2">
+                          {error}
+                        </AlertDescription>
+                      </Alert>
+                    </motion.div>
                   )}
-                </Button>
-              </form>
-
-              <div className="space-y-4">
-                <div className="relative">
-                  <div className="absolute inset-0 flex items-center">
-                    <span className="w-full border-t border-border" />
-                  </div>
-                  <div className="relative flex justify-center text-sm">
-                    <span className="bg-card px-3 text-muted-foreground">
-                      Demo - Usuarios de prueba
-                    </span>
-                  </div>
-                </div>
 
-                <div className="grid gap-2">
                   <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => handleDemoLogin('admin@sistema.local')}
-                    className="w-full justify-start h-12 hover:bg-accent hover:border-amber-500/30 transition-all group"
-                    disabled={isLoading}
+                    type="submit"
+                    className="w-full h-12 shadow-md hover:shadow-lg transition-all"
+                    disabled={isLoading || code.length !== LOGIN_CODE_LENGTH}
                   >
-                    <div className="flex items-center gap-3 w-full">
-                      <div className="bg-amber-500/10 rounded-full p-2 group-hover:bg-amber-500/20 transition-colors">
-                        <Lock className="w-4 h-4 text-amber-500" />
-                      </div>
-                      <div className="text-left flex-1">
-                        <p className="font-medium">Admin Sistema</p>
-                        <p className="text-xs text-muted-foreground">SuperAdmin - Configuración Total</p>
-                      </div>
-                    </div>
+                    {isLoading ? (
+                      <>
+                        <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                        Verificando...
+                      </>
+                    ) : (
+                      <>
+                        <KeyRound className="w-5 h-5 mr-2" />
+                        Verificar Código
+                      </>
+                    )}
                   </Button>
-                  
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => handleDemoLogin('maria.garcia@grupoprominente.com')}
-                    className="w-full justify-start h-12 hover:bg-accent hover:border-primary/30 transition-all group"
-                    disabled={isLoading}
-                  >
-                    <div className="flex items-center gap-3 w-full">
-                      <div className="bg-primary/10 rounded-full p-2 group-hover:bg-primary/20 transition-colors">
-                        <Mail className="w-4 h-4 text-primary" />
-                      </div>
-                      <div className="text-left flex-1">
-                        <p className="font-medium">María García</p>
-                        <p className="text-xs text-muted-foreground">Colaborador - Desarrollo</p>
-                      </div>
+
+                  <div className="flex items-center justify-between text-sm">
+                    <Button type="button" variant="ghost" size="sm" onClick={handleChangeEmail} disabled={isLoading}>
+                      <ArrowLeft className="w-4 h-4 mr-1" />
+                      Cambiar correo
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleResendCode}
+                      disabled={isLoading || resendSeconds > 0}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      {resendSeconds > 0 ? `Reenviar código (${resendSeconds} s)` : 'Reenviar código'}
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <form onSubmit={handleLogin} className="space-y-4">
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="email">Correo Corporativo</Label>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <button type="button" className="text-muted-foreground hover:text-foreground transition-colors">
+                            <HelpCircle className="w-4 h-4" />
+                          </button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p className="max-w-xs">
+                            Usa tu correo corporativo ({allowedDomains}) para acceder.
+                            Solo colaboradores registrados en nómina tienen acceso.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
                     </div>
-                  </Button>
                   
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => handleDemoLogin('ana.rodriguez@grupoprominente.com')}
-                    className="w-full justify-start h-12 hover:bg-accent hover:border-secondary/30 transition-all group"
+                    <div className="relative group">
+                      <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground group-focus-within:text-primary transition-colors" />
+                      <Input
+                        id="email"
+                        type="email"
+                        placeholder={`tu.nombre@${normalizeDomain(config.loginDomains[0]?.domain || '')}`}
+                        value={email}
+                        onChange={(e) => {
+                          setEmail(e.target.value);
+                          setError('');
+                        }}
+                        className="pl-10 h-12 border-2 focus:border-primary transition-all"
+                        required
+                        disabled={isLoading}
+                        aria-describedby={error ? "email-error" : undefined}
+                      />
+                      <Lock className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    </div>
+                  </div>
+
+                  {error && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: 'auto' }}
+                      exit={{ opacity: 0, height: 0 }}
+                    >
+                      <Alert variant="destructive" id="email-error">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription className="ml-2">
+                          {error}
+                        </AlertDescription>
+                      </Alert>
+                    </motion.div>
+                  )}
+
+                  <Button 
+                    type="submit" 
+                    className="w-full h-12 shadow-md hover:shadow-lg transition-all"
                     disabled={isLoading}
                   >
-                    <div className="flex items-center gap-3 w-full">
-                      <div className="bg-secondary/10 rounded-full p-2 group-hover:bg-secondary/20 transition-colors">
-                        <Award className="w-4 h-4 text-secondary" />
+                    {isLoading ? (
+                      <>
+                        <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                        Enviando código...
+                      </>
+                    ) : (
+                      <>
+                        <Mail className="w-5 h-5 mr-2" />
+                        Enviar Código de Acceso
+                      </>
+                    )}
+                  </Button>
+                </form>
+              )}
+
+              {appConfig.mode === 'demo' && (
+                <div className="space-y-4">
+                  <div className="relative">
+                    <div className="absolute inset-0 flex items-center">
+                      <span className="w-full border-t border-border" />
+                    </div>
+                    <div className="relative flex justify-center text-sm">
+                      <span className="bg-card px-3 text-muted-foreground">
+                        Demo - Usuarios de prueba
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="grid gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => handleDemoLogin('admin@sistema.local')}
+                      className="w-full justify-start h-12 hover:bg-accent hover:border-amber-500/30 transition-all group"
+                      disabled={isLoading}
+                    >
+                      <div className="flex items-center gap-3 w-full">
+                        <div className="bg-amber-500/10 rounded-full p-2 group-hover:bg-amber-500/20 transition-colors">
+                          <Lock className="w-4 h-4 text-amber-500" />
+                        </div>
+                        <div className="text-left flex-1">
+                          <p className="font-medium">Admin Sistema</p>
+                          <p className="text-xs text-muted-foreground">SuperAdmin - Configuración Total</p>
+                        </div>
                       </div>
-                      <div className="text-left flex-1">
-                        <p className="font-medium">Ana Rodríguez</p>
-                        <p className="text-xs text-muted-foreground">People & Culture - Solo Reportes</p>
+                    </Button>
+                    
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => handleDemoLogin('maria.garcia@grupoprominente.com')}
+                      className="w-full justify-start h-12 hover:bg-accent hover:border-primary/30 transition-all group"
+                      disabled={isLoading}
+                    >
+                      <div className="flex items-center gap-3 w-full">
+                        <div className="bg-primary/10 rounded-full p-2 group-hover:bg-primary/20 transition-colors">
+                          <Mail className="w-4 h-4 text-primary" />
+                        </div>
+                        <div className="text-left flex-1">
+                          <p className="font-medium">María García</p>
+                          <p className="text-xs text-muted-foreground">Colaborador - Desarrollo</p>
+                        </div>
                       </div>
-                    </div>
-                  </Button>
+                    </Button>
+                    
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => handleDemoLogin('ana.rodriguez@grupoprominente.com')}
+                      className="w-full justify-start h-12 hover:bg-accent hover:border-secondary/30 transition-all group"
+                      disabled={isLoading}
+                    >
+                      <div className="flex items-center gap-3 w-full">
+                        <div className="bg-secondary/10 rounded-full p-2 group-hover:bg-secondary/20 transition-colors">
+                          <Award className="w-4 h-4 text-secondary" />
+                        </div>
+                        <div className="text-left flex-1">
+                          <p className="font-medium">Ana Rodríguez</p>
+                          <p className="text-xs text-muted-foreground">People & Culture - Solo Reportes</p>
+                        </div>
+                      </div>
+                    </Button>
+                  </div>
                 </div>
-              </div>
+              )}
 
               <div className="text-center text-xs text-muted-foreground pt-4 border-t">
                 <p>¿Necesitas ayuda? Contacta a 
@@ -3,17 +3,30 @@ import { Dialog, DialogContent } from './ui/dialog';
 import { Button } from './ui/button';
 import { Award, Gift, TrendingUp, CheckCircle2, ArrowRight, X } from 'lucide-react';
 import { storage } from '../utils/storage';
+import { applyBudgetPlaceholder } from '../utils/budget';
+import { applyRolloverPlaceholder } from '../utils/rollover';
+import { applyAnonymityPlaceholder } from '../utils/anonymity';
 
 interface OnboardingProps {
+  monthlyPoints: number;
   onComplete: () => void;
 }
 
-export function Onboarding({ onComplete }: OnboardingProps) {
+export function Onboarding({ monthlyPoints, onComplete }: OnboardingProps) {
   const [currentStep, setCurrentStep] = useState(0);
   
   // Get onboarding steps from system config
   const config = storage.getSystemConfig();
-  const steps = config.onboardingSteps || [];
+  const renderCopy = (text: string) =>
+    applyAnonymityPlaceholder(
+      applyRolloverPlaceholder(applyBudgetPlaceholder(text, monthlyPoints), config.rollover),
+      config.anonymity
+    );
+  const steps = (config.onboardingSteps || []).map(step => ({
+    title: renderCopy(step.title),
+    description: renderCopy(step.description),
+    details: renderCopy(step.details),
+  }));
   
   // If no steps configured, use defaults
   if (steps.length === 0) {
@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
-import { User, PointAssignment } from '../types';
+import { User, PointAssignment, Department, Permission } from '../types';
 import { storage, getCurrentMonth } from '../utils/storage';
+import { buildUserReport, buildCategoryTotals, buildDepartmentTotals, buildMonthlyTrend, selectReportUsers, summarizeReport, UserReportRow, CategoryTotal, ReportSummary, MonthlyTrendPoint } from '../utils/reports';
+import { hasReports } from '../utils/hierarchy';
+import { findDepartment, getDepartmentBranch, getDepartmentPath } from '../utils/departments';
+import { getVisibleSender, ANONYMOUS_SENDER } from '../utils/anonymity';
+import { ReportPeriod, monthPeriod, isInPeriod, getPeriodMonths, getPreviousPeriod, getTrailingMonths, describePeriod, formatShortMonth, getPeriodSlug, getAvailableMonths } from '../utils/periods';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -9,11 +14,15 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
-import { Award, Users, TrendingUp, Download, LogOut, BarChart3, Search, Filter, Mail, FileText, ChevronDown, ChevronUp } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as ChartTooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { Award, Users, TrendingUp, Download, LogOut, BarChart3, Search, Filter, Mail, FileText, ChevronDown, ChevronUp, Contact, Network, Building2, ArrowUpRight, ArrowDownRight, Minus } from 'lucide-react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as ChartTooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { DashboardSkeleton } from './SkeletonLoader';
 import { MobileNav } from './MobileNav';
 import { AdminSettings } from './AdminSettings';
+import { UserManagement } from './UserManagement';
+import { DepartmentManagement } from './DepartmentManagement';
+import { TeamView } from './TeamView';
+import { PeriodPicker } from './PeriodPicker';
 import { motion } from 'motion/react';
 import { toast } from 'sonner@2.0.3';
 
@@ -22,18 +31,59 @@ interface PeopleDashboardProps {
   onLogout: () => void;
 }
 
+// Any of these opens the settings dialog; each tab inside checks its own permission
+const SETTINGS_PERMISSIONS: Permission[] = ['editCategories', 'resetPoints', 'configureEmail', 'configureSystem'];
+
 const COLORS = ['#0052A3', '#FF6B35', '#28A745', '#FFC107', '#6C757D', '#17A2B8', '#E83E8C', '#6610F2'];
 
+const TREND_MONTHS = 12;
+
+const CHART_TOOLTIP_STYLE = {
+  backgroundColor: 'white',
+  border: '2px solid #e0e0e0',
+  borderRadius: '8px',
+};
+
+interface KpiDeltaProps {
+  current: number;
+  previous: number;
+  previousLabel: string;
+  unit?: string;
+  decimals?: number;
+}
+
+// Change of a KPI versus the previous period
+function KpiDelta({ current, previous, previousLabel, unit = '', decimals = 0 }: KpiDeltaProps) {
+  const delta = Number((current - previous).toFixed(decimals));
+  const Icon = delta > 0 ? ArrowUpRight : delta < 0 ? ArrowDownRight : Minus;
+  const color = delta > 0 ? 'text-success' : delta < 0 ? 'text-destructive' : 'text-muted-foreground';
+
+  return (
+    <p className={`text-xs mt-2 flex items-center gap-1 ${color}`}>
+      <Icon className="w-3 h-3" />
+      {delta > 0 ? '+' : ''}
+      {delta.toFixed(decimals)}
+      {unit}
+      <span className="text-muted-foreground">vs {previousLabel}</span>
+    </p>
+  );
+}
+
 export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
   const [users, setUsers] = useState<User[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
   const [assignments, setAssignments] = useState<PointAssignment[]>([]);
-  const [reportData, setReportData] = useState<any[]>([]);
-  const [categoryData, setCategoryData] = useState<any[]>([]);
+  const [reportData, setReportData] = useState<UserReportRow[]>([]);
+  const [categoryData, setCategoryData] = useState<CategoryTotal[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterDepartment, setFilterDepartment] = useState<string>('all');
   const [sortBy, setSortBy] = useState<'points' | 'name' | 'department'>('points');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [period, setPeriod] = useState<ReportPeriod>(() => monthPeriod(getCurrentMonth()));
+  const [availableMonths, setAvailableMonths] = useState<string[]>([getCurrentMonth()]);
+  const [previousSummary, setPreviousSummary] = useState<ReportSummary | null>(null);
+  const [trend, setTrend] = useState<MonthlyTrendPoint[]>([]);
 
   useEffect(() => {
     setTimeout(() => {
@@ -42,55 +92,45 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
     }, 800);
   }, []);
 
+  useEffect(() => {
+    if (!isLoading) loadData();
+  }, [period]);
+
   const loadData = () => {
     const allUsers = storage.getUsers();
     setUsers(allUsers);
+    const { departments: catalogue } = storage.getSystemConfig();
+    setDepartments(catalogue);
+    // A renamed department keeps its id; a merged one disappears from the filter
+    setFilterDepartment(current => (catalogue.some(d => d.id === current) ? current : 'all'));
 
-    const month = getCurrentMonth();
     const allAssignments = storage.getAssignments();
-    const currentMonthAssignments = allAssignments.filter(a => a.month === month);
-    setAssignments(currentMonthAssignments);
-
-    const report = allUsers.map(u => {
-      const received = currentMonthAssignments.filter(a => a.toUserId === u.id);
-      const totalPoints = received.reduce((sum, a) => sum + a.points, 0);
-      const allocation = storage.getUserAllocation(u.id, month);
-
-      const categoryBreakdown = received.reduce((acc, a) => {
-        acc[a.category] = (acc[a.category] || 0) + a.points;
-        return acc;
-      }, {} as Record<string, number>);
-
-      return {
-        userId: u.id,
-        name: u.name,
-        email: u.email,
-        department: u.department,
-        pointsReceived: totalPoints,
-        recognitionCount: received.length,
-        pointsGiven: allocation ? 10 - allocation.pointsRemaining : 0,
-        categoryBreakdown,
-      };
-    });
-
-    setReportData(report);
-
-    const categoryTotals = currentMonthAssignments.reduce((acc, a) => {
-      acc[a.category] = (acc[a.category] || 0) + a.points;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const categoryDataArray = Object.entries(categoryTotals).map(([name, value]) => ({
-      name,
-      value,
-    }));
-
-    setCategoryData(categoryDataArray);
+    setAvailableMonths(getAvailableMonths(allAssignments, getCurrentMonth()));
+    const periodAssignments = allAssignments.filter(a => isInPeriod(a, period));
+    setAssignments(periodAssignments);
+    const periodMonths = getPeriodMonths(period);
+    setReportData(buildUserReport(selectReportUsers(allUsers, periodAssignments), periodAssignments, periodMonths));
+    setCategoryData(buildCategoryTotals(periodAssignments));
+
+    const previous = getPreviousPeriod(period);
+    const previousAssignments = allAssignments.filter(a => isInPeriod(a, previous));
+    setPreviousSummary(summarizeReport(
+      buildUserReport(selectReportUsers(allUsers, previousAssignments), previousAssignments, getPeriodMonths(previous))
+    ));
+
+    // The trend ends with the selected period, never past the current month
+    const currentMonth = getCurrentMonth();
+    const lastMonth = periodMonths[periodMonths.length - 1];
+    setTrend(buildMonthlyTrend(
+      allUsers,
+      allAssignments,
+      getTrailingMonths(lastMonth < currentMonth ? lastMonth : currentMonth, TREND_MONTHS)
+    ));
   };
 
   const exportToCSV = () => {
-    const month = getCurrentMonth();
-    const headers = ['Nombre', 'Email', 'Departamento', 'Puntos Recibidos', 'Reconocimientos', 'Puntos Otorgados', 'Categorías'];
+    const slug = getPeriodSlug(period);
+    const headers = ['Nombre', 'Email', 'Departamento', 'Puntos Recibidos', 'Reconocimientos', 'Puntos Otorgados', 'Puntos Acumulados', 'Categorías'];
     const rows = filteredAndSortedData.map(r => [
       r.name,
       r.email,
@@ -98,6 +138,7 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
       r.pointsReceived,
       r.recognitionCount,
       r.pointsGiven,
+      r.pointsCarriedOver,
       Object.entries(r.categoryBreakdown).map(([cat, pts]) => `${cat}:${pts}`).join(';'),
     ]);
 
@@ -110,24 +151,25 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `promipoints-reporte-${month}.csv`;
+    a.download = `promipoints-reporte-${slug}.csv`;
     a.click();
     URL.revokeObjectURL(url);
     
     toast.success('Reporte exportado exitosamente', {
-      description: `Archivo: promipoints-reporte-${month}.csv`
+      description: `Archivo: promipoints-reporte-${slug}.csv`
     });
   };
 
   const exportDetailedReport = () => {
-    const month = getCurrentMonth();
+    const slug = getPeriodSlug(period);
     const headers = ['Fecha', 'Remitente', 'Destinatario', 'Departamento', 'Puntos', 'Categoría', 'Mensaje'];
+    const { anonymity } = storage.getSystemConfig();
     const rows = assignments.map(a => {
-      const from = users.find(u => u.id === a.fromUserId);
+      const from = getVisibleSender(a, 'people', anonymity, users);
       const to = users.find(u => u.id === a.toUserId);
       return [
         new Date(a.timestamp).toLocaleDateString('es-MX'),
-        from?.name || 'N/A',
+        from?.name || ANONYMOUS_SENDER,
         to?.name || 'N/A',
         to?.department || 'N/A',
         a.points,
@@ -145,22 +187,26 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `promipoints-detallado-${month}.csv`;
+    a.download = `promipoints-detallado-${slug}.csv`;
     a.click();
     URL.revokeObjectURL(url);
     
     toast.success('Reporte detallado exportado', {
-      description: `Archivo: promipoints-detallado-${month}.csv`
+      description: `Archivo: promipoints-detallado-${slug}.csv`
     });
   };
 
-  const departments = ['all', ...Array.from(new Set(users.map(u => u.department)))];
+  const departmentOptions = departments
+    .map(d => ({ id: d.id, label: getDepartmentPath(departments, d) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+  // Filtering by a department includes its subdepartments
+  const filterBranch = filterDepartment === 'all' ? [] : getDepartmentBranch(departments, filterDepartment);
 
   const filteredAndSortedData = reportData
     .filter(r => {
       const matchesSearch = r.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                            r.email.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesDepartment = filterDepartment === 'all' || r.department === filterDepartment;
+      const matchesDepartment = filterDepartment === 'all' || !!findDepartment(filterBranch, r.department);
       return matchesSearch && matchesDepartment;
     })
     .sort((a, b) => {
@@ -171,14 +217,27 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
       return sortOrder === 'asc' ? comparison : -comparison;
     });
 
-  const totalPointsCirculating = assignments.reduce((sum, a) => sum + a.points, 0);
-  const activeUsers = reportData.filter(r => r.pointsGiven > 0).length;
-  const avgPointsPerUser = reportData.length > 0 
-    ? (totalPointsCirculating / reportData.length).toFixed(1) 
-    : 0;
-  const participationRate = users.length > 0 
-    ? ((activeUsers / users.length) * 100).toFixed(0)
-    : 0;
+  const summary = summarizeReport(reportData);
+  const totalPointsCirculating = summary.pointsCirculating;
+  const totalPointsAllotted = reportData.reduce((sum, r) => sum + r.pointsAllotted + r.pointsCarriedOver, 0);
+  const previousLabel = describePeriod(getPreviousPeriod(period));
+
+  const trendCategories = Array.from(new Set(trend.flatMap(t => Object.keys(t.categories))));
+  const trendData = trend.map(t => ({
+    label: formatShortMonth(t.month),
+    points: t.pointsCirculating,
+    recognitions: t.recognitions,
+    participation: Number(t.participationRate.toFixed(0)),
+    ...t.categories,
+  }));
+
+  const periodLabel = describePeriod(period);
+
+  const permissions = storage.getUserPermissions(user);
+  const canViewReports = permissions.includes('viewReports');
+  const canManageUsers = permissions.includes('manageUsers');
+  const isManager = hasReports(users, user.id);
+  const defaultTab = canViewReports ? 'report' : canManageUsers ? 'directory' : 'team';
 
   const toggleSort = (field: 'points' | 'name' | 'department') => {
     if (sortBy === field) {
@@ -229,125 +288,193 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
             <DashboardSkeleton />
           ) : (
             <>
+              {canViewReports && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div>
+                    <h2 className="text-lg">Periodo del reporte</h2>
+                    <p className="text-sm text-muted-foreground">{periodLabel}</p>
+                  </div>
+                  <PeriodPicker value={period} months={availableMonths} onChange={setPeriod} />
+                </div>
+              )}
+
               {/* KPIs */}
-              <motion.div 
-                className="grid gap-4 md:grid-cols-4"
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-              >
-                <Card className="border-2 hover:shadow-lg transition-shadow">
-                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                    <CardTitle className="text-sm">Total Colaboradores</CardTitle>
-                    <Users className="h-5 w-5 text-primary" />
-                  </CardHeader>
-                  <CardContent>
-                    <motion.div 
-                      className="text-4xl"
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      transition={{ type: "spring" }}
-                    >
-                      {users.length}
-                    </motion.div>
-                    <p className="text-xs text-muted-foreground mt-1">en la organización</p>
-                  </CardContent>
-                </Card>
-
-                <Card className="border-2 hover:shadow-lg transition-shadow">
-                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                    <CardTitle className="text-sm">Tasa de Participación</CardTitle>
-                    <TrendingUp className="h-5 w-5 text-success" />
-                  </CardHeader>
-                  <CardContent>
-                    <motion.div 
-                      className="text-4xl text-success"
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      transition={{ type: "spring", delay: 0.1 }}
-                    >
-                      {participationRate}%
-                    </motion.div>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      {activeUsers} usuarios activos
-                    </p>
-                  </CardContent>
-                </Card>
-
-                <Card className="border-2 hover:shadow-lg transition-shadow">
-                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                    <CardTitle className="text-sm">Puntos en Circulación</CardTitle>
-                    <Award className="h-5 w-5 text-secondary" />
-                  </CardHeader>
-                  <CardContent>
-                    <motion.div 
-                      className="text-4xl text-secondary"
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      transition={{ type: "spring", delay: 0.2 }}
-                    >
-                      {totalPointsCirculating}
-                    </motion.div>
-                    <p className="text-xs text-muted-foreground mt-1">este mes</p>
-                  </CardContent>
-                </Card>
-
-                <Card className="border-2 hover:shadow-lg transition-shadow">
-                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                    <CardTitle className="text-sm">Promedio por Usuario</CardTitle>
-                    <BarChart3 className="h-5 w-5 text-[#FFC107]" />
-                  </CardHeader>
-                  <CardContent>
-                    <motion.div 
-                      className="text-4xl"
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      transition={{ type: "spring", delay: 0.3 }}
-                    >
-                      {avgPointsPerUser}
-                    </motion.div>
-                    <p className="text-xs text-muted-foreground mt-1">puntos recibidos</p>
-                  </CardContent>
-                </Card>
-              </motion.div>
+              {canViewReports && (
+                <motion.div 
+                  className="grid gap-4 md:grid-cols-4"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                >
+                  <Card className="border-2 hover:shadow-lg transition-shadow">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm">Total Colaboradores</CardTitle>
+                      <Users className="h-5 w-5 text-primary" />
+                    </CardHeader>
+                    <CardContent>
+                      <motion.div 
+                        className="text-4xl"
+                        initial={{ scale: 0 }}
+                        animate={{ scale: 1 }}
+                        transition={{ type: "spring" }}
+                      >
+                        {summary.collaborators}
+                      </motion.div>
+                      <p className="text-xs text-muted-foreground mt-1">en la organización</p>
+                      {previousSummary && (
+                        <KpiDelta
+                          current={summary.collaborators}
+                          previous={previousSummary.collaborators}
+                          previousLabel={previousLabel}
+                        />
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card className="border-2 hover:shadow-lg transition-shadow">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm">Tasa de Participación</CardTitle>
+                      <TrendingUp className="h-5 w-5 text-success" />
+                    </CardHeader>
+                    <CardContent>
+                      <motion.div 
+                        className="text-4xl text-success"
+                        initial={{ scale: 0 }}
+                        animate={{ scale: 1 }}
+                        transition={{ type: "spring", delay: 0.1 }}
+                      >
+                        {summary.participationRate.toFixed(0)}%
+                      </motion.div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {summary.activeUsers} usuarios activos
+                      </p>
+                      {previousSummary && (
+                        <KpiDelta
+                          current={Number(summary.participationRate.toFixed(0))}
+                          previous={Number(previousSummary.participationRate.toFixed(0))}
+                          previousLabel={previousLabel}
+                          unit=" pp"
+                        />
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card className="border-2 hover:shadow-lg transition-shadow">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm">Puntos en Circulación</CardTitle>
+                      <Award className="h-5 w-5 text-secondary" />
+                    </CardHeader>
+                    <CardContent>
+                      <motion.div 
+                        className="text-4xl text-secondary"
+                        initial={{ scale: 0 }}
+                        animate={{ scale: 1 }}
+                        transition={{ type: "spring", delay: 0.2 }}
+                      >
+                        {totalPointsCirculating}
+                      </motion.div>
+                      <p className="text-xs text-muted-foreground mt-1">en {periodLabel}</p>
+                      {previousSummary && (
+                        <KpiDelta
+                          current={totalPointsCirculating}
+                          previous={previousSummary.pointsCirculating}
+                          previousLabel={previousLabel}
+                        />
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card className="border-2 hover:shadow-lg transition-shadow">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm">Promedio por Usuario</CardTitle>
+                      <BarChart3 className="h-5 w-5 text-[#FFC107]" />
+                    </CardHeader>
+                    <CardContent>
+                      <motion.div 
+                        className="text-4xl"
+                        initial={{ scale: 0 }}
+                        animate={{ scale: 1 }}
+                        transition={{ type: "spring", delay: 0.3 }}
+                      >
+                        {summary.avgPointsPerUser.toFixed(1)}
+                      </motion.div>
+                      <p className="text-xs text-muted-foreground mt-1">puntos recibidos</p>
+                      {previousSummary && (
+                        <KpiDelta
+                          current={summary.avgPointsPerUser}
+                          previous={previousSummary.avgPointsPerUser}
+                          previousLabel={previousLabel}
+                          decimals={1}
+                        />
+                      )}
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              )}
 
               {/* Main Content */}
-              <Tabs defaultValue="report" className="space-y-6">
+              <Tabs defaultValue={defaultTab} className="space-y-6">
                 <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
                   <TabsList>
-                    <TabsTrigger value="report">
-                      <FileText className="w-4 h-4 mr-2" />
-                      Reporte
-                    </TabsTrigger>
-                    <TabsTrigger value="analytics">
-                      <BarChart3 className="w-4 h-4 mr-2" />
-                      Analíticas
-                    </TabsTrigger>
+                    {canViewReports && (
+                      <>
+                        <TabsTrigger value="report">
+                          <FileText className="w-4 h-4 mr-2" />
+                          Reporte
+                        </TabsTrigger>
+                        <TabsTrigger value="analytics">
+                          <BarChart3 className="w-4 h-4 mr-2" />
+                          Analíticas
+                        </TabsTrigger>
+                      </>
+                    )}
+                    {canManageUsers && (
+                      <>
+                        <TabsTrigger value="directory">
+                          <Contact className="w-4 h-4 mr-2" />
+                          Colaboradores
+                        </TabsTrigger>
+                        <TabsTrigger value="departments">
+                          <Building2 className="w-4 h-4 mr-2" />
+                          Departamentos
+                        </TabsTrigger>
+                      </>
+                    )}
+                    {isManager && (
+                      <TabsTrigger value="team">
+                        <Network className="w-4 h-4 mr-2" />
+                        Mi Equipo
+                      </TabsTrigger>
+                    )}
                   </TabsList>
                   
                   <div className="flex gap-2">
-                    {user.role === 'superadmin' && (
-                      <AdminSettings onUpdate={loadData} />
+                    {SETTINGS_PERMISSIONS.some(p => permissions.includes(p)) && (
+                      <AdminSettings user={user} onUpdate={loadData} />
                     )}
                     
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button onClick={exportToCSV} variant="outline" size="sm">
-                          <Download className="w-4 h-4 mr-2" />
-                          <span className="hidden sm:inline">Exportar</span>
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>Exportar reporte consolidado</TooltipContent>
-                    </Tooltip>
-                    
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button onClick={exportDetailedReport} variant="outline" size="sm">
-                          <Mail className="w-4 h-4 mr-2" />
-                          <span className="hidden sm:inline">Detallado</span>
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>Exportar reporte detallado</TooltipContent>
-                    </Tooltip>
+                    {permissions.includes('exportData') && (
+                      <>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button onClick={exportToCSV} variant="outline" size="sm">
+                              <Download className="w-4 h-4 mr-2" />
+                              <span className="hidden sm:inline">Exportar</span>
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Exportar reporte consolidado</TooltipContent>
+                        </Tooltip>
+                        
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button onClick={exportDetailedReport} variant="outline" size="sm">
+                              <Mail className="w-4 h-4 mr-2" />
+                              <span className="hidden sm:inline">Detallado</span>
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Exportar reporte detallado</TooltipContent>
+                        </Tooltip>
+                      </>
+                    )}
                   </div>
                 </div>
 
@@ -356,9 +483,9 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
                     <CardHeader>
                       <div className="flex flex-col sm:flex-row justify-between gap-4">
                         <div>
-                          <CardTitle>Reporte Mensual de PromiPoints</CardTitle>
+                          <CardTitle>Reporte de PromiPoints</CardTitle>
                           <CardDescription>
-                            Desglose completo por colaborador - {getCurrentMonth()}
+                            Desglose completo por colaborador - {periodLabel}
                           </CardDescription>
                         </div>
                       </div>
@@ -382,8 +509,8 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
                           </SelectTrigger>
                           <SelectContent>
                             <SelectItem value="all">Todos los departamentos</SelectItem>
-                            {departments.filter(d => d !== 'all').map(dept => (
-                              <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                            {departmentOptions.map(dept => (
+                              <SelectItem key={dept.id} value={dept.id}>{dept.label}</SelectItem>
                             ))}
                           </SelectContent>
                         </Select>
@@ -435,6 +562,7 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
                               </TableHead>
                               <TableHead className="text-center">Reconocimientos</TableHead>
                               <TableHead className="text-center">Puntos Dados</TableHead>
+                              <TableHead className="text-center">Acumulados</TableHead>
                               <TableHead>Categorías Principales</TableHead>
                             </TableRow>
                           </TableHeader>
@@ -466,10 +594,13 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
                                   </TableCell>
                                   <TableCell className="text-center font-medium">{row.recognitionCount}</TableCell>
                                   <TableCell className="text-center">
-                                    <span className={row.pointsGiven === 10 ? 'text-success font-semibold' : ''}>
-                                      {row.pointsGiven}/10
+                                    <span className={row.pointsGiven >= row.pointsAllotted + row.pointsCarriedOver ? 'text-success font-semibold' : ''}>
+                                      {row.pointsGiven}/{row.pointsAllotted + row.pointsCarriedOver}
                                     </span>
                                   </TableCell>
+                                  <TableCell className="text-center text-muted-foreground">
+                                    {row.pointsCarriedOver > 0 ? `+${row.pointsCarriedOver}` : '—'}
+                                  </TableCell>
                                   <TableCell>
                                     <div className="flex flex-wrap gap-1">
                                       {topCategories.length > 0 ? (
@@ -528,9 +659,12 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
                                 </div>
                                 <div className="text-center border-x">
                                   <p className="text-xs text-muted-foreground">Dados</p>
-                                  <p className={`text-lg font-semibold ${row.pointsGiven === 10 ? 'text-success' : ''}`}>
-                                    {row.pointsGiven}/10
+                                  <p className={`text-lg font-semibold ${row.pointsGiven >= row.pointsAllotted + row.pointsCarriedOver ? 'text-success' : ''}`}>
+                                    {row.pointsGiven}/{row.pointsAllotted + row.pointsCarriedOver}
                                   </p>
+                                  {row.pointsCarriedOver > 0 && (
+                                    <p className="text-xs text-muted-foreground">+{row.pointsCarriedOver} acumulados</p>
+                                  )}
                                 </div>
                                 <div className="text-center">
                                   <p className="text-xs text-muted-foreground">Categorías</p>
@@ -567,7 +701,7 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
                       <Card className="border-2">
                         <CardHeader>
                           <CardTitle>Top 10 Colaboradores</CardTitle>
-                          <CardDescription>Por puntos recibidos este mes</CardDescription>
+                          <CardDescription>Por puntos recibidos en {periodLabel}</CardDescription>
                         </CardHeader>
                         <CardContent>
                           <ResponsiveContainer width="100%" height={350}>
@@ -646,14 +780,7 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
                         </CardHeader>
                         <CardContent>
                           <ResponsiveContainer width="100%" height={350}>
-                            <BarChart 
-                              data={Object.entries(
-                                reportData.reduce((acc, r) => {
-                                  acc[r.department] = (acc[r.department] || 0) + r.pointsGiven;
-                                  return acc;
-                                }, {} as Record<string, number>)
-                              ).map(([department, points]) => ({ department, points }))}
-                            >
+                            <BarChart data={buildDepartmentTotals(reportData, departments)}>
                               <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
                               <XAxis dataKey="department" fontSize={12} />
                               <YAxis fontSize={12} />
@@ -679,7 +806,7 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
                       <Card className="border-2">
                         <CardHeader>
                           <CardTitle>Métricas de Engagement</CardTitle>
-                          <CardDescription>Resumen de actividad mensual</CardDescription>
+                          <CardDescription>Resumen de actividad del periodo</CardDescription>
                         </CardHeader>
                         <CardContent className="space-y-4">
                           <div className="grid grid-cols-2 gap-4">
@@ -721,8 +848,8 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
                             >
                               <p className="text-sm text-muted-foreground mb-1">Tasa de Uso</p>
                               <p className="text-3xl text-[#FFC107]">
-                                {users.length > 0
-                                  ? `${((totalPointsCirculating / (users.length * 10)) * 100).toFixed(0)}%`
+                                {totalPointsAllotted > 0
+                                  ? `${((totalPointsCirculating / totalPointsAllotted) * 100).toFixed(0)}%`
                                   : '0%'}
                               </p>
                             </motion.div>
@@ -731,6 +858,79 @@ export function PeopleDashboard({ user, onLogout }: PeopleDashboardProps) {
                       </Card>
                     </motion.div>
                   </div>
+
+                  <div className="grid gap-6 md:grid-cols-2">
+                    <Card className="border-2">
+                      <CardHeader>
+                        <CardTitle>Tendencia de Puntos</CardTitle>
+                        <CardDescription>Puntos y reconocimientos de los últimos {TREND_MONTHS} meses</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ResponsiveContainer width="100%" height={300}>
+                          <LineChart data={trendData}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                            <XAxis dataKey="label" fontSize={12} />
+                            <YAxis fontSize={12} />
+                            <ChartTooltip contentStyle={CHART_TOOLTIP_STYLE} />
+                            <Legend />
+                            <Line type="monotone" dataKey="points" name="Puntos" stroke="#FF6B35" strokeWidth={2} />
+                            <Line type="monotone" dataKey="recognitions" name="Reconocimientos" stroke="#0052A3" strokeWidth={2} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="border-2">
+                      <CardHeader>
+                        <CardTitle>Tendencia de Participación</CardTitle>
+                        <CardDescription>Porcentaje de colaboradores que otorgaron puntos cada mes</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ResponsiveContainer width="100%" height={300}>
+                          <LineChart data={trendData}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                            <XAxis dataKey="label" fontSize={12} />
+                            <YAxis fontSize={12} domain={[0, 100]} unit="%" />
+                            <ChartTooltip contentStyle={CHART_TOOLTIP_STYLE} />
+                            <Line type="monotone" dataKey="participation" name="Participación (%)" stroke="#28A745" strokeWidth={2} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="border-2 md:col-span-2">
+                      <CardHeader>
+                        <CardTitle>Volumen por Categoría</CardTitle>
+                        <CardDescription>Puntos otorgados por valor organizacional cada mes</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ResponsiveContainer width="100%" height={350}>
+                          <BarChart data={trendData}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                            <XAxis dataKey="label" fontSize={12} />
+                            <YAxis fontSize={12} />
+                            <ChartTooltip contentStyle={CHART_TOOLTIP_STYLE} />
+                            <Legend />
+                            {trendCategories.map((category, index) => (
+                              <Bar key={category} dataKey={category} stackId="categories" fill={COLORS[index % COLORS.length]} />
+                            ))}
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </CardContent>
+                    </Card>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="directory" className="space-y-4">
+                  <UserManagement currentUser={user} onUpdate={loadData} />
+                </TabsContent>
+
+                <TabsContent value="departments" className="space-y-4">
+                  <DepartmentManagement currentUser={user} onUpdate={loadData} />
+                </TabsContent>
+
+                <TabsContent value="team" className="space-y-4">
+                  <TeamView user={user} />
                 </TabsContent>
               </Tabs>
             </>
@@ -0,0 +1,102 @@
+import { ReportPeriod, PeriodKind, describePeriod, getQuarter, getToday, monthPeriod } from '../utils/periods';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { CalendarDays } from 'lucide-react';
+
+interface PeriodPickerProps {
+  value: ReportPeriod;
+  // Months with data, newest first
+  months: string[];
+  onChange: (period: ReportPeriod) => void;
+}
+
+const KIND_LABELS: Record<PeriodKind, string> = {
+  month: 'Mes',
+  quarter: 'Trimestre',
+  range: 'Rango de fechas',
+};
+
+export function PeriodPicker({ value, months, onChange }: PeriodPickerProps) {
+  const quarters = Array.from(new Set(months.map(getQuarter)));
+  const latestMonth = months[0];
+
+  const handleKindChange = (kind: PeriodKind) => {
+    if (kind === 'month') onChange(monthPeriod(latestMonth));
+    else if (kind === 'quarter') onChange({ kind, start: getQuarter(latestMonth) });
+    else onChange({ kind, start: `${latestMonth}-01`, end: getToday() });
+  };
+
+  // Keeps the range valid when one of its ends moves past the other
+  const handleRangeChange = (field: 'start' | 'end', day: string) => {
+    if (!day) return;
+    const start = field === 'start' ? day : value.start;
+    const end = field === 'end' ? day : value.end ?? value.start;
+    onChange({
+      kind: 'range',
+      start: start <= end ? start : end,
+      end: start <= end ? end : start,
+    });
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <Select value={value.kind} onValueChange={(kind) => handleKindChange(kind as PeriodKind)}>
+        <SelectTrigger className="sm:w-44">
+          <CalendarDays className="w-4 h-4 mr-2" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(KIND_LABELS) as PeriodKind[]).map(kind => (
+            <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.kind === 'month' && (
+        <Select value={value.start} onValueChange={(month) => onChange(monthPeriod(month))}>
+          <SelectTrigger className="sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {months.map(month => (
+              <SelectItem key={month} value={month}>{describePeriod(monthPeriod(month))}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {value.kind === 'quarter' && (
+        <Select value={value.start} onValueChange={(quarter) => onChange({ kind: 'quarter', start: quarter })}>
+          <SelectTrigger className="sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {quarters.map(quarter => (
+              <SelectItem key={quarter} value={quarter}>
+                {describePeriod({ kind: 'quarter', start: quarter })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {value.kind === 'range' && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            aria-label="Desde"
+            value={value.start}
+            onChange={(e) => handleRangeChange('start', e.target.value)}
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="date"
+            aria-label="Hasta"
+            value={value.end ?? value.start}
+            onChange={(e) => handleRangeChange('end', e.target.value)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { PointAssignment } from '../types';
+import { storage, getCurrentMonth } from '../utils/storage';
+import { getTrailingMonths } from '../utils/periods';
+import { getVisibleSender } from '../utils/anonymity';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { RECENT_MONTHS, ALL, usePagination, MonthFilter, PaginationControls } from './RecognitionListControls';
+import { History, Calendar } from 'lucide-react';
+import { RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Tooltip as ChartTooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface RecognitionHistoryProps {
+  // Every recognition the user has received
+  received: PointAssignment[];
+}
+
+// Share of the points of each category, so periods with different volumes compare by shape
+const categoryShares = (assignments: PointAssignment[], categories: string[]) => {
+  const total = assignments.reduce((sum, a) => sum + a.points, 0);
+  return categories.map(category => {
+    const points = assignments.filter(a => a.category === category).reduce((sum, a) => sum + a.points, 0);
+    return total > 0 ? Math.round((points / total) * 100) : 0;
+  });
+};
+
+export function RecognitionHistory({ received }: RecognitionHistoryProps) {
+  const [filterMonth, setFilterMonth] = useState(ALL);
+  const [filterCategory, setFilterCategory] = useState(ALL);
+
+  const sorted = [...received].sort((a, b) => b.timestamp - a.timestamp);
+  const months = Array.from(new Set(sorted.map(a => a.month)));
+  const { categories: categoryConfig, anonymity } = storage.getSystemConfig();
+  const users = storage.getUsers();
+  // Categories in the config order, then any that were renamed or removed since
+  const configCategories = categoryConfig.map(c => c.name);
+  const categories = [
+    ...configCategories,
+    ...Array.from(new Set(sorted.map(a => a.category))).filter(c => !configCategories.includes(c)),
+  ];
+
+  const filtered = sorted.filter(
+    a => (filterMonth === ALL || a.month === filterMonth) && (filterCategory === ALL || a.category === filterCategory)
+  );
+  const { page, pageCount, pageItems, setPage } = usePagination(filtered, [filterMonth, filterCategory]);
+
+  const recentMonths = getTrailingMonths(getCurrentMonth(), RECENT_MONTHS);
+  const recentShares = categoryShares(received.filter(a => recentMonths.includes(a.month)), categories);
+  const allShares = categoryShares(received, categories);
+  const radarData = categories.map((category, index) => ({
+    category,
+    recent: recentShares[index],
+    all: allShares[index],
+  }));
+
+  return (
+    <Card className="border-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <History className="w-5 h-5 text-primary" />
+          Tu Historial
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Todos los reconocimientos que has recibido y las categorías en las que más destacas
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <h4 className="text-sm sm:text-base mb-1">Tus fortalezas</h4>
+          <p className="text-xs text-muted-foreground mb-3">
+            Porcentaje de tus puntos por categoría: últimos {RECENT_MONTHS} meses frente a todo tu historial
+          </p>
+          <ResponsiveContainer width="100%" height={300}>
+            <RadarChart data={radarData} outerRadius="70%">
+              <PolarGrid />
+              <PolarAngleAxis dataKey="category" fontSize={11} tickFormatter={(name: string) => name.split(' ')[0]} />
+              <PolarRadiusAxis angle={90} domain={[0, 100]} tick={false} axisLine={false} />
+              <Radar name="Todo el historial" dataKey="all" stroke="#0052A3" fill="#0052A3" fillOpacity={0.2} />
+              <Radar name={`Últimos ${RECENT_MONTHS} meses`} dataKey="recent" stroke="#FF6B35" fill="#FF6B35" fillOpacity={0.3} />
+              <ChartTooltip formatter={(value: number) => `${value}%`} />
+              <Legend />
+            </RadarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <h4 className="flex items-center gap-2 text-sm sm:text-base">
+              <Calendar className="w-4 h-4 text-muted-foreground" />
+              Reconocimientos recibidos
+            </h4>
+            <div className="grid grid-cols-2 gap-2">
+              <MonthFilter value={filterMonth} months={months} onChange={setFilterMonth} />
+              <Select value={filterCategory} onValueChange={setFilterCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todas las categorías</SelectItem>
+                  {categories.map(category => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {pageItems.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No hay reconocimientos con estos filtros</p>
+          ) : (
+            <div className="space-y-3">
+              {pageItems.map(assignment => {
+                const sender = getVisibleSender(assignment, 'recipient', anonymity, users);
+                return (
+                  <div
+                    key={assignment.id}
+                    className="flex items-start justify-between gap-3 p-3 bg-muted/30 rounded-lg border"
+                  >
+                    <div className="flex-1 space-y-2">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Badge variant="secondary" className="text-xs">
+                          {assignment.category}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(assignment.timestamp).toLocaleDateString('es-MX', {
+                            day: 'numeric',
+                            month: 'short',
+                            year: 'numeric',
+                          })}
+                        </span>
+                        {sender && <span className="text-xs font-medium">De {sender.name}</span>}
+                      </div>
+                      {assignment.message && (
+                        <p className="text-sm text-foreground italic">"{assignment.message}"</p>
+                      )}
+                    </div>
+                    <span className="text-2xl text-secondary">+{assignment.points}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <PaginationControls page={page} pageCount={pageCount} onPageChange={setPage} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
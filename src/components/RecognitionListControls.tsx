@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { describePeriod, monthPeriod } from '../utils/periods';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Filter, ChevronLeft, ChevronRight } from 'lucide-react';
+
+// Shared by the lists of received and given recognitions in the user dashboard
+
+const PAGE_SIZE = 10;
+
+// Months that count as recent for the strengths chart and the teammates not recognized lately
+export const RECENT_MONTHS = 3;
+
+// Value of a filter that shows everything
+export const ALL = 'all';
+
+// Current page of `items`, back to the first one whenever any of `resetOn` changes (e.g. the filters)
+export function usePagination<T>(items: T[], resetOn: unknown[]) {
+  const [page, setPage] = useState(0);
+
+  useEffect(() => setPage(0), resetOn);
+
+  const pageCount = Math.max(1, Math.ceil(items.length / PAGE_SIZE));
+  const pageItems = items.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  return { page, pageCount, pageItems, setPage };
+}
+
+interface MonthFilterProps {
+  value: string;
+  // Months with recognitions, newest first
+  months: string[];
+  onChange: (month: string) => void;
+  className?: string;
+}
+
+export function MonthFilter({ value, months, onChange, className }: MonthFilterProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={className}>
+        <Filter className="w-4 h-4 mr-2" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>Todos los meses</SelectItem>
+        {months.map(month => (
+          <SelectItem key={month} value={month}>{describePeriod(monthPeriod(month))}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface PaginationControlsProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+// Hidden while everything fits in one page
+export function PaginationControls({ page, pageCount, onPageChange }: PaginationControlsProps) {
+  if (pageCount <= 1) return null;
+
+  return (
+    <div className="flex items-center justify-between pt-2">
+      <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page === 0}>
+        <ChevronLeft className="w-4 h-4 mr-1" />
+        Anterior
+      </Button>
+      <span className="text-sm text-muted-foreground">
+        Página {page + 1} de {pageCount}
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPageChange(page + 1)}
+        disabled={page >= pageCount - 1}
+      >
+        Siguiente
+        <ChevronRight className="w-4 h-4 ml-1" />
+      </Button>
+    </div>
+  );
+}
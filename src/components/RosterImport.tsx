@@ -0,0 +1,307 @@
+import { useState, useMemo } from 'react';
+import { User } from '../types';
+import {
+  RosterSheet,
+  RosterField,
+  ColumnMapping,
+  ROSTER_FIELD_LABELS,
+  REQUIRED_ROSTER_FIELDS,
+  readRosterFile,
+  guessColumnMapping,
+  buildRosterPreview,
+  applyRosterImport,
+} from '../utils/rosterImport';
+import { ROLE_LABELS } from '../utils/directory';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Upload, FileSpreadsheet, AlertTriangle, Info } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface RosterImportProps {
+  currentUser: User;
+  onImported: () => void;
+}
+
+const NO_COLUMN = 'none';
+const PREVIEW_LIMIT = 200;
+
+const STATUS_LABELS = {
+  create: 'Nuevo',
+  update: 'Actualizar',
+  unchanged: 'Sin cambios',
+  error: 'Error',
+};
+
+export function RosterImport({ currentUser, onImported }: RosterImportProps) {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<RosterSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({
+    name: null,
+    email: null,
+    department: null,
+    role: null,
+    manager: null,
+  });
+  const [deactivateMissing, setDeactivateMissing] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+
+  const missingFields = REQUIRED_ROSTER_FIELDS.filter(field => mapping[field] === null);
+
+  const preview = useMemo(
+    () => (sheet && missingFields.length === 0 ? buildRosterPreview(sheet, mapping, currentUser, deactivateMissing) : null),
+    [sheet, mapping, deactivateMissing, currentUser]
+  );
+
+  const counts = preview
+    ? {
+        create: preview.rows.filter(r => r.status === 'create').length,
+        update: preview.rows.filter(r => r.status === 'update').length,
+        unchanged: preview.rows.filter(r => r.status === 'unchanged').length,
+        error: preview.rows.filter(r => r.status === 'error').length,
+      }
+    : null;
+  const hasChanges = !!counts && counts.create + counts.update + preview!.toDeactivate.length > 0;
+
+  const reset = () => {
+    setFileName('');
+    setSheet(null);
+    setDeactivateMissing(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const parsed = await readRosterFile(file);
+      if (parsed.rows.length === 0) {
+        toast.error('El archivo no contiene filas de datos');
+      } else {
+        setSheet(parsed);
+        setFileName(file.name);
+        setMapping(guessColumnMapping(parsed.headers));
+      }
+    } catch (error) {
+      console.error('[RosterImport] Error al leer el archivo:', error);
+      toast.error('No se pudo leer el archivo', { description: 'Usa un archivo CSV o Excel (.xlsx).' });
+    }
+    setIsReading(false);
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    let result;
+    try {
+      result = await applyRosterImport(preview, currentUser);
+    } catch (error) {
+      console.error('[RosterImport] Error al importar la nómina:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo importar la nómina');
+      return;
+    }
+    toast.success('Nómina importada', {
+      description: `${result.created} nuevos, ${result.updated} actualizados, ${result.deactivated} desactivados` +
+        (result.skipped > 0 ? `, ${result.skipped} filas con errores omitidas` : ''),
+    });
+    reset();
+    setOpen(false);
+    onImported();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="self-start">
+          <Upload className="w-4 h-4 mr-2" />
+          Importar Nómina
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            Importar Nómina
+          </DialogTitle>
+          <DialogDescription>
+            Carga el archivo CSV o Excel de nómina para agregar y actualizar colaboradores. Los correos existentes se
+            actualizan; los nuevos se agregan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="roster-file">Archivo</Label>
+            <Input
+              id="roster-file"
+              type="file"
+              accept=".csv,.xlsx,.xls,text/csv"
+              onChange={handleFileChange}
+              disabled={isReading}
+            />
+            {fileName && sheet && (
+              <p className="text-xs text-muted-foreground">
+                {fileName}: {sheet.rows.length} filas
+              </p>
+            )}
+          </div>
+
+          {sheet && (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {(Object.keys(ROSTER_FIELD_LABELS) as RosterField[]).map(field => (
+                  <div key={field} className="space-y-1">
+                    <Label>
+                      {ROSTER_FIELD_LABELS[field]}
+                      {REQUIRED_ROSTER_FIELDS.includes(field) && <span className="text-destructive"> *</span>}
+                    </Label>
+                    <Select
+                      value={mapping[field] === null ? NO_COLUMN : String(mapping[field])}
+                      onValueChange={(value) =>
+                        setMapping({ ...mapping, [field]: value === NO_COLUMN ? null : Number(value) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>— Sin columna —</SelectItem>
+                        {sheet.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Columna ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Sin columna de departamento se usa el departamento por defecto del dominio. Sin columna de rol se
+                conserva el rol actual (nuevos: {ROLE_LABELS.employee}).
+              </p>
+
+              <div className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <Label htmlFor="deactivate-missing">Desactivar a quienes no estén en el archivo</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Para sincronizar con la nómina mensual. Nunca se desactivan SuperAdmins ni tu propio usuario.
+                  </p>
+                </div>
+                <Switch id="deactivate-missing" checked={deactivateMissing} onCheckedChange={setDeactivateMissing} />
+              </div>
+
+              {missingFields.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    Selecciona la columna de: {missingFields.map(f => ROSTER_FIELD_LABELS[f]).join(', ')}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {preview && counts && (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="secondary">{counts.create} nuevos</Badge>
+                    <Badge variant="secondary">{counts.update} actualizados</Badge>
+                    <Badge variant="outline">{counts.unchanged} sin cambios</Badge>
+                    {counts.error > 0 && <Badge variant="destructive">{counts.error} con errores</Badge>}
+                    {preview.toDeactivate.length > 0 && (
+                      <Badge variant="destructive">{preview.toDeactivate.length} a desactivar</Badge>
+                    )}
+                  </div>
+
+                  {counts.error > 0 && (
+                    <Alert>
+                      <Info className="h-4 w-4" />
+                      <AlertDescription>
+                        Las filas con errores se omiten al importar. Corrige el archivo y vuelve a cargarlo para
+                        incluirlas.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="rounded-lg border max-h-80 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-16">Línea</TableHead>
+                          <TableHead>Colaborador</TableHead>
+                          <TableHead>Departamento / Rol</TableHead>
+                          <TableHead>Resultado</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.rows
+                          .filter(r => r.status !== 'unchanged')
+                          .slice(0, PREVIEW_LIMIT)
+                          .map(row => (
+                            <TableRow key={row.line}>
+                              <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                              <TableCell>
+                                <p className="font-medium">{row.user?.name || '—'}</p>
+                                <p className="text-xs text-muted-foreground">{row.email || 'Sin correo'}</p>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {row.user ? `${row.user.department} · ${ROLE_LABELS[row.user.role]}` : '—'}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant={row.status === 'error' ? 'destructive' : 'secondary'}>
+                                  {STATUS_LABELS[row.status]}
+                                </Badge>
+                                {row.errors.length > 0 && (
+                                  <p className="text-xs text-destructive mt-1">{row.errors.join('. ')}</p>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        {preview.toDeactivate.map(u => (
+                          <TableRow key={u.id}>
+                            <TableCell className="text-muted-foreground">—</TableCell>
+                            <TableCell>
+                              <p className="font-medium">{u.name}</p>
+                              <p className="text-xs text-muted-foreground">{u.email}</p>
+                            </TableCell>
+                            <TableCell className="text-sm">{u.department} · {ROLE_LABELS[u.role]}</TableCell>
+                            <TableCell>
+                              <Badge variant="destructive">Desactivar</Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleApply} disabled={!hasChanges}>
+            Importar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
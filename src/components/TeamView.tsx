@@ -0,0 +1,151 @@
+import { useState, useEffect, useMemo } from 'react';
+import { User } from '../types';
+import { storage, getCurrentMonth } from '../utils/storage';
+import { buildUserReport, UserReportRow } from '../utils/reports';
+import { getReportingTree, TeamMember } from '../utils/hierarchy';
+import { isActiveUser } from '../utils/directory';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Users } from 'lucide-react';
+
+interface TeamViewProps {
+  user: User;
+}
+
+interface TeamRow {
+  member: TeamMember;
+  report: UserReportRow;
+}
+
+export function TeamView({ user }: TeamViewProps) {
+  const [rows, setRows] = useState<TeamRow[]>([]);
+  const [directOnly, setDirectOnly] = useState(false);
+
+  useEffect(() => {
+    const month = getCurrentMonth();
+    const monthAssignments = storage.getAssignments().filter(a => a.month === month);
+
+    // Same rule as the monthly report: deactivated people only while they have activity in the month
+    const team = getReportingTree(storage.getUsers(), user.id).filter(
+      ({ user: u }) =>
+        isActiveUser(u) || monthAssignments.some(a => a.toUserId === u.id || a.fromUserId === u.id)
+    );
+    const report = buildUserReport(team.map(m => m.user), monthAssignments, [month]);
+    setRows(team.map((member, index) => ({ member, report: report[index] })));
+  }, [user.id]);
+
+  const visibleRows = useMemo(
+    () => (directOnly ? rows.filter(r => r.member.depth === 1) : rows),
+    [rows, directOnly]
+  );
+
+  const totals = visibleRows.reduce(
+    (acc, { report }) => ({
+      received: acc.received + report.pointsReceived,
+      recognitions: acc.recognitions + report.recognitionCount,
+      given: acc.given + report.pointsGiven,
+      available: acc.available + report.pointsAllotted + report.pointsCarriedOver,
+    }),
+    { received: 0, recognitions: 0, given: 0, available: 0 }
+  );
+
+  return (
+    <Card className="border-2">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+              <Users className="w-5 h-5" />
+              Mi Equipo
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Puntos recibidos y otorgados este mes por las personas que te reportan
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="team-direct-only" checked={directOnly} onCheckedChange={setDirectOnly} />
+            <Label htmlFor="team-direct-only" className="text-sm">
+              Solo reportes directos
+            </Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+          <div className="bg-muted/30 rounded-lg p-3 border">
+            <p className="text-xs text-muted-foreground">Personas</p>
+            <p className="text-2xl">{visibleRows.length}</p>
+          </div>
+          <div className="bg-muted/30 rounded-lg p-3 border">
+            <p className="text-xs text-muted-foreground">Puntos recibidos</p>
+            <p className="text-2xl text-secondary">{totals.received}</p>
+          </div>
+          <div className="bg-muted/30 rounded-lg p-3 border">
+            <p className="text-xs text-muted-foreground">Reconocimientos</p>
+            <p className="text-2xl">{totals.recognitions}</p>
+          </div>
+          <div className="bg-muted/30 rounded-lg p-3 border">
+            <p className="text-xs text-muted-foreground">Puntos otorgados</p>
+            <p className="text-2xl">
+              {totals.given}/{totals.available}
+            </p>
+          </div>
+        </div>
+
+        {visibleRows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nadie de tu equipo está activo este mes</p>
+        ) : (
+          <div className="rounded-lg border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Colaborador</TableHead>
+                  <TableHead>Reporta a</TableHead>
+                  <TableHead className="text-center">Recibidos</TableHead>
+                  <TableHead className="text-center">Reconocimientos</TableHead>
+                  <TableHead className="text-center">Otorgados</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map(({ member, report }) => (
+                  <TableRow key={member.user.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div>
+                          <p className="font-medium">{member.user.name}</p>
+                          <p className="text-xs text-muted-foreground">{member.user.department}</p>
+                        </div>
+                        {!isActiveUser(member.user) && (
+                          <Badge variant="outline" className="text-xs">
+                            Inactivo
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {member.depth === 1 ? (
+                        <Badge variant="secondary" className="text-xs">
+                          Directo
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">{member.manager.name}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center font-semibold text-secondary">{report.pointsReceived}</TableCell>
+                    <TableCell className="text-center">{report.recognitionCount}</TableCell>
+                    <TableCell className="text-center">
+                      {report.pointsGiven}/{report.pointsAllotted + report.pointsCarriedOver}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,19 @@
 import { useState, useEffect } from 'react';
 import { User, MonthlyAllocation, PointAssignment } from '../types';
 import { storage, getCurrentMonth } from '../utils/storage';
+import { getAllottedPoints, getCarriedOverPoints } from '../utils/ledger';
+import { hasReports } from '../utils/hierarchy';
+import { getVisibleSender } from '../utils/anonymity';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
-import { Award, Gift, TrendingUp, Calendar, LogOut, Info, Sparkles, Clock, User as UserIcon } from 'lucide-react';
+import { Award, Gift, TrendingUp, Calendar, LogOut, Info, Sparkles, Clock, History, User as UserIcon } from 'lucide-react';
 import { AssignPoints } from './AssignPoints';
+import { TeamView } from './TeamView';
+import { RecognitionHistory } from './RecognitionHistory';
+import { GivenRecognitions } from './GivenRecognitions';
 import { Onboarding } from './Onboarding';
 import { DashboardSkeleton } from './SkeletonLoader';
 import { MobileNav } from './MobileNav';
@@ -20,19 +26,29 @@ interface UserDashboardProps {
 
 export function UserDashboard({ user, onLogout }: UserDashboardProps) {
   const [allocation, setAllocation] = useState<MonthlyAllocation | null>(null);
+  // From the ledger, the same balance transferPoints checks against
+  const [pointsRemaining, setPointsRemaining] = useState(0);
   const [receivedPoints, setReceivedPoints] = useState<PointAssignment[]>([]);
+  const [allReceived, setAllReceived] = useState<PointAssignment[]>([]);
+  const [given, setGiven] = useState<PointAssignment[]>([]);
+  const [anonymousGiven, setAnonymousGiven] = useState(0);
   const [showAssignModal, setShowAssignModal] = useState(false);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isManager, setIsManager] = useState(false);
 
   const loadData = () => {
     const month = getCurrentMonth();
-    const alloc = storage.getUserAllocation(user.id, month);
-    setAllocation(alloc);
+    setAllocation(storage.getUserAllocation(user.id, month));
+    setPointsRemaining(storage.getBalance(user.id, month).pointsRemaining);
 
     const received = storage.getReceivedPoints(user.id);
     const currentMonthReceived = received.filter(a => a.month === month);
     setReceivedPoints(currentMonthReceived);
+    setAllReceived(received);
+    setGiven(storage.getGivenPoints(user.id));
+    setAnonymousGiven(storage.getAnonymousGivenTotal(user.id));
+    setIsManager(hasReports(storage.getUsers(), user.id));
   };
 
   useEffect(() => {
@@ -58,14 +74,24 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
   };
 
   const totalReceived = receivedPoints.reduce((sum, a) => sum + a.points, 0);
-  const pointsUsed = allocation ? 10 - allocation.pointsRemaining : 0;
-  const usagePercentage = (pointsUsed / 10) * 100;
+  const currentYear = getCurrentMonth().slice(0, 4);
+  const yearToDateReceived = allReceived
+    .filter(a => a.month.startsWith(currentYear))
+    .reduce((sum, a) => sum + a.points, 0);
+  const pointsAllotted = allocation ? getAllottedPoints(allocation) : storage.getMonthlyBudget(user.id);
+  const pointsCarriedOver = getCarriedOverPoints(allocation);
+  const startingPoints = pointsAllotted + pointsCarriedOver;
+  const pointsUsed = allocation ? startingPoints - pointsRemaining : 0;
+  const usagePercentage = startingPoints > 0 ? (pointsUsed / startingPoints) * 100 : 0;
 
   const categoryBreakdown = receivedPoints.reduce((acc, assignment) => {
     acc[assignment.category] = (acc[assignment.category] || 0) + assignment.points;
     return acc;
   }, {} as Record<string, number>);
 
+  const { anonymity } = storage.getSystemConfig();
+  const users = storage.getUsers();
+
   const now = new Date();
   const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
   const daysRemaining = Math.ceil((lastDay.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
@@ -146,11 +172,17 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
                         animate={{ scale: 1 }}
                         transition={{ type: "spring", delay: 0.3 }}
                       >
-                        {allocation?.pointsRemaining || 0}
+                        {pointsRemaining}
                       </motion.div>
-                      <span className="text-muted-foreground">/ 10</span>
+                      <span className="text-muted-foreground">/ {startingPoints}</span>
                     </div>
                     <Progress value={usagePercentage} className="mt-3 h-2" />
+                    {pointsCarriedOver > 0 && (
+                      <p className="text-xs text-muted-foreground mt-2 flex items-center gap-1">
+                        <History className="w-3 h-3" />
+                        {pointsAllotted} del mes + {pointsCarriedOver} acumulado{pointsCarriedOver > 1 ? 's' : ''}
+                      </p>
+                    )}
                     <p className="text-xs text-muted-foreground mt-2 flex items-center gap-1">
                       <Clock className="w-3 h-3" />
                       {daysRemaining} {daysRemaining === 1 ? 'día' : 'días'} restantes
@@ -183,6 +215,10 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
                       {totalReceived}
                     </motion.div>
                     <p className="text-xs text-muted-foreground mt-1">este mes</p>
+                    <p className="text-xs text-muted-foreground mt-2 flex items-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      {yearToDateReceived} en {currentYear}
+                    </p>
                     {totalReceived > 0 && (
                       <div className="flex items-center gap-1 mt-2 text-xs text-success">
                         <TrendingUp className="w-3 h-3" />
@@ -228,7 +264,7 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
                 transition={{ delay: 0.2 }}
               >
                 <Card className={`border-2 transition-all duration-300 ${
-                  (allocation?.pointsRemaining || 0) > 0 
+                  pointsRemaining > 0 
                     ? 'bg-gradient-to-br from-primary/5 to-secondary/5 hover:shadow-lg'
                     : 'bg-muted/30'
                 }`}>
@@ -238,9 +274,9 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
                       Reconoce a tus compañeros
                     </CardTitle>
                     <CardDescription className="text-sm">
-                      {(allocation?.pointsRemaining || 0) > 0 ? (
+                      {pointsRemaining > 0 ? (
                         <>
-                          Tienes <span className="text-primary font-semibold">{allocation?.pointsRemaining || 0} PromiPoints</span> disponibles
+                          Tienes <span className="text-primary font-semibold">{pointsRemaining} PromiPoints</span> disponibles
                         </>
                       ) : (
                         <>
@@ -250,7 +286,7 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-3">
-                    {(allocation?.pointsRemaining || 0) === 0 ? (
+                    {pointsRemaining === 0 ? (
                       <div className="flex items-center gap-2 text-sm text-muted-foreground bg-muted/50 p-3 rounded-lg">
                         <Calendar className="w-4 h-4 flex-shrink-0" />
                         <span>Tus puntos se renovarán el 1° del próximo mes</span>
@@ -263,7 +299,7 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
                     )}
                     <Button 
                       onClick={() => setShowAssignModal(true)}
-                      disabled={(allocation?.pointsRemaining || 0) === 0}
+                      disabled={pointsRemaining === 0}
                       className="w-full bg-secondary hover:bg-secondary/90 shadow-md hover:shadow-lg transition-all h-12 text-base"
                       size="lg"
                     >
@@ -274,6 +310,17 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
                 </Card>
               </motion.div>
 
+              {/* Team - only for people with reports */}
+              {isManager && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.25 }}
+                >
+                  <TeamView user={user} />
+                </motion.div>
+              )}
+
               {/* Received Points - Optimizado para móvil con cards */}
               <AnimatePresence>
                 {receivedPoints.length > 0 && (
@@ -325,45 +372,49 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
                             Historial reciente
                           </h4>
                           <div className="space-y-3">
-                            {receivedPoints.slice(0, 5).map((assignment, index) => (
-                              <motion.div
-                                key={assignment.id}
-                                initial={{ opacity: 0, x: -20 }}
-                                animate={{ opacity: 1, x: 0 }}
-                                transition={{ delay: 0.5 + index * 0.1 }}
-                                className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 p-3 sm:p-4 bg-muted/30 rounded-lg hover:bg-muted/50 transition-colors border"
-                              >
-                                <div className="flex-1 space-y-2">
-                                  <div className="flex items-center gap-2 flex-wrap">
-                                    <Badge variant="secondary" className="shadow-sm text-xs">
-                                      {assignment.category}
-                                    </Badge>
-                                    <span className="text-xs text-muted-foreground flex items-center gap-1">
-                                      <Calendar className="w-3 h-3" />
-                                      {new Date(assignment.timestamp).toLocaleDateString('es-MX', {
-                                        day: 'numeric',
-                                        month: 'short',
-                                      })}
-                                    </span>
+                            {receivedPoints.slice(0, 5).map((assignment, index) => {
+                              const sender = getVisibleSender(assignment, 'recipient', anonymity, users);
+                              return (
+                                <motion.div
+                                  key={assignment.id}
+                                  initial={{ opacity: 0, x: -20 }}
+                                  animate={{ opacity: 1, x: 0 }}
+                                  transition={{ delay: 0.5 + index * 0.1 }}
+                                  className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 p-3 sm:p-4 bg-muted/30 rounded-lg hover:bg-muted/50 transition-colors border"
+                                >
+                                  <div className="flex-1 space-y-2">
+                                    <div className="flex items-center gap-2 flex-wrap">
+                                      <Badge variant="secondary" className="shadow-sm text-xs">
+                                        {assignment.category}
+                                      </Badge>
+                                      <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                        <Calendar className="w-3 h-3" />
+                                        {new Date(assignment.timestamp).toLocaleDateString('es-MX', {
+                                          day: 'numeric',
+                                          month: 'short',
+                                        })}
+                                      </span>
+                                      {sender && <span className="text-xs font-medium">De {sender.name}</span>}
+                                    </div>
+                                    {assignment.message && (
+                                      <p className="text-sm mt-2 text-foreground italic bg-background/50 p-2 rounded line-clamp-2">
+                                        "{assignment.message}"
+                                      </p>
+                                    )}
+                                  </div>
+                                  <div className="text-left sm:text-right sm:ml-4">
+                                    <motion.div 
+                                      className="text-3xl text-secondary inline-block"
+                                      initial={{ scale: 0 }}
+                                      animate={{ scale: 1 }}
+                                      transition={{ delay: 0.6 + index * 0.1, type: "spring" }}
+                                    >
+                                      +{assignment.points}
+                                    </motion.div>
                                   </div>
-                                  {assignment.message && (
-                                    <p className="text-sm mt-2 text-foreground italic bg-background/50 p-2 rounded line-clamp-2">
-                                      "{assignment.message}"
-                                    </p>
-                                  )}
-                                </div>
-                                <div className="text-left sm:text-right sm:ml-4">
-                                  <motion.div 
-                                    className="text-3xl text-secondary inline-block"
-                                    initial={{ scale: 0 }}
-                                    animate={{ scale: 1 }}
-                                    transition={{ delay: 0.6 + index * 0.1, type: "spring" }}
-                                  >
-                                    +{assignment.points}
-                                  </motion.div>
-                                </div>
-                              </motion.div>
-                            ))}
+                                </motion.div>
+                              );
+                            })}
                           </div>
                         </div>
                       </CardContent>
@@ -372,8 +423,29 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
                 )}
               </AnimatePresence>
 
+              {/* Full history - every month, not only the current one */}
+              {allReceived.length > 0 && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.35 }}
+                >
+                  <RecognitionHistory received={allReceived} />
+                </motion.div>
+              )}
+
+              {(given.length > 0 || anonymousGiven > 0) && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.4 }}
+                >
+                  <GivenRecognitions user={user} given={given} anonymousPoints={anonymousGiven} />
+                </motion.div>
+              )}
+
               {/* Empty state */}
-              {receivedPoints.length === 0 && (
+              {allReceived.length === 0 && (
                 <motion.div
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -407,7 +479,7 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
         </main>
 
         {/* Floating Action Button para móvil */}
-        {!isLoading && (allocation?.pointsRemaining || 0) > 0 && (
+        {!isLoading && pointsRemaining > 0 && (
           <motion.div
             className="fixed bottom-6 right-4 z-30 lg:hidden"
             initial={{ scale: 0, opacity: 0 }}
@@ -432,7 +504,9 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
           />
         )}
 
-        {showOnboarding && <Onboarding onComplete={handleOnboardingComplete} />}
+        {showOnboarding && (
+          <Onboarding monthlyPoints={pointsAllotted} onComplete={handleOnboardingComplete} />
+        )}
       </div>
     </TooltipProvider>
   );
@@ -0,0 +1,368 @@
+import { useState } from 'react';
+import { User } from '../types';
+import { storage } from '../utils/storage';
+import { ROLE_LABELS, UserInput, createUser, updateUser, setUserActive, isActiveUser, getRoleLabel } from '../utils/directory';
+import { findDepartment, getDepartmentPath } from '../utils/departments';
+import { RosterImport } from './RosterImport';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Search, UserPlus, Pencil, UserX, UserCheck } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface UserManagementProps {
+  currentUser: User;
+  onUpdate?: () => void;
+}
+
+const EMPTY_FORM: UserInput = { name: '', email: '', department: '', role: 'employee' };
+const NO_MANAGER = 'none';
+// Select value of a custom role, which is assigned on top of the People & Culture role
+const CUSTOM_ROLE_PREFIX = 'custom:';
+
+export function UserManagement({ currentUser, onUpdate }: UserManagementProps) {
+  const [users, setUsers] = useState<User[]>(() => storage.getUsers());
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  // null: closed, undefined user: creating a new one
+  const [editing, setEditing] = useState<{ user?: User } | null>(null);
+  const [form, setForm] = useState<UserInput>(EMPTY_FORM);
+  const [formError, setFormError] = useState('');
+  const [deactivating, setDeactivating] = useState<User | null>(null);
+
+  const departments = storage.getSystemConfig().departments;
+  const departmentOptions = departments
+    .map(d => ({ name: d.name, label: getDepartmentPath(departments, d) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+  const managerOptions = users
+    .filter(u => isActiveUser(u) && u.id !== editing?.user?.id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const getManagerName = (user: User) => users.find(u => u.id === user.managerId)?.name;
+  const assignableRoles = (Object.keys(ROLE_LABELS) as User['role'][]).filter(
+    role => currentUser.role === 'superadmin' || role !== 'superadmin'
+  );
+  const ownPermissions = storage.getUserPermissions(currentUser);
+  const assignableCustomRoles = storage
+    .getSystemConfig()
+    .roles.filter(role => role.permissions.every(permission => ownPermissions.includes(permission)));
+  const roleValue = form.customRoleId ? `${CUSTOM_ROLE_PREFIX}${form.customRoleId}` : form.role;
+
+  const handleRoleChange = (value: string) => {
+    if (value.startsWith(CUSTOM_ROLE_PREFIX)) {
+      setForm({ ...form, role: 'people', customRoleId: value.slice(CUSTOM_ROLE_PREFIX.length) });
+    } else {
+      setForm({ ...form, role: value as User['role'], customRoleId: undefined });
+    }
+  };
+
+  const filteredUsers = users
+    .filter(u => showInactive || isActiveUser(u))
+    .filter(u => {
+      const term = searchTerm.toLowerCase();
+      return (
+        u.name.toLowerCase().includes(term) ||
+        u.email.toLowerCase().includes(term) ||
+        u.department.toLowerCase().includes(term)
+      );
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const refresh = () => {
+    setUsers(storage.getUsers());
+    onUpdate?.();
+  };
+
+  // Same rules as utils/directory: superadmins only by superadmins, and nobody with more permissions than you
+  const canEdit = (user: User) =>
+    (currentUser.role === 'superadmin' || user.role !== 'superadmin') &&
+    storage.getUserPermissions({ ...user, active: true }).every(permission => ownPermissions.includes(permission));
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setFormError('');
+    setEditing({});
+  };
+
+  const openEdit = (user: User) => {
+    setForm({
+      name: user.name,
+      email: user.email,
+      department: findDepartment(departments, user.department)?.name ?? user.department,
+      role: user.role,
+      managerId: user.managerId,
+      customRoleId: user.customRoleId,
+    });
+    setFormError('');
+    setEditing({ user });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (editing?.user) {
+        await updateUser(editing.user.id, form, currentUser);
+        toast.success('Colaborador actualizado');
+      } else {
+        await createUser(form, currentUser);
+        toast.success('Colaborador agregado', { description: 'Ya puede iniciar sesión con su correo.' });
+      }
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'No se pudo guardar el colaborador');
+      return;
+    }
+    setEditing(null);
+    refresh();
+  };
+
+  const handleSetActive = async (user: User, active: boolean) => {
+    try {
+      await setUserActive(user.id, active, currentUser);
+      toast.success(active ? 'Colaborador reactivado' : 'Colaborador desactivado', {
+        description: active ? undefined : 'Su historial de reconocimientos se conserva.',
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo actualizar el colaborador');
+    }
+    setDeactivating(null);
+    refresh();
+  };
+
+  return (
+    <Card className="border-2">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between gap-4">
+          <div>
+            <CardTitle>Directorio de Colaboradores</CardTitle>
+            <CardDescription>
+              Agrega colaboradores, edita sus datos y desactiva a quienes dejan la organización
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 self-start">
+            <RosterImport currentUser={currentUser} onImported={refresh} />
+            <Button onClick={openCreate} size="sm">
+              <UserPlus className="w-4 h-4 mr-2" />
+              Nuevo Colaborador
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-3 pt-4">
+          <div className="relative sm:col-span-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar por nombre, email o departamento..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <div className="flex items-center gap-2 justify-center sm:justify-end">
+            <Switch id="show-inactive" checked={showInactive} onCheckedChange={setShowInactive} />
+            <Label htmlFor="show-inactive" className="text-sm text-muted-foreground">
+              Mostrar inactivos
+            </Label>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Colaborador</TableHead>
+                <TableHead>Departamento</TableHead>
+                <TableHead>Rol</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredUsers.map(u => (
+                <TableRow key={u.id} className={isActiveUser(u) ? '' : 'opacity-60'}>
+                  <TableCell>
+                    <p className="font-medium">{u.name}</p>
+                    <p className="text-xs text-muted-foreground">{u.email}</p>
+                  </TableCell>
+                  <TableCell>
+                    <p>{u.department}</p>
+                    {getManagerName(u) && (
+                      <p className="text-xs text-muted-foreground">Jefe: {getManagerName(u)}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={u.role === 'employee' ? 'outline' : 'secondary'}>{getRoleLabel(u)}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {isActiveUser(u) ? (
+                      <Badge variant="outline" className="text-success border-success/30">Activo</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-muted-foreground">Inactivo</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(u)} disabled={!canEdit(u)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    {isActiveUser(u) ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDeactivating(u)}
+                        disabled={!canEdit(u) || u.id === currentUser.id}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <UserX className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button variant="ghost" size="sm" onClick={() => handleSetActive(u, true)} disabled={!canEdit(u)}>
+                        <UserCheck className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filteredUsers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    No se encontraron colaboradores
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{editing?.user ? 'Editar Colaborador' : 'Nuevo Colaborador'}</DialogTitle>
+              <DialogDescription>
+                {editing?.user
+                  ? 'Los cambios de rol cierran las sesiones abiertas del colaborador.'
+                  : 'El colaborador podrá iniciar sesión con su correo corporativo.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="user-name">Nombre</Label>
+              <Input
+                id="user-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Nombre y apellido"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user-email">Correo</Label>
+              <Input
+                id="user-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                placeholder="nombre@empresa.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Departamento</Label>
+              <Select value={form.department} onValueChange={(department) => setForm({ ...form, department })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecciona un departamento" />
+                </SelectTrigger>
+                <SelectContent>
+                  {departmentOptions.map(department => (
+                    <SelectItem key={department.name} value={department.name}>
+                      {department.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Jefe directo</Label>
+              <Select
+                value={form.managerId || NO_MANAGER}
+                onValueChange={(value) => setForm({ ...form, managerId: value === NO_MANAGER ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MANAGER}>Sin jefe directo</SelectItem>
+                  {managerOptions.map(manager => (
+                    <SelectItem key={manager.id} value={manager.id}>
+                      {manager.name} · {manager.department}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Rol</Label>
+              <Select value={roleValue} onValueChange={handleRoleChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableRoles.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                  {assignableCustomRoles.map(role => (
+                    <SelectItem key={role.id} value={`${CUSTOM_ROLE_PREFIX}${role.id}`}>
+                      {role.name} · {ROLE_LABELS.people}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancelar
+              </Button>
+              <Button type="submit">{editing?.user ? 'Guardar Cambios' : 'Agregar'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deactivating !== null} onOpenChange={(open) => !open && setDeactivating(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Desactivar a {deactivating?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No podrá iniciar sesión ni recibir nuevos reconocimientos. Sus reconocimientos anteriores se
+              conservan en los reportes y puedes reactivarlo en cualquier momento.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deactivating && handleSetActive(deactivating, false)}>
+              Desactivar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
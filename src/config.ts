@@ -0,0 +1,28 @@
+import type { StorageBackend } from './utils/adapters';
+
+export type AppMode = 'demo' | 'production';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['local', 'indexeddb', 'http'];
+const APP_MODES: AppMode[] = ['demo', 'production'];
+
+const parseStorageBackend = (value: string | undefined): StorageBackend => {
+  if (value && STORAGE_BACKENDS.includes(value as StorageBackend)) {
+    return value as StorageBackend;
+  }
+  return 'local';
+};
+
+// Without an explicit mode, the dev server runs the demo and builds are production
+const parseAppMode = (value: string | undefined): AppMode => {
+  if (value && APP_MODES.includes(value as AppMode)) {
+    return value as AppMode;
+  }
+  return import.meta.env.DEV ? 'demo' : 'production';
+};
+
+// Deployment configuration, resolved at build time from VITE_* variables (see README)
+export const appConfig = {
+  storageBackend: parseStorageBackend(import.meta.env.VITE_STORAGE_BACKEND),
+  apiUrl: import.meta.env.VITE_API_URL || '/api',
+  mode: parseAppMode(import.meta.env.VITE_APP_MODE),
+};
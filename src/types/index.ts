@@ -4,24 +4,71 @@ export interface User {
   email: string;
   role: 'employee' | 'people' | 'superadmin';
   department: string;
+  active?: boolean; // false: desactivado, no puede iniciar sesión (por defecto activo)
+  externalId?: string; // Identificador en el proveedor de identidad (aprovisionamiento SCIM)
+  managerId?: string; // Jefe directo (id de otro usuario); de aquí se deriva el árbol de reportes
+  customRoleId?: string; // Rol personalizado (solo con rol 'people'); sus permisos reemplazan a los del rol
+}
+
+export type Permission =
+  | 'viewReports'
+  | 'exportData'
+  | 'manageUsers'
+  | 'editCategories'
+  | 'resetPoints'
+  | 'configureEmail'
+  | 'configureSystem';
+
+// Variante del rol People & Culture con un conjunto propio de permisos (ej. analista de reportes)
+export interface CustomRole {
+  id: string;
+  name: string;
+  permissions: Permission[];
+}
+
+// Sesión iniciada. El token firmado del navegador solo vale mientras la sesión siga vigente en este registro
+export interface Session {
+  id: string;
+  userId: string;
+  role: User['role']; // Rol al iniciar sesión; si cambia en el directorio se exige iniciar sesión de nuevo
+  createdAt: number;
+  lastActiveAt: number;
+  expiresAt: number;
+  revokedAt?: number;
 }
 
 export interface MonthlyAllocation {
   userId: string;
   month: string;
+  pointsAllotted?: number; // Puntos asignados al inicio del mes (10 si no existe)
+  pointsCarriedOver?: number; // Puntos no usados trasladados del mes anterior
+  pointsGivenAnonymously?: number; // Puntos dados en reconocimientos totalmente anónimos, que no guardan remitente
   pointsRemaining: number;
   pointsReceived: number;
 }
 
 export interface PointAssignment {
   id: string;
-  fromUserId: string;
+  fromUserId: string; // Vacío si se envió con la política 'anonymous'
   toUserId: string;
   points: number;
   category: string;
   message?: string;
   timestamp: number;
   month: string;
+  signed?: boolean; // El remitente firmó con su nombre (solo con la política de anonimato 'senderChoice')
+}
+
+// Ajuste explícito del ledger: corrige el saldo sin alterar el historial de asignaciones
+export interface LedgerAdjustment {
+  id: string;
+  userId: string;
+  month: string;
+  kind: 'allowance' | 'received'; // 'allowance' afecta puntos por dar, 'received' puntos recibidos
+  amount: number;
+  reason: string;
+  createdBy: string;
+  timestamp: number;
 }
 
 export type Category = 
@@ -52,23 +99,97 @@ export interface OnboardingStep {
   details: string;
 }
 
+// Contenido de un email. Admite marcadores como {destinatario}, {puntos} o {categoria}
+export interface EmailTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplates {
+  employee: EmailTemplate; // Aviso al colaborador que recibe puntos (nunca revela quién los envió)
+  peopleDigest: EmailTemplate; // Resumen para el equipo de People
+}
+
 export interface EmailNotificationConfig {
   enabled: boolean;
   notifyEmployee: boolean; // Notificar al colaborador cuando recibe puntos
   notifyPeople: boolean; // Notificar al equipo de People
   peopleEmails: string[]; // Lista de emails del equipo de People
-  smtpProvider: 'gmail' | 'outlook' | 'sendgrid' | 'custom';
+  smtpProvider: 'gmail' | 'outlook' | 'sendgrid' | 'local' | 'custom'; // local: servidor de pruebas (Mailpit, MailHog)
   smtpHost: string;
   smtpPort: number;
   smtpUser: string;
-  smtpPassword: string;
+  smtpPasswordSet: boolean; // La contraseña se guarda aparte, cifrada o en el servidor (utils/secrets)
   fromEmail: string;
   fromName: string;
+  templates: EmailTemplates;
+}
+
+// Presupuesto mensual de puntos. Prioridad: usuario > departamento > rol > valor por defecto
+export interface BudgetConfig {
+  defaultPoints: number;
+  byRole: Partial<Record<User['role'], number>>;
+  byDepartment: Record<string, number>; // nombre del departamento -> puntos
+  byUser: Record<string, number>; // id del usuario -> puntos
+}
+
+// Traslado de puntos no usados al crear la asignación del mes siguiente
+export interface RolloverPolicy {
+  mode: 'none' | 'full' | 'capped' | 'percentage';
+  cap: number; // Máximo de puntos a trasladar (modo 'capped')
+  percentage: number; // Porcentaje de los puntos no usados (modo 'percentage')
+}
+
+// Quién puede ver al remitente de un reconocimiento. 'anonymous': nadie; 'people': solo People & Culture;
+// 'senderChoice': el remitente decide firmar con su nombre, si no firma solo lo ve People & Culture
+export interface AnonymityPolicy {
+  mode: 'anonymous' | 'people' | 'senderChoice';
+}
+
+// Dominio de correo habilitado para iniciar sesión
+export interface LoginDomain {
+  domain: string; // Sin @, ej. grupoprominente.com
+  defaultDepartment: string; // Departamento por defecto de los usuarios nuevos de este dominio
+}
+
+// Departamento del catálogo. Los usuarios guardan el nombre; renombrar o fusionar los actualiza a todos
+export interface Department {
+  id: string;
+  name: string;
+  parentId?: string; // Departamento al que pertenece (ej. Ventas dentro de Comercial)
+  costCenter?: string; // Centro de costos en nómina
+  headUserId?: string; // Responsable del departamento
+}
+
+// Asigna un rol a quienes traen este valor en el claim de roles del proveedor de identidad
+export interface OidcRoleMapping {
+  claimValue: string;
+  role: User['role'];
+}
+
+// Inicio de sesión con OpenID Connect (código de autorización + PKCE)
+export interface OidcConfig {
+  enabled: boolean;
+  issuer: string; // URL del emisor, ej. http://localhost:4000/oidc
+  clientId: string;
+  scopes: string; // Separados por espacios; siempre incluye openid
+  buttonLabel: string;
+  departmentClaim: string; // Claim con el departamento; vacío para no actualizarlo
+  roleClaim: string; // Claim con roles o grupos; vacío para no mapear roles
+  roleMapping: OidcRoleMapping[];
 }
 
 export interface SystemConfig {
   categories: CategoryConfig[];
   loginContent: LoginContent;
+  loginDomains: LoginDomain[];
+  departments: Department[];
+  roles: CustomRole[];
+  oidc: OidcConfig;
   onboardingSteps: OnboardingStep[];
   emailNotifications: EmailNotificationConfig;
+  budget: BudgetConfig;
+  rollover: RolloverPolicy;
+  anonymity: AnonymityPolicy;
 }
\ No newline at end of file
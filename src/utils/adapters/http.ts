@@ -0,0 +1,184 @@
+import { StorageAdapter, StorageChangeListener, TransactionConflictError } from './index';
+
+const MAX_TRANSACTION_ATTEMPTS = 3;
+// How often documents changed by other clients (e.g. SCIM provisioning) are pulled while the app is open
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+// Statuses the adapter handles itself instead of failing the request
+const HANDLED_STATUSES = [304, 401, 404, 412];
+
+// REST adapter: each storage key is a JSON document at `${baseUrl}/store/:key`.
+// Writes are conditional on the version (ETag) last read, so a stale tab cannot overwrite newer data.
+// Requests carry the login assertion from `getToken`; signed out, only the public documents can be read.
+export const createHttpAdapter = (baseUrl: string, getToken: () => string | null = () => null): StorageAdapter => {
+  const root = baseUrl.replace(/\/$/, '');
+  const url = (key: string) => `${root}/store/${encodeURIComponent(key)}`;
+  // Last version seen of each key; null when it did not exist
+  const versions = new Map<string, string | null>();
+  const listeners = new Set<StorageChangeListener>();
+
+  const authorization = (): Record<string, string> => {
+    const token = getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  };
+
+  const headers = (extra?: HeadersInit): HeadersInit => ({
+    'Content-Type': 'application/json',
+    ...authorization(),
+    ...extra,
+  });
+
+  // The server explains refused writes (e.g. a missing permission) in the body's `error`
+  const failure = async (response: Response, fallback: string) => {
+    const body = await response.json().catch(() => ({}));
+    return new Error(body.error || fallback);
+  };
+
+  const request = async (key: string, init?: RequestInit) => {
+    const response = await fetch(url(key), { ...init, headers: headers(init?.headers) });
+    const handled = HANDLED_STATUSES.includes(response.status) && !(response.status === 401 && init?.method);
+    if (!response.ok && !handled) {
+      throw await failure(response, `Storage request failed (${response.status}) for ${key}`);
+    }
+    return response;
+  };
+
+  // A document the caller may not read yet (signed out) counts as missing and is not refreshed
+  const read = async (key: string) => {
+    const response = await request(key);
+    if (response.status === 401) {
+      versions.delete(key);
+      return null;
+    }
+    const value = response.status === 404 ? null : await response.text();
+    versions.set(key, response.headers.get('ETag'));
+    return value;
+  };
+
+  // Re-reads the keys whose version changed on the server and hands them to the listeners
+  const refresh = async (keys: string[] = Array.from(versions.keys())) => {
+    await Promise.all(keys.map(async key => {
+      const known = versions.get(key);
+      const response = await request(key, known ? { headers: { 'If-None-Match': known } } : undefined);
+      if (response.status === 401) {
+        versions.delete(key);
+        listeners.forEach(listener => listener(key, null));
+        return;
+      }
+      const version = response.headers.get('ETag');
+      if (response.status === 304 || version === known) return;
+
+      const value = response.status === 404 ? null : await response.text();
+      versions.set(key, version);
+      listeners.forEach(listener => listener(key, value));
+    }));
+  };
+
+  const refreshQuietly = () => {
+    refresh().catch(error => console.error('[storage] Error al actualizar los datos del servidor:', error));
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') refreshQuietly();
+  };
+
+  let interval: ReturnType<typeof setInterval> | null = null;
+
+  const preconditions = (key: string): Record<string, string> => {
+    const version = versions.get(key);
+    return version ? { 'If-Match': version } : { 'If-None-Match': '*' };
+  };
+
+  // Writes to the same key go one after another, each conditional on the version the previous one left.
+  // A 412 means another client wrote first: the cache is reloaded with its value and the write is dropped.
+  // The assertion is taken when the write is made, so a write queued just before signing out still counts.
+  const queues = new Map<string, Promise<void>>();
+  const write = (key: string, init: RequestInit): Promise<void> => {
+    const auth = authorization();
+    const run = async () => {
+      const response = await request(key, { ...init, headers: { ...auth, ...preconditions(key) } });
+      if (response.status === 412) {
+        await refresh([key]);
+        throw new TransactionConflictError(`${key} cambió en el servidor; se recargó la última versión`);
+      }
+      versions.set(key, response.headers.get('ETag'));
+    };
+    const queued = (queues.get(key) ?? Promise.resolve()).catch(() => undefined).then(run);
+    queues.set(key, queued);
+    return queued;
+  };
+
+  return {
+    backend: 'http',
+
+    load: async (keys) => {
+      const values: Record<string, string | null> = {};
+      await Promise.all(keys.map(async key => {
+        values[key] = await read(key);
+      }));
+      return values;
+    },
+
+    save: async (key, value) => {
+      await write(key, { method: 'PUT', body: value });
+    },
+
+    remove: async (key) => {
+      await write(key, { method: 'DELETE' });
+    },
+
+    // Optimistic concurrency: the server rejects the commit if any key changed since it was read
+    transact: async (keys, update) => {
+      for (let attempt = 1; ; attempt++) {
+        const values: Record<string, string | null> = {};
+        await Promise.all(keys.map(async key => {
+          values[key] = await read(key);
+        }));
+        const expected = Object.fromEntries(keys.map(key => [key, versions.get(key) ?? null]));
+
+        const next = update(values);
+        const writes: Record<string, unknown> = {};
+        Object.entries(next).forEach(([key, value]) => {
+          writes[key] = JSON.parse(value);
+        });
+
+        const response = await fetch(`${root}/transactions`, {
+          method: 'POST',
+          headers: headers(),
+          body: JSON.stringify({ expected, writes }),
+        });
+
+        if (response.status === 409) {
+          if (attempt < MAX_TRANSACTION_ATTEMPTS) continue;
+          throw new TransactionConflictError();
+        }
+        if (!response.ok) {
+          throw await failure(response, `Storage transaction failed (${response.status})`);
+        }
+        const committed: { versions?: Record<string, string | null> } = await response.json();
+        Object.entries(committed.versions || {}).forEach(([key, version]) => versions.set(key, version));
+        return next;
+      }
+    },
+
+    // Polls for changes while someone listens, and right away when the tab comes back into view
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (!interval) {
+        interval = setInterval(refreshQuietly, REFRESH_INTERVAL_MS);
+        window.addEventListener('focus', refreshQuietly);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+      }
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && interval) {
+          clearInterval(interval);
+          interval = null;
+          window.removeEventListener('focus', refreshQuietly);
+          document.removeEventListener('visibilitychange', handleVisibilityChange);
+        }
+      };
+    },
+  };
+};
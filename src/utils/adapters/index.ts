@@ -0,0 +1,49 @@
+import { localStorageAdapter } from './localStorage';
+import { createIndexedDBAdapter } from './indexedDB';
+import { createHttpAdapter } from './http';
+
+export type StorageBackend = 'local' | 'indexeddb' | 'http';
+
+export type StorageChangeListener = (key: string, value: string | null) => void;
+
+// Computes the new values of a transaction from the latest stored ones. Throwing aborts it.
+export type TransactionUpdate = (values: Record<string, string | null>) => Record<string, string>;
+
+// Persistence backend behind the `storage` object. Values are serialized JSON strings.
+export interface StorageAdapter {
+  backend: StorageBackend;
+  load: (keys: string[]) => Promise<Record<string, string | null>>;
+  save: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  // Reads `keys`, applies `update` and writes every returned value, or none of them
+  transact: (keys: string[], update: TransactionUpdate) => Promise<Record<string, string>>;
+  // Optional: notify about changes made outside this tab (e.g. another browser tab)
+  subscribe?: (listener: StorageChangeListener) => () => void;
+}
+
+// Another writer changed the keys of a transaction before it could be committed
+export class TransactionConflictError extends Error {
+  constructor(message = 'Los datos cambiaron durante la transacción') {
+    super(message);
+    this.name = 'TransactionConflictError';
+  }
+}
+
+// `getToken` gives the login assertion sent to the API server, which only serves most documents to signed-in users
+export const createStorageAdapter = (
+  backend: StorageBackend,
+  apiUrl: string,
+  getToken: () => string | null
+): StorageAdapter => {
+  switch (backend) {
+    case 'indexeddb':
+      return createIndexedDBAdapter();
+    case 'http':
+      return createHttpAdapter(apiUrl, getToken);
+    case 'local':
+    default:
+      return localStorageAdapter;
+  }
+};
+
+export { localStorageAdapter, createIndexedDBAdapter, createHttpAdapter };
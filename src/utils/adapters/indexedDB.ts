@@ -0,0 +1,119 @@
+import type { StorageAdapter, StorageChangeListener } from './index';
+
+const DB_NAME = 'promipoints';
+const DB_VERSION = 2;
+const STORE_NAME = 'kv';
+// Encryption key and encrypted values of secrets (see utils/secrets.ts). Never synced.
+export const SECRETS_STORE_NAME = 'secrets';
+const CHANNEL_NAME = 'promipoints_storage';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      [STORE_NAME, SECRETS_STORE_NAME].forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name);
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDBAdapter = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase();
+    }
+    return dbPromise;
+  };
+
+  // IndexedDB has no change events, so tabs announce their own writes
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  const announce = (key: string, value: string | null) => channel?.postMessage({ key, value });
+
+  return {
+    backend: 'indexeddb',
+
+    load: async (keys) => {
+      const db = await getDb();
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const results = await Promise.all(
+        keys.map(key => requestToPromise<string | undefined>(store.get(key)))
+      );
+      const values: Record<string, string | null> = {};
+      keys.forEach((key, index) => {
+        values[key] = results[index] ?? null;
+      });
+      return values;
+    },
+
+    save: async (key, value) => {
+      const db = await getDb();
+      await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(value, key));
+      announce(key, value);
+    },
+
+    remove: async (key) => {
+      const db = await getDb();
+      await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(key));
+      announce(key, null);
+    },
+
+    transact: async (keys, update) => {
+      const db = await getDb();
+      const next = await new Promise<Record<string, string>>((resolve, reject) => {
+        // A single readwrite transaction: IndexedDB commits all puts or none
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
+        const values: Record<string, string | null> = {};
+        let result: Record<string, string> = {};
+        let pending = keys.length;
+
+        const apply = () => {
+          try {
+            result = update(values);
+          } catch (error) {
+            tx.abort();
+            reject(error);
+            return;
+          }
+          Object.entries(result).forEach(([key, value]) => store.put(value, key));
+        };
+
+        keys.forEach(key => {
+          const request = store.get(key);
+          request.onsuccess = () => {
+            values[key] = request.result ?? null;
+            pending -= 1;
+            if (pending === 0) apply();
+          };
+        });
+        if (keys.length === 0) apply();
+
+        tx.oncomplete = () => resolve(result);
+        tx.onerror = () => reject(tx.error);
+      });
+
+      Object.entries(next).forEach(([key, value]) => announce(key, value));
+      return next;
+    },
+
+    subscribe: (listener: StorageChangeListener) => {
+      if (!channel) return () => {};
+      const handleMessage = (e: MessageEvent<{ key: string; value: string | null }>) => {
+        listener(e.data.key, e.data.value);
+      };
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+  };
+};
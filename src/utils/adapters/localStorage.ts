@@ -0,0 +1,61 @@
+import type { StorageAdapter } from './index';
+
+const TRANSACTION_LOCK = 'promipoints_transaction';
+
+export const localStorageAdapter: StorageAdapter = {
+  backend: 'local',
+
+  load: async (keys) => {
+    const values: Record<string, string | null> = {};
+    keys.forEach(key => {
+      values[key] = localStorage.getItem(key);
+    });
+    return values;
+  },
+
+  save: async (key, value) => {
+    localStorage.setItem(key, value);
+  },
+
+  remove: async (key) => {
+    localStorage.removeItem(key);
+  },
+
+  transact: async (keys, update) => {
+    const run = () => {
+      const previous: Record<string, string | null> = {};
+      keys.forEach(key => {
+        previous[key] = localStorage.getItem(key);
+      });
+
+      const next = update(previous);
+      try {
+        Object.entries(next).forEach(([key, value]) => localStorage.setItem(key, value));
+      } catch (error) {
+        // Roll back partial writes (e.g. quota exceeded)
+        Object.entries(previous).forEach(([key, value]) => {
+          if (value === null) localStorage.removeItem(key);
+          else localStorage.setItem(key, value);
+        });
+        throw error;
+      }
+      return next;
+    };
+
+    // Web Locks serialize transactions across tabs of the same origin
+    if (navigator.locks) {
+      return navigator.locks.request(TRANSACTION_LOCK, run);
+    }
+    return run();
+  },
+
+  subscribe: (listener) => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.storageArea === localStorage && e.key) {
+        listener(e.key, e.newValue);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  },
+};
@@ -0,0 +1,45 @@
+import { AnonymityPolicy, PointAssignment, User } from '../types';
+
+export const ANONYMITY_PLACEHOLDER = '{anonimato}';
+
+export const ANONYMOUS_SENDER = 'Anónimo';
+
+// Who is asking to see the sender: the recipient (or their dashboard), or People & Culture in
+// reports, exports and digest emails
+export type SenderAudience = 'recipient' | 'people';
+
+// The policy is applied when reading, so changing it also covers recognitions given before
+export const isSenderVisible = (
+  assignment: PointAssignment,
+  audience: SenderAudience,
+  policy: AnonymityPolicy
+): boolean => {
+  if (policy.mode === 'anonymous') return false;
+  if (audience === 'people') return true;
+  return policy.mode === 'senderChoice' && assignment.signed === true;
+};
+
+// The sender if `audience` may see it; undefined when the recognition is anonymous to them
+export const getVisibleSender = (
+  assignment: PointAssignment,
+  audience: SenderAudience,
+  policy: AnonymityPolicy,
+  users: User[]
+): User | undefined =>
+  isSenderVisible(assignment, audience, policy) ? users.find(u => u.id === assignment.fromUserId) : undefined;
+
+// Sentence used in the onboarding copy
+export const describeAnonymityPolicy = (policy: AnonymityPolicy): string => {
+  switch (policy.mode) {
+    case 'anonymous':
+      return 'Nadie, ni siquiera People & Culture, sabrá quién los envió.';
+    case 'senderChoice':
+      return 'Tú decides en cada reconocimiento si firmarlo con tu nombre; si no lo firmas, solo People & Culture sabrá que fue tuyo.';
+    case 'people':
+    default:
+      return 'No sabrán quién los envió; solo People & Culture puede verlo.';
+  }
+};
+
+export const applyAnonymityPlaceholder = (text: string, policy: AnonymityPolicy): string =>
+  text.split(ANONYMITY_PLACEHOLDER).join(describeAnonymityPolicy(policy));
@@ -0,0 +1,174 @@
+import { User } from '../types';
+import { appConfig } from '../config';
+import { storage, signInStorage } from './storage';
+import { randomBase64Url } from './encoding';
+import { verifyJwtSignature } from './jwt';
+
+export const LOGIN_CODE_LENGTH = 6;
+
+export type LoginCodeErrorCode =
+  | 'invalid'
+  | 'expired'
+  | 'locked'
+  | 'missing'
+  | 'rate_limited'
+  | 'delivery'
+  | 'assertion'
+  | 'rejected';
+
+export class LoginCodeError extends Error {
+  code: LoginCodeErrorCode;
+  retryAfter?: number; // segundos hasta poder pedir otro código
+  attemptsLeft?: number;
+
+  constructor(code: LoginCodeErrorCode, message: string, details: { retryAfter?: number; attemptsLeft?: number } = {}) {
+    super(message);
+    this.name = 'LoginCodeError';
+    this.code = code;
+    this.retryAfter = details.retryAfter;
+    this.attemptsLeft = details.attemptsLeft;
+  }
+}
+
+export interface LoginCodeRequest {
+  expiresAt: number;
+  resendAfter: number;
+}
+
+const VERIFY_ERROR_CODES: Record<number, LoginCodeErrorCode> = {
+  401: 'invalid',
+  404: 'missing',
+  410: 'expired',
+  429: 'locked',
+};
+
+const authUrl = (path: string) => `${appConfig.apiUrl.replace(/\/$/, '')}/auth/${path}`;
+
+const post = (path: string, body: unknown) =>
+  fetch(authUrl(path), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+export const requestLoginCode = async (email: string): Promise<LoginCodeRequest> => {
+  // The API server writes and sends the email through its own SMTP relay; the browser never sees the code
+  const response = await post('otp', { email });
+  const body = await response.json().catch(() => ({}));
+
+  if (response.status === 429) {
+    throw new LoginCodeError('rate_limited', body.error, { retryAfter: body.retryAfter });
+  }
+  // The server keeps the directory with the http backend and refuses unknown, deactivated or foreign emails
+  if (response.status === 403 || response.status === 404) {
+    throw new LoginCodeError('rejected', body.error || 'No puedes iniciar sesión con este correo');
+  }
+  if (!response.ok) {
+    console.error('[auth] Error al enviar el código de acceso:', body.detail || body.error || response.status);
+    throw new LoginCodeError('delivery', 'No se pudo enviar el código. Intenta de nuevo más tarde.');
+  }
+  return body;
+};
+
+// A login assertion counts only if the API server signed it for this email and this attempt (nonce)
+const checkLoginAssertion = async (assertion: unknown, email: string, nonce: string): Promise<boolean> => {
+  if (typeof assertion !== 'string') return false;
+  const verification = await verifyJwtSignature(assertion, authUrl('jwks'));
+  if (!verification.ok) return false;
+
+  const { sub, nonce: signedNonce, exp } = verification.claims;
+  return sub === email.toLowerCase() && signedNonce === nonce && typeof exp === 'number' && exp > Date.now() / 1000;
+};
+
+// Bearer header for the API routes that need a signed-in user (mail relay, secrets)
+export const getAuthHeaders = (): Record<string, string> => {
+  const token = storage.getApiToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Resolves with the signed login assertion; the login must not go ahead without it
+export const verifyLoginCode = async (email: string, code: string): Promise<string> => {
+  const nonce = randomBase64Url(16);
+  const response = await post('otp/verify', { email, code, nonce });
+  const body = await response.json().catch(() => ({}));
+
+  if (response.ok) {
+    if (!(await checkLoginAssertion(body.assertion, email, nonce))) {
+      throw new LoginCodeError('assertion', 'El servidor no confirmó el inicio de sesión. Intenta de nuevo.');
+    }
+    return body.assertion;
+  }
+
+  throw new LoginCodeError(
+    VERIFY_ERROR_CODES[response.status] || 'invalid',
+    body.error || 'No se pudo verificar el código',
+    { attemptsLeft: body.attemptsLeft }
+  );
+};
+
+// Trades a verified id_token for a login assertion of the API server. Null when the server is not
+// reachable or rejects it: the SSO login still works, but routes that need an assertion will not.
+export const exchangeIdToken = async (idToken: string, email: string): Promise<string | null> => {
+  const nonce = randomBase64Url(16);
+  try {
+    const response = await post('oidc', { idToken, nonce });
+    const body = await response.json().catch(() => ({}));
+    if (response.ok && (await checkLoginAssertion(body.assertion, email, nonce))) return body.assertion;
+    console.error('[auth] El servidor no aceptó el id_token:', body.error || response.status);
+  } catch (error) {
+    console.error('[auth] Error al obtener la aserción de inicio de sesión:', error);
+  }
+  return null;
+};
+
+// Reloads the shared data with the new login assertion and returns the active directory user of `email`.
+// Null, and signed out again, when there is none: with the http backend the browser cannot read the directory
+// before this point.
+export const loadSignedInUser = async (email: string, assertion: string | null): Promise<User | null> => {
+  await signInStorage(assertion);
+  const user = storage.getUsers().find(u => u.email.toLowerCase() === email.toLowerCase());
+  if (user && user.active !== false) return user;
+  await signInStorage(null);
+  return null;
+};
+
+const setupUrl = () => `${appConfig.apiUrl.replace(/\/$/, '')}/setup/admin`;
+
+// Whether the API server's directory still lacks an active superadmin; false when the server cannot be reached
+export const fetchSetupNeeded = async (): Promise<boolean> => {
+  try {
+    const response = await fetch(setupUrl());
+    const body = await response.json().catch(() => ({}));
+    return response.ok && body.needed === true;
+  } catch (error) {
+    console.error('[auth] Error al consultar la configuración inicial:', error);
+    return false;
+  }
+};
+
+export interface SetupAdmin {
+  name: string;
+  email: string;
+  department: string;
+}
+
+// Checks the setup token with the API server, which answers with a login assertion for the first
+// superadmin only while the directory has none. With `createUser` the server also adds the admin to the
+// directory it keeps (http backend).
+export const requestSetupAssertion = async (setupToken: string, admin: SetupAdmin, createUser: boolean): Promise<string> => {
+  const nonce = randomBase64Url(16);
+  const { email } = admin;
+  const response = await fetch(setupUrl(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token: setupToken, ...admin, nonce, createUser }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'No se pudo validar el token de configuración');
+  }
+  if (!(await checkLoginAssertion(body.assertion, email, nonce))) {
+    throw new Error('El servidor no confirmó la configuración inicial. Intenta de nuevo.');
+  }
+  return body.assertion;
+};
@@ -0,0 +1,61 @@
+import { User } from '../types';
+import { storage, getStorageBackend, signInStorage } from './storage';
+import { createId } from './ids';
+import { ensureDepartment } from './directory';
+import { fetchSetupNeeded, requestSetupAssertion } from './auth';
+
+export interface BootstrapAdminInput {
+  name: string;
+  email: string;
+  department: string;
+  setupToken: string; // MOCK_SETUP_TOKEN del servidor
+}
+
+// A production install starts with an empty directory; the first superadmin is created from the login screen.
+// This check only decides whether to show the setup form: creating the admin needs the setup token of the
+// API server, which also refuses once the directory it stores has an active superadmin. With the http backend
+// only the server can tell, as the directory is not served before signing in.
+export const needsBootstrap = async (): Promise<boolean> => {
+  if (getStorageBackend() === 'http') return fetchSetupNeeded();
+  return !storage.getUsers().some(u => u.role === 'superadmin' && u.active !== false);
+};
+
+export const createBootstrapAdmin = async ({
+  name,
+  email,
+  department,
+  setupToken,
+}: BootstrapAdminInput): Promise<{ admin: User; assertion: string }> => {
+  if (!(await needsBootstrap())) {
+    throw new Error('Ya existe un administrador del sistema');
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  const serverDirectory = getStorageBackend() === 'http';
+  const setup = { name: name.trim(), email: normalizedEmail, department: department.trim() || 'Administración' };
+  const assertion = await requestSetupAssertion(setupToken, setup, serverDirectory);
+  await signInStorage(assertion);
+
+  // The API server created the admin in its directory; the browser backends keep theirs here
+  if (!serverDirectory) {
+    const department = await ensureDepartment(setup.department);
+    await storage.updateUsers(users => {
+      const existing = users.find(u => u.email.toLowerCase() === normalizedEmail);
+      const created: User = {
+        ...existing,
+        id: existing?.id ?? createId(),
+        name: setup.name,
+        email: normalizedEmail,
+        role: 'superadmin',
+        department,
+        active: true,
+      };
+      return existing ? users.map(u => (u.id === existing.id ? created : u)) : [...users, created];
+    });
+  }
+
+  const admin = storage.getUsers().find(u => u.email.toLowerCase() === normalizedEmail);
+  if (!admin) throw new Error('El servidor no registró al administrador. Intenta de nuevo.');
+  await storage.ensureMonthlyAllocation(admin.id);
+  return { admin, assertion };
+};
@@ -0,0 +1,17 @@
+import { User, BudgetConfig } from '../types';
+
+export const BUDGET_PLACEHOLDER = '{puntos}';
+
+// Monthly points for a user: per-user override, then department, then role, then the default
+export const resolveMonthlyBudget = (user: User | undefined, budget: BudgetConfig): number => {
+  if (!user) return budget.defaultPoints;
+  return (
+    budget.byUser[user.id] ??
+    budget.byDepartment[user.department] ??
+    budget.byRole[user.role] ??
+    budget.defaultPoints
+  );
+};
+
+export const applyBudgetPlaceholder = (text: string, points: number): string =>
+  text.split(BUDGET_PLACEHOLDER).join(String(points));
@@ -0,0 +1,82 @@
+import { User, Department, SystemConfig } from '../types';
+
+// "Ventas", " ventas " and "VENTAS" are the same department; so are "Operación" and "Operacion"
+export const departmentKey = (name: string): string =>
+  name.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ');
+
+export const findDepartment = (departments: Department[], name: string): Department | undefined => {
+  const key = departmentKey(name);
+  return key ? departments.find(d => departmentKey(d.name) === key) : undefined;
+};
+
+// Catalogue for installs that predate it: one entry per department in use. The ids are derived
+// from the name so they stay stable until the catalogue is first saved.
+export const deriveDepartments = (users: User[]): Department[] => {
+  const byKey = new Map<string, Department>();
+  users.forEach(u => {
+    const key = departmentKey(u.department);
+    if (key && !byKey.has(key)) {
+      byKey.set(key, { id: `dept-${key.replace(/[^a-z0-9]+/g, '-')}`, name: u.department.trim() });
+    }
+  });
+  return Array.from(byKey.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// The department and everything below it
+export const getDepartmentBranch = (departments: Department[], id: string): Department[] => {
+  const branch: Department[] = [];
+  let level = departments.filter(d => d.id === id);
+  while (level.length > 0) {
+    branch.push(...level);
+    const ids = new Set(level.map(d => d.id));
+    level = departments.filter(d => d.parentId && ids.has(d.parentId) && !branch.includes(d));
+  }
+  return branch;
+};
+
+// "Comercial / Ventas" for a department nested under another
+export const getDepartmentPath = (departments: Department[], department: Department): string => {
+  const names = [department.name];
+  let parent = departments.find(d => d.id === department.parentId);
+  while (parent && !names.includes(parent.name)) {
+    names.unshift(parent.name);
+    parent = departments.find(d => d.id === parent!.parentId);
+  }
+  return names.join(' / ');
+};
+
+export interface DepartmentRename {
+  from: string;
+  to: string;
+}
+
+// Moves every reference to the department named `from` (users, budgets, login domains) over to `to`.
+// A budget already set for `to` wins over the one being moved.
+export const replaceDepartmentName = (
+  config: SystemConfig,
+  users: User[],
+  from: string,
+  to: string
+): { config: SystemConfig; users: User[] } => {
+  const fromKey = departmentKey(from);
+  const matches = (name: string) => departmentKey(name) === fromKey;
+
+  const byDepartment: Record<string, number> = {};
+  let movedBudget: number | undefined;
+  Object.entries(config.budget.byDepartment).forEach(([name, points]) => {
+    if (matches(name)) movedBudget = points;
+    else byDepartment[name] = points;
+  });
+  if (movedBudget !== undefined && byDepartment[to] === undefined) byDepartment[to] = movedBudget;
+
+  return {
+    config: {
+      ...config,
+      budget: { ...config.budget, byDepartment },
+      loginDomains: config.loginDomains.map(d =>
+        matches(d.defaultDepartment) ? { ...d, defaultDepartment: to } : d
+      ),
+    },
+    users: users.map(u => (matches(u.department) ? { ...u, department: to } : u)),
+  };
+};
@@ -0,0 +1,248 @@
+import { User, Department } from '../types';
+import { storage } from './storage';
+import { createId } from './ids';
+import { findLoginDomain, describeLoginDomains } from './domains';
+import { wouldCreateCycle } from './hierarchy';
+import { findDepartment, getDepartmentBranch, replaceDepartmentName } from './departments';
+import {
+  assertPermission,
+  canGrantPermissions,
+  canManageRole,
+  checkUserChange,
+  isLastActiveSuperadmin,
+} from './permissions';
+
+export type UserInput = Pick<User, 'name' | 'email' | 'department' | 'role' | 'managerId' | 'customRoleId'>;
+
+export type DepartmentInput = Omit<Department, 'id'>;
+
+export const ROLE_LABELS: Record<User['role'], string> = {
+  employee: 'Colaborador',
+  people: 'People & Culture',
+  superadmin: 'SuperAdmin',
+};
+
+export const isActiveUser = (user: User) => user.active !== false;
+
+export const getRoleLabel = (user: Pick<User, 'role' | 'customRoleId'>): string => {
+  const customRole = user.role === 'people' ? storage.getSystemConfig().roles.find(r => r.id === user.customRoleId) : undefined;
+  return customRole?.name ?? ROLE_LABELS[user.role];
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidEmail = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+const assertManageUsers = (actor: User) => assertPermission(actor, 'manageUsers', storage.getSystemConfig().roles);
+
+// Returns the first problem with the input, or null when it can be saved
+export const validateUserInput = (input: UserInput, actor: User, existing?: User): string | null => {
+  const users = storage.getUsers();
+  const email = input.email.trim().toLowerCase();
+
+  if (!input.name.trim()) return 'Ingresa el nombre del colaborador';
+  if (!isValidEmail(email)) return 'Ingresa un correo válido';
+  if (users.some(u => u.id !== existing?.id && u.email.toLowerCase() === email)) {
+    return 'Ya existe un colaborador con ese correo';
+  }
+  const { loginDomains, departments, roles } = storage.getSystemConfig();
+  if (!input.department.trim()) return 'Selecciona el departamento';
+  if (!findDepartment(departments, input.department)) return 'El departamento no está en el catálogo';
+
+  // Superadmins may use any address, everyone else must be able to log in
+  if (input.role !== 'superadmin' && !findLoginDomain(email, loginDomains)) {
+    return `El correo debe ser de un dominio permitido (${describeLoginDomains(loginDomains)})`;
+  }
+
+  if (input.managerId) {
+    const manager = users.find(u => u.id === input.managerId);
+    if (!manager || !isActiveUser(manager)) return 'El jefe directo no existe o está desactivado';
+    if (existing && wouldCreateCycle(users, existing.id, input.managerId)) {
+      return 'El jefe directo no puede ser el mismo colaborador ni alguien de su equipo';
+    }
+  }
+
+  if (input.customRoleId) {
+    if (input.role !== 'people') return 'Los roles personalizados solo aplican a People & Culture';
+    if (!roles.some(r => r.id === input.customRoleId)) return 'El rol no existe';
+  }
+  const permissionError = checkUserChange(actor, roles, input, existing);
+  if (permissionError) return permissionError;
+  if (existing?.role === 'superadmin' && input.role !== 'superadmin' && isLastActiveSuperadmin(users, existing.id)) {
+    return 'Debe quedar al menos un SuperAdmin activo';
+  }
+  return null;
+};
+
+// The department is stored with the catalogue's spelling
+const normalizeInput = (input: UserInput): UserInput => ({
+  name: input.name.trim(),
+  email: input.email.trim().toLowerCase(),
+  department: findDepartment(storage.getSystemConfig().departments, input.department)?.name ?? input.department.trim(),
+  role: input.role,
+  managerId: input.managerId || undefined,
+  customRoleId: input.role === 'people' ? input.customRoleId || undefined : undefined,
+});
+
+// Applies `change` to the latest stored version of the user and resolves with the saved user
+const saveUser = async (userId: string, change: (user: User) => User): Promise<User> => {
+  const users = await storage.updateUsers(list => list.map(u => (u.id === userId ? change(u) : u)));
+  const saved = users.find(u => u.id === userId);
+  if (!saved) throw new Error('Colaborador no encontrado');
+  return saved;
+};
+
+export const createUser = async (input: UserInput, actor: User): Promise<User> => {
+  assertManageUsers(actor);
+  const error = validateUserInput(input, actor);
+  if (error) throw new Error(error);
+
+  const user: User = { id: createId(), ...normalizeInput(input), active: true };
+  await storage.updateUsers(users => [...users, user]);
+  return user;
+};
+
+// Changing the role ends the user's open sessions (see checkSession)
+export const updateUser = async (userId: string, input: UserInput, actor: User): Promise<User> => {
+  assertManageUsers(actor);
+  const users = storage.getUsers();
+  const existing = users.find(u => u.id === userId);
+  if (!existing) throw new Error('Colaborador no encontrado');
+
+  const error = validateUserInput(input, actor, existing);
+  if (error) throw new Error(error);
+
+  const changes = normalizeInput(input);
+  return saveUser(userId, user => ({ ...user, ...changes }));
+};
+
+// Users are never deleted so their recognitions keep resolving; deactivated users cannot log in
+// and no longer appear as recipients.
+export const setUserActive = async (userId: string, active: boolean, actor: User): Promise<User> => {
+  assertManageUsers(actor);
+  const users = storage.getUsers();
+  const existing = users.find(u => u.id === userId);
+  if (!existing) throw new Error('Colaborador no encontrado');
+
+  if (!active) {
+    if (existing.id === actor.id) throw new Error('No puedes desactivar tu propio usuario');
+    if (existing.role === 'superadmin' && isLastActiveSuperadmin(users, existing.id)) {
+      throw new Error('Debe quedar al menos un SuperAdmin activo');
+    }
+  }
+  if (!canManageRole(actor, existing)) {
+    throw new Error('Solo un SuperAdmin puede administrar usuarios SuperAdmin');
+  }
+  if (!canGrantPermissions(actor, existing, storage.getSystemConfig().roles)) {
+    throw new Error('No puedes administrar a alguien con más permisos que los tuyos');
+  }
+
+  return saveUser(userId, user => ({ ...user, active }));
+};
+
+// Returns the first problem with the department, or null when it can be saved
+export const validateDepartmentInput = (input: DepartmentInput, existing?: Department): string | null => {
+  const { departments } = storage.getSystemConfig();
+
+  if (!input.name.trim()) return 'Ingresa el nombre del departamento';
+  const duplicate = findDepartment(departments, input.name);
+  if (duplicate && duplicate.id !== existing?.id) return `Ya existe el departamento ${duplicate.name}`;
+
+  if (input.parentId) {
+    if (!departments.some(d => d.id === input.parentId)) return 'El departamento superior no existe';
+    if (existing && getDepartmentBranch(departments, existing.id).some(d => d.id === input.parentId)) {
+      return 'Un departamento no puede depender de sí mismo ni de uno de sus subdepartamentos';
+    }
+  }
+
+  if (input.headUserId) {
+    const head = storage.getUsers().find(u => u.id === input.headUserId);
+    if (!head || !isActiveUser(head)) return 'El responsable no existe o está desactivado';
+  }
+  return null;
+};
+
+// Renaming a department renames it for every user, budget and login domain that uses it
+export const saveDepartment = async (
+  input: DepartmentInput,
+  actor: User,
+  departmentId?: string
+): Promise<Department> => {
+  assertManageUsers(actor);
+  const config = storage.getSystemConfig();
+  const existing = config.departments.find(d => d.id === departmentId);
+  if (departmentId && !existing) throw new Error('Departamento no encontrado');
+
+  const error = validateDepartmentInput(input, existing);
+  if (error) throw new Error(error);
+
+  const department: Department = {
+    id: existing?.id ?? createId(),
+    name: input.name.trim(),
+    parentId: input.parentId || undefined,
+    costCenter: input.costCenter?.trim() || undefined,
+    headUserId: input.headUserId || undefined,
+  };
+  const renamed = existing && existing.name !== department.name;
+
+  await storage.updateSystemConfig(
+    latest => {
+      const departments = existing
+        ? latest.departments.map(d => (d.id === department.id ? department : d))
+        : [...latest.departments, department];
+      return renamed
+        ? replaceDepartmentName({ ...latest, departments }, [], existing.name, department.name).config
+        : { ...latest, departments };
+    },
+    actor.id,
+    renamed ? [{ from: existing.name, to: department.name }] : []
+  );
+  return department;
+};
+
+// Moves everyone in `sourceId` to `targetId` and removes the source; its subdepartments move under
+// the target. Returns the number of users moved.
+export const mergeDepartments = async (sourceId: string, targetId: string, actor: User): Promise<number> => {
+  assertManageUsers(actor);
+  const config = storage.getSystemConfig();
+  const source = config.departments.find(d => d.id === sourceId);
+  const target = config.departments.find(d => d.id === targetId);
+  if (!source || !target) throw new Error('Departamento no encontrado');
+  if (source.id === target.id) throw new Error('Elige un departamento distinto');
+
+  const moved = storage.getUsers().filter(u => findDepartment([source], u.department)).length;
+  await storage.updateSystemConfig(
+    latest => {
+      const departments = latest.departments
+        .filter(d => d.id !== source.id)
+        .map(d => {
+          if (d.id === target.id) {
+            return {
+              ...d,
+              parentId: d.parentId === source.id ? source.parentId : d.parentId,
+              headUserId: d.headUserId ?? source.headUserId,
+            };
+          }
+          return d.parentId === source.id ? { ...d, parentId: target.id } : d;
+        });
+      return replaceDepartmentName({ ...latest, departments }, [], source.name, target.name).config;
+    },
+    actor.id,
+    [{ from: source.name, to: target.name }]
+  );
+  return moved;
+};
+
+// Department named by the identity provider: the catalogue's spelling, adding it when it is new
+export const ensureDepartment = async (name: string): Promise<string> => (await storage.addDepartment(name)).name;
+
+// Department and role sent by the identity provider at SSO login; the role comes from resolveIdentityRole,
+// which never demotes the last active superadmin
+export const applyIdentityProfile = async (
+  user: User,
+  profile: { department?: string; role: User['role'] }
+): Promise<User> => {
+  const department = profile.department?.trim() ? await ensureDepartment(profile.department) : user.department;
+  if (department === user.department && profile.role === user.role) return user;
+  return saveUser(user.id, latest => ({ ...latest, department, role: profile.role }));
+};
@@ -0,0 +1,29 @@
+import { LoginDomain } from '../types';
+
+export const DEFAULT_LOGIN_DOMAIN = 'grupoprominente.com';
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+// Accepts "@empresa.com", "empresa.com" or " Empresa.COM "
+export const normalizeDomain = (value: string): string => value.trim().toLowerCase().replace(/^@/, '');
+
+export const isValidDomain = (value: string): boolean => DOMAIN_PATTERN.test(normalizeDomain(value));
+
+export const getEmailDomain = (email: string): string => normalizeDomain(email.slice(email.lastIndexOf('@') + 1));
+
+export const findLoginDomain = (email: string, domains: LoginDomain[]): LoginDomain | undefined => {
+  if (!email.includes('@')) return undefined;
+  const domain = getEmailDomain(email);
+  return domains.find(d => normalizeDomain(d.domain) === domain);
+};
+
+// Department for a new user of `email`, used by user import
+export const getDefaultDepartment = (email: string, domains: LoginDomain[]): string =>
+  findLoginDomain(email, domains)?.defaultDepartment || '';
+
+// "@a.com", "@a.com o @b.com", "@a.com, @b.com o @c.com"
+export const describeLoginDomains = (domains: LoginDomain[]): string => {
+  const names = domains.map(d => `@${normalizeDomain(d.domain)}`);
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} o ${names[names.length - 1]}`;
+};
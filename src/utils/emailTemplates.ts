@@ -0,0 +1,163 @@
+import { EmailTemplate, EmailTemplates, PointAssignment, User } from '../types';
+import { ANONYMOUS_SENDER } from './anonymity';
+
+export type EmailTemplateKind = keyof EmailTemplates;
+
+export interface EmailPlaceholder {
+  key: string;
+  description: string;
+  kinds: EmailTemplateKind[];
+}
+
+export interface TemplateValidationIssue {
+  kind: EmailTemplateKind;
+  placeholders: string[];
+}
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateKind, string> = {
+  employee: 'Colaborador que recibe puntos',
+  peopleDigest: 'Resumen para People',
+};
+
+// The sender placeholders are not available in the employee template so recognitions stay anonymous;
+// {firma} only names the sender when they signed the recognition
+export const EMAIL_PLACEHOLDERS: EmailPlaceholder[] = [
+  { key: 'destinatario', description: 'Nombre de quien recibe', kinds: ['employee', 'peopleDigest'] },
+  { key: 'departamento', description: 'Departamento de quien recibe', kinds: ['employee', 'peopleDigest'] },
+  { key: 'puntos', description: 'Cantidad de puntos (ej. 3)', kinds: ['employee', 'peopleDigest'] },
+  { key: 'puntos_texto', description: 'Puntos con unidad (ej. 3 PromiPoints)', kinds: ['employee', 'peopleDigest'] },
+  { key: 'categoria', description: 'Categoría del reconocimiento', kinds: ['employee', 'peopleDigest'] },
+  { key: 'mensaje', description: 'Mensaje del reconocimiento', kinds: ['employee', 'peopleDigest'] },
+  { key: 'fecha', description: 'Fecha y hora del reconocimiento', kinds: ['employee', 'peopleDigest'] },
+  { key: 'firma', description: 'Quien envía si firmó el reconocimiento, si no "Un compañero"', kinds: ['employee'] },
+  { key: 'remitente', description: 'Nombre de quien envía', kinds: ['peopleDigest'] },
+  { key: 'remitente_departamento', description: 'Departamento de quien envía', kinds: ['peopleDigest'] },
+];
+
+const PLACEHOLDER_PATTERN = /\{([^{}\s]+)\}/g;
+
+export const DEFAULT_EMAIL_TEMPLATES: EmailTemplates = {
+  employee: {
+    subject: '¡Recibiste {puntos_texto}!',
+    html: `<div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #1f2937;">
+  <h2 style="color: #ea580c;">¡Hola {destinatario}! Un compañero te ha reconocido</h2>
+  <p>Recibiste <strong>{puntos_texto}</strong> en la categoría <strong>{categoria}</strong>.</p>
+  <blockquote style="border-left: 4px solid #ea580c; margin: 16px 0; padding: 8px 16px; color: #374151;">{mensaje}</blockquote>
+  <p style="color: #6b7280; font-size: 12px; margin-top: 24px;">Ingresa a PromiPoints para ver todos tus reconocimientos.</p>
+</div>`,
+    text: `¡Hola {destinatario}! Un compañero te ha reconocido
+
+Recibiste {puntos_texto} en la categoría {categoria}.
+
+Mensaje: {mensaje}
+
+Ingresa a PromiPoints para ver todos tus reconocimientos.`,
+  },
+  peopleDigest: {
+    subject: 'Nuevo reconocimiento: {destinatario} recibió {puntos_texto}',
+    html: `<div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #1f2937;">
+  <h2 style="color: #ea580c;">Nuevo reconocimiento registrado</h2>
+  <table style="border-collapse: collapse; width: 100%;">
+    <tr><td style="padding: 6px 12px 6px 0; font-weight: bold;">Fecha</td><td>{fecha}</td></tr>
+    <tr><td style="padding: 6px 12px 6px 0; font-weight: bold;">Recibe</td><td>{destinatario} ({departamento})</td></tr>
+    <tr><td style="padding: 6px 12px 6px 0; font-weight: bold;">Envía</td><td>{remitente} ({remitente_departamento})</td></tr>
+    <tr><td style="padding: 6px 12px 6px 0; font-weight: bold;">Puntos</td><td>{puntos}</td></tr>
+    <tr><td style="padding: 6px 12px 6px 0; font-weight: bold;">Categoría</td><td>{categoria}</td></tr>
+    <tr><td style="padding: 6px 12px 6px 0; font-weight: bold; vertical-align: top;">Mensaje</td><td>{mensaje}</td></tr>
+  </table>
+  <p style="color: #6b7280; font-size: 12px; margin-top: 24px;">Notificación automática de PromiPoints para el equipo de People.</p>
+</div>`,
+    text: `Nuevo reconocimiento registrado
+
+Fecha: {fecha}
+Recibe: {destinatario} ({departamento})
+Envía: {remitente} ({remitente_departamento})
+Puntos: {puntos}
+Categoría: {categoria}
+Mensaje: {mensaje}
+
+Notificación automática de PromiPoints para el equipo de People.`,
+  },
+};
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const getAllowedPlaceholders = (kind: EmailTemplateKind) =>
+  new Set(EMAIL_PLACEHOLDERS.filter(p => p.kinds.includes(kind)).map(p => p.key));
+
+export const getPlaceholdersFor = (kind: EmailTemplateKind): EmailPlaceholder[] =>
+  EMAIL_PLACEHOLDERS.filter(p => p.kinds.includes(kind));
+
+// Placeholders used in the template that are unknown or not allowed for its kind
+export const findUnknownPlaceholders = (kind: EmailTemplateKind, template: EmailTemplate): string[] => {
+  const allowed = getAllowedPlaceholders(kind);
+  const unknown = new Set<string>();
+  [template.subject, template.html, template.text].forEach(part => {
+    for (const match of part.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!allowed.has(match[1])) unknown.add(`{${match[1]}}`);
+    }
+  });
+  return Array.from(unknown);
+};
+
+export const validateEmailTemplates = (templates: EmailTemplates): TemplateValidationIssue[] =>
+  (Object.keys(templates) as EmailTemplateKind[])
+    .map(kind => ({ kind, placeholders: findUnknownPlaceholders(kind, templates[kind]) }))
+    .filter(issue => issue.placeholders.length > 0);
+
+// `sender` is whoever People may see and `signedBy` whoever the recipient may see; each is undefined when
+// the anonymity policy hides the sender from that audience
+export const buildPlaceholderValues = (
+  assignment: PointAssignment,
+  recipient: User,
+  sender?: User,
+  signedBy?: User
+): Record<string, string> => ({
+  destinatario: recipient.name,
+  departamento: recipient.department,
+  puntos: String(assignment.points),
+  puntos_texto: `${assignment.points} PromiPoint${assignment.points === 1 ? '' : 's'}`,
+  categoria: assignment.category,
+  mensaje: assignment.message || 'Sin mensaje',
+  fecha: new Date(assignment.timestamp).toLocaleString('es-ES'),
+  remitente: sender?.name || ANONYMOUS_SENDER,
+  remitente_departamento: sender?.department || '—',
+  firma: signedBy?.name || 'Un compañero',
+});
+
+// Only placeholders allowed for the kind are replaced; values are escaped in the HTML body
+export const renderEmailTemplate = (
+  kind: EmailTemplateKind,
+  template: EmailTemplate,
+  values: Record<string, string>
+): EmailTemplate => {
+  const allowed = getAllowedPlaceholders(kind);
+  const replace = (text: string, format: (value: string) => string) =>
+    text.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+      allowed.has(key) && key in values ? format(values[key]) : match
+    );
+
+  return {
+    subject: replace(template.subject, value => value.replace(/\s+/g, ' ')),
+    html: replace(template.html, value => escapeHtml(value).replace(/\n/g, '<br>')),
+    text: replace(template.text, value => value),
+  };
+};
+
+// Stand-in used for previews and test emails when there are no real assignments
+export const createSampleAssignment = (): PointAssignment => ({
+  id: 'sample',
+  fromUserId: '',
+  toUserId: '',
+  points: 3,
+  category: 'Trabajo en equipo',
+  message: '¡Gracias por tu apoyo en el cierre del proyecto!',
+  timestamp: Date.now(),
+  month: '',
+});
@@ -0,0 +1,8 @@
+export const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+export const randomBase64Url = (byteLength = 32): string =>
+  toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
@@ -0,0 +1,50 @@
+import { User } from '../types';
+
+export interface TeamMember {
+  user: User;
+  depth: number; // 1: reporte directo, 2: reporte de un reporte directo, ...
+  manager: User;
+}
+
+const groupByManager = (users: User[]) => {
+  const reports = new Map<string, User[]>();
+  users.forEach(u => {
+    if (u.managerId) reports.set(u.managerId, [...(reports.get(u.managerId) || []), u]);
+  });
+  return reports;
+};
+
+export const getDirectReports = (users: User[], managerId: string): User[] =>
+  users.filter(u => u.managerId === managerId);
+
+// Direct and indirect reports of `managerId`, breadth first. Users already visited are skipped,
+// so a cycle in the data cannot loop forever.
+export const getReportingTree = (users: User[], managerId: string): TeamMember[] => {
+  const reports = groupByManager(users);
+  const manager = users.find(u => u.id === managerId);
+  if (!manager) return [];
+
+  const visited = new Set([managerId]);
+  const team: TeamMember[] = [];
+  let level: TeamMember[] = [{ user: manager, depth: 0, manager }];
+
+  while (level.length > 0) {
+    const next: TeamMember[] = [];
+    level.forEach(({ user, depth }) => {
+      (reports.get(user.id) || []).forEach(report => {
+        if (visited.has(report.id)) return;
+        visited.add(report.id);
+        next.push({ user: report, depth: depth + 1, manager: user });
+      });
+    });
+    team.push(...next);
+    level = next;
+  }
+  return team;
+};
+
+export const hasReports = (users: User[], userId: string): boolean => users.some(u => u.managerId === userId);
+
+// True when making `managerId` the manager of `userId` would close a loop in the tree
+export const wouldCreateCycle = (users: User[], userId: string, managerId: string): boolean =>
+  managerId === userId || getReportingTree(users, userId).some(member => member.user.id === managerId);
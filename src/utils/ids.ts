@@ -0,0 +1,2 @@
+// Unique enough for ids generated in a browser or the API server
+export const createId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -0,0 +1,34 @@
+import { fromBase64Url } from './encoding';
+
+export type JwtClaims = Record<string, unknown>;
+
+export type JwtVerification =
+  | { ok: true; claims: JwtClaims }
+  | { ok: false; reason: 'format' | 'algorithm' | 'key' | 'signature'; detail?: string };
+
+const decoder = new TextDecoder();
+
+// Checks the RS256 signature of `token` against the key set published at `jwksUri`.
+// Claims are only returned once the signature is valid; checking them is up to the caller.
+export const verifyJwtSignature = async (token: string, jwksUri: string): Promise<JwtVerification> => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return { ok: false, reason: 'format' };
+
+  const { alg, kid } = JSON.parse(decoder.decode(fromBase64Url(header)));
+  if (alg !== 'RS256') return { ok: false, reason: 'algorithm', detail: alg };
+
+  const { keys }: { keys: (JsonWebKey & { kid?: string })[] } = await (await fetch(jwksUri)).json();
+  const jwk = keys.find(k => k.kid === kid);
+  if (!jwk) return { ok: false, reason: 'key' };
+
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    fromBase64Url(signature),
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+  if (!valid) return { ok: false, reason: 'signature' };
+
+  return { ok: true, claims: JSON.parse(decoder.decode(fromBase64Url(payload))) };
+};
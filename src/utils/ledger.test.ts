@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { LedgerAdjustment, MonthlyAllocation, PointAssignment } from '../types';
+import { applyLedgerBalances, buildReconciliationReport, computeBalance } from './ledger';
+
+const MONTH = '2026-10';
+
+const allocation = (userId: string, overrides: Partial<MonthlyAllocation> = {}): MonthlyAllocation => ({
+  userId,
+  month: MONTH,
+  pointsAllotted: 10,
+  pointsCarriedOver: 0,
+  pointsRemaining: 10,
+  pointsReceived: 0,
+  ...overrides,
+});
+
+// Allocations as the storage creates them, with a configured budget other than the default
+const createAllocation = (points: number) => (userId: string, month: string) =>
+  allocation(userId, { month, pointsAllotted: points, pointsRemaining: points });
+
+const assignment = (fromUserId: string, toUserId: string, points: number, month = MONTH): PointAssignment => ({
+  id: `${fromUserId}-${toUserId}-${points}-${month}`,
+  fromUserId,
+  toUserId,
+  points,
+  category: 'Innovación',
+  timestamp: 0,
+  month,
+});
+
+const adjustment = (userId: string, kind: LedgerAdjustment['kind'], amount: number): LedgerAdjustment => ({
+  id: `${userId}-${kind}-${amount}`,
+  userId,
+  month: MONTH,
+  kind,
+  amount,
+  reason: 'Corrección',
+  createdBy: 'admin',
+  timestamp: 0,
+});
+
+describe('computeBalance', () => {
+  it('starts from the allotment plus rollover and follows the month\'s assignments', () => {
+    const assignments = [
+      assignment('ana', 'luis', 3),
+      assignment('luis', 'ana', 2),
+      assignment('ana', 'luis', 4, '2026-09'),
+    ];
+
+    expect(computeBalance('ana', MONTH, allocation('ana', { pointsCarriedOver: 5 }), assignments, [])).toEqual({
+      pointsRemaining: 12,
+      pointsReceived: 2,
+    });
+  });
+
+  it('applies adjustments to the points to give or to the points received', () => {
+    const adjustments = [
+      adjustment('ana', 'allowance', 5),
+      adjustment('ana', 'received', -2),
+      adjustment('luis', 'allowance', 9),
+    ];
+
+    expect(computeBalance('ana', MONTH, allocation('ana'), [assignment('luis', 'ana', 2)], adjustments)).toEqual({
+      pointsRemaining: 15,
+      pointsReceived: 0,
+    });
+  });
+
+  it('allots nothing without an allocation', () => {
+    expect(computeBalance('ana', MONTH, null, [], [])).toEqual({ pointsRemaining: 0, pointsReceived: 0 });
+  });
+
+  it('counts what the user gave anonymously, which the assignments do not name', () => {
+    const anonymous = { ...assignment('ana', 'luis', 3), fromUserId: '' };
+
+    expect(computeBalance('ana', MONTH, allocation('ana', { pointsGivenAnonymously: 3 }), [anonymous], [])).toEqual({
+      pointsRemaining: 7,
+      pointsReceived: 0,
+    });
+  });
+});
+
+describe('buildReconciliationReport', () => {
+  it('is empty when the stored counters match the ledger', () => {
+    const allocations = [allocation('ana', { pointsRemaining: 7 }), allocation('luis', { pointsReceived: 3 })];
+    const assignments = [assignment('ana', 'luis', 3)];
+
+    expect(buildReconciliationReport(allocations, assignments, [], createAllocation(10))).toEqual([]);
+  });
+
+  it('lists drifted counters and movements without an allocation, at the configured budget', () => {
+    const allocations = [allocation('ana'), allocation('luis', { pointsReceived: 3 })];
+    const assignments = [assignment('ana', 'luis', 3), assignment('ana', 'eva', 1)];
+
+    expect(buildReconciliationReport(allocations, assignments, [], createAllocation(15))).toEqual([
+      {
+        userId: 'ana',
+        month: MONTH,
+        stored: { pointsRemaining: 10, pointsReceived: 0 },
+        ledger: { pointsRemaining: 6, pointsReceived: 0 },
+      },
+      { userId: 'eva', month: MONTH, stored: null, ledger: { pointsRemaining: 15, pointsReceived: 1 } },
+    ]);
+  });
+
+  it('does not list a sender for anonymous recognitions', () => {
+    const anonymous = { ...assignment('ana', 'luis', 3), fromUserId: '' };
+    const allocations = [
+      allocation('ana', { pointsGivenAnonymously: 3, pointsRemaining: 7 }),
+      allocation('luis', { pointsReceived: 3 }),
+    ];
+
+    expect(buildReconciliationReport(allocations, [anonymous], [], createAllocation(10))).toEqual([]);
+  });
+});
+
+describe('applyLedgerBalances', () => {
+  it('repairs the reported counters and creates the missing allocations', () => {
+    const allocations = [allocation('ana'), allocation('luis', { pointsReceived: 3 })];
+    const assignments = [assignment('ana', 'luis', 3), assignment('ana', 'eva', 1)];
+    const report = buildReconciliationReport(allocations, assignments, [], createAllocation(15));
+
+    applyLedgerBalances(allocations, report, assignments, [], createAllocation(15));
+
+    expect(allocations.find(a => a.userId === 'ana')).toMatchObject({ pointsRemaining: 6, pointsReceived: 0 });
+    expect(allocations.find(a => a.userId === 'eva')).toMatchObject({ pointsRemaining: 15, pointsReceived: 1 });
+    expect(buildReconciliationReport(allocations, assignments, [], createAllocation(15))).toEqual([]);
+  });
+});
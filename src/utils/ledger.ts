@@ -0,0 +1,118 @@
+import { MonthlyAllocation, PointAssignment, LedgerAdjustment } from '../types';
+
+export const DEFAULT_MONTHLY_POINTS = 10;
+
+export interface LedgerBalance {
+  pointsRemaining: number;
+  pointsReceived: number;
+}
+
+// Creates the allocation of a user for a month that has none, with the configured budget and rollover
+export type AllocationFactory = (userId: string, month: string) => MonthlyAllocation;
+
+export interface ReconciliationEntry {
+  userId: string;
+  month: string;
+  stored: LedgerBalance | null; // null: hay movimientos pero no existe la asignación mensual
+  ledger: LedgerBalance;
+}
+
+// Without an allocation nothing was allotted: the configured budget only applies once one is created
+export const getAllottedPoints = (allocation: MonthlyAllocation | null | undefined): number =>
+  allocation?.pointsAllotted ?? 0;
+
+export const getCarriedOverPoints = (allocation: MonthlyAllocation | null | undefined): number =>
+  allocation?.pointsCarriedOver ?? 0;
+
+// Points available at the start of the month: allotment plus rollover
+export const getStartingPoints = (allocation: MonthlyAllocation | null | undefined): number =>
+  getAllottedPoints(allocation) + getCarriedOverPoints(allocation);
+
+// Fully anonymous recognitions store no sender; the sender's allocation only keeps their monthly total
+export const getAnonymousGivenPoints = (allocation: MonthlyAllocation | null | undefined): number =>
+  allocation?.pointsGivenAnonymously ?? 0;
+
+// Balance of a user for a month: starting points and adjustments minus points given, plus points received
+export const computeBalance = (
+  userId: string,
+  month: string,
+  allocation: MonthlyAllocation | null | undefined,
+  assignments: PointAssignment[],
+  adjustments: LedgerAdjustment[]
+): LedgerBalance => {
+  let pointsRemaining = getStartingPoints(allocation) - getAnonymousGivenPoints(allocation);
+  let pointsReceived = 0;
+
+  assignments.forEach(a => {
+    if (a.month !== month) return;
+    if (a.fromUserId === userId) pointsRemaining -= a.points;
+    if (a.toUserId === userId) pointsReceived += a.points;
+  });
+
+  adjustments.forEach(adj => {
+    if (adj.month !== month || adj.userId !== userId) return;
+    if (adj.kind === 'allowance') pointsRemaining += adj.amount;
+    else pointsReceived += adj.amount;
+  });
+
+  return { pointsRemaining, pointsReceived };
+};
+
+// Every user/month whose stored counters disagree with the ledger. A missing allocation is compared as
+// `createAllocation` would create it, with the configured budget, which is what repairing it stores.
+export const buildReconciliationReport = (
+  allocations: MonthlyAllocation[],
+  assignments: PointAssignment[],
+  adjustments: LedgerAdjustment[],
+  createAllocation: AllocationFactory
+): ReconciliationEntry[] => {
+  const pairs = new Map<string, { userId: string; month: string }>();
+  const addPair = (userId: string, month: string) => pairs.set(`${userId}|${month}`, { userId, month });
+
+  allocations.forEach(a => addPair(a.userId, a.month));
+  assignments.forEach(a => {
+    if (a.fromUserId) addPair(a.fromUserId, a.month);
+    addPair(a.toUserId, a.month);
+  });
+  adjustments.forEach(adj => addPair(adj.userId, adj.month));
+
+  const entries: ReconciliationEntry[] = [];
+  pairs.forEach(({ userId, month }) => {
+    const allocation = allocations.find(a => a.userId === userId && a.month === month);
+    const expected = allocation ?? createAllocation(userId, month);
+    const ledger = computeBalance(userId, month, expected, assignments, adjustments);
+    const stored = allocation
+      ? { pointsRemaining: allocation.pointsRemaining, pointsReceived: allocation.pointsReceived }
+      : null;
+
+    const diverges = stored
+      ? stored.pointsRemaining !== ledger.pointsRemaining || stored.pointsReceived !== ledger.pointsReceived
+      : true;
+
+    if (diverges) {
+      entries.push({ userId, month, stored, ledger });
+    }
+  });
+
+  return entries.sort((a, b) => b.month.localeCompare(a.month) || a.userId.localeCompare(b.userId));
+};
+
+// Recomputes the stored counters of the given user/months from the ledger, in place.
+// Missing allocations are created with `createAllocation`.
+export const applyLedgerBalances = (
+  allocations: MonthlyAllocation[],
+  pairs: { userId: string; month: string }[],
+  assignments: PointAssignment[],
+  adjustments: LedgerAdjustment[],
+  createAllocation: AllocationFactory
+): MonthlyAllocation[] => {
+  pairs.forEach(({ userId, month }) => {
+    let allocation = allocations.find(a => a.userId === userId && a.month === month);
+    if (!allocation) {
+      allocation = createAllocation(userId, month);
+      allocations.push(allocation);
+    }
+    Object.assign(allocation, computeBalance(userId, month, allocation, assignments, adjustments));
+  });
+  return allocations;
+};
@@ -0,0 +1,116 @@
+import { EmailNotificationConfig, EmailTemplate, PointAssignment, User } from '../types';
+import { appConfig } from '../config';
+import { storage } from './storage';
+import { readSecret } from './secrets';
+import { getAuthHeaders } from './auth';
+import { EmailTemplateKind, buildPlaceholderValues, createSampleAssignment, renderEmailTemplate } from './emailTemplates';
+import { getVisibleSender } from './anonymity';
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailDeliveryResult {
+  sent: number;
+  failed: { to: string[]; error: string }[];
+}
+
+const renderMessage = (
+  kind: EmailTemplateKind,
+  template: EmailTemplate,
+  to: string[],
+  assignment: PointAssignment,
+  recipient: User,
+  sender?: User,
+  signedBy?: User
+): EmailMessage => ({
+  to,
+  ...renderEmailTemplate(kind, template, buildPlaceholderValues(assignment, recipient, sender, signedBy)),
+});
+
+export type MailTestStage = 'dns' | 'connection' | 'tls' | 'auth' | 'send';
+
+export interface MailTestStep {
+  stage: MailTestStage;
+  ok: boolean;
+  detail: string;
+}
+
+const postToRelay = async <T>(path: string, body: unknown): Promise<T> => {
+  const response = await fetch(`${appConfig.apiUrl.replace(/\/$/, '')}/mail/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `Mail relay failed (${response.status})`);
+  }
+  return response.json();
+};
+
+// Without a password the relay falls back to the one stored on the server (http backend). The saved
+// password, on the server or in this browser, is only used for the host and user it was saved with.
+export const getRelaySettings = async (config: EmailNotificationConfig, smtpPassword?: string) => ({
+  smtp: {
+    host: config.smtpHost,
+    port: config.smtpPort,
+    user: config.smtpUser,
+    password:
+      smtpPassword ||
+      (await readSecret('smtpPassword', { host: config.smtpHost, user: config.smtpUser })) ||
+      undefined,
+  },
+  from: { email: config.fromEmail, name: config.fromName },
+});
+
+// Relays the messages to the SMTP server configured in AdminSettings through the API server
+export const sendEmails = async (config: EmailNotificationConfig, messages: EmailMessage[]): Promise<MailDeliveryResult> =>
+  postToRelay('send', { ...(await getRelaySettings(config)), messages });
+
+// Checks the SMTP settings stage by stage, delivering a sample recognition to `to`.
+// `smtpPassword` tests a new password before it is saved.
+export const sendTestEmail = async (config: EmailNotificationConfig, to: string, smtpPassword?: string): Promise<MailTestStep[]> => {
+  const sample: PointAssignment = {
+    ...createSampleAssignment(),
+    message: 'Este es un email de prueba de PromiPoints. Si lo recibiste, la configuración SMTP es correcta.',
+  };
+  const recipient: User = { id: '', name: 'Equipo PromiPoints', email: to, role: 'employee', department: '' };
+  const message = renderMessage('employee', config.templates.employee, [to], sample, recipient);
+
+  const { steps } = await postToRelay<{ steps: MailTestStep[] }>('test', {
+    ...(await getRelaySettings(config, smtpPassword)),
+    message: { ...message, subject: `[Prueba] ${message.subject}` },
+  });
+  return steps;
+};
+
+// Sends the notifications enabled in the system config for a new assignment
+export const notifyAssignment = async (assignment: PointAssignment): Promise<MailDeliveryResult | null> => {
+  const { emailNotifications: config, anonymity } = storage.getSystemConfig();
+  if (!config.enabled) return null;
+
+  const users = storage.getUsers();
+  const recipient = users.find(u => u.id === assignment.toUserId);
+  if (!recipient) return null;
+
+  const messages: EmailMessage[] = [];
+  if (config.notifyEmployee && recipient.email) {
+    const signedBy = getVisibleSender(assignment, 'recipient', anonymity, users);
+    messages.push(
+      renderMessage('employee', config.templates.employee, [recipient.email], assignment, recipient, undefined, signedBy)
+    );
+  }
+  const peopleEmails = config.peopleEmails.filter(email => email.trim());
+  if (config.notifyPeople && peopleEmails.length > 0) {
+    const sender = getVisibleSender(assignment, 'people', anonymity, users);
+    messages.push(renderMessage('peopleDigest', config.templates.peopleDigest, peopleEmails, assignment, recipient, sender));
+  }
+
+  if (messages.length === 0) return null;
+  return sendEmails(config, messages);
+};
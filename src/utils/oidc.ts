@@ -0,0 +1,191 @@
+import { OidcConfig, User } from '../types';
+import { storage, getStorageBackend, signInStorage } from './storage';
+import { randomBase64Url, toBase64Url } from './encoding';
+import { verifyJwtSignature } from './jwt';
+import { exchangeIdToken } from './auth';
+import { applyIdentityProfile } from './directory';
+import { getClaimValues, resolveIdentityRole } from './roleMapping';
+
+// Kept in sessionStorage between the redirect to the identity provider and the callback
+const PENDING_LOGIN_KEY = 'promipoints_oidc_pending';
+const CLOCK_SKEW_S = 60;
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+type IdTokenClaims = Record<string, unknown> & {
+  iss: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+};
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const encoder = new TextEncoder();
+
+const trimSlash = (url: string) => url.replace(/\/$/, '');
+
+export const getRedirectUri = () => `${window.location.origin}${window.location.pathname}`;
+
+const fetchDiscovery = async (issuer: string): Promise<DiscoveryDocument> => {
+  let response: Response;
+  try {
+    response = await fetch(`${trimSlash(issuer)}/.well-known/openid-configuration`);
+  } catch {
+    throw new OidcError('No se pudo contactar al proveedor de identidad');
+  }
+  if (!response.ok) {
+    throw new OidcError(`El proveedor de identidad respondió ${response.status} al leer su configuración`);
+  }
+
+  const discovery: DiscoveryDocument = await response.json();
+  if (trimSlash(discovery.issuer) !== trimSlash(issuer)) {
+    throw new OidcError('El emisor del proveedor no coincide con el configurado');
+  }
+  return discovery;
+};
+
+// Redirects the browser to the identity provider
+export const startOidcLogin = async (config: OidcConfig): Promise<void> => {
+  const discovery = await fetchDiscovery(config.issuer);
+  const pending: PendingLogin = {
+    state: randomBase64Url(16),
+    nonce: randomBase64Url(16),
+    codeVerifier: randomBase64Url(32),
+    redirectUri: getRedirectUri(),
+  };
+  sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+  const challenge = await crypto.subtle.digest('SHA-256', encoder.encode(pending.codeVerifier));
+  const scopes = new Set(['openid', ...config.scopes.split(/\s+/).filter(Boolean)]);
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', pending.redirectUri);
+  url.searchParams.set('scope', Array.from(scopes).join(' '));
+  url.searchParams.set('state', pending.state);
+  url.searchParams.set('nonce', pending.nonce);
+  url.searchParams.set('code_challenge', toBase64Url(new Uint8Array(challenge)));
+  url.searchParams.set('code_challenge_method', 'S256');
+  window.location.assign(url.toString());
+};
+
+// True when the current URL is the provider's redirect back to us
+export const hasOidcCallback = (): boolean => {
+  const params = new URLSearchParams(window.location.search);
+  return params.has('state') && (params.has('code') || params.has('error')) && !!sessionStorage.getItem(PENDING_LOGIN_KEY);
+};
+
+const verifyIdToken = async (
+  idToken: string,
+  discovery: DiscoveryDocument,
+  clientId: string,
+  nonce: string
+): Promise<IdTokenClaims> => {
+  const verification = await verifyJwtSignature(idToken, discovery.jwks_uri);
+  if (!verification.ok) {
+    throw new OidcError(
+      {
+        format: 'El id_token no tiene un formato válido',
+        algorithm: `Algoritmo de firma no soportado: ${verification.detail}`,
+        key: 'No se encontró la llave pública del id_token',
+        signature: 'La firma del id_token no es válida',
+      }[verification.reason]
+    );
+  }
+
+  const claims = verification.claims as IdTokenClaims;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (trimSlash(claims.iss) !== trimSlash(discovery.issuer)) throw new OidcError('El id_token fue emitido por otro proveedor');
+  if (!audiences.includes(clientId)) throw new OidcError('El id_token no está dirigido a esta aplicación');
+  if (claims.exp + CLOCK_SKEW_S < Date.now() / 1000) throw new OidcError('El id_token venció');
+  if (claims.nonce !== nonce) throw new OidcError('El nonce del id_token no coincide');
+  return claims;
+};
+
+const getEmailClaim = (claims: IdTokenClaims): string => {
+  const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : '';
+  if (!email) throw new OidcError('El proveedor de identidad no envió el claim "email"');
+  return email;
+};
+
+// Maps the `email` claim onto the directory, updating department and role from the claims. With the http
+// backend the API server already applied them when it accepted the id_token, so nothing changes here.
+const resolveUser = async (claims: IdTokenClaims, config: OidcConfig): Promise<User> => {
+  const email = getEmailClaim(claims);
+  const users = storage.getUsers();
+  const user = users.find(u => u.email.toLowerCase() === email);
+  if (!user) {
+    throw new OidcError('Usuario no encontrado en la nómina. Contacta a People & Culture para obtener acceso.');
+  }
+  if (user.active === false) {
+    throw new OidcError('Tu usuario está desactivado. Contacta a People & Culture para recuperar el acceso.');
+  }
+
+  const department = config.departmentClaim ? claims[config.departmentClaim] : undefined;
+  const groups = config.roleClaim ? getClaimValues(claims[config.roleClaim]) : [];
+  const role = resolveIdentityRole(user, groups, config, users);
+
+  return applyIdentityProfile(user, { department: typeof department === 'string' ? department : undefined, role });
+};
+
+// Handles the provider's redirect: checks state, exchanges the code with PKCE and validates the id_token.
+// The id_token is then traded for a login assertion of the API server (see utils/auth.ts).
+export const completeOidcLogin = async (config: OidcConfig): Promise<{ user: User; assertion: string | null }> => {
+  const params = new URLSearchParams(window.location.search);
+  const pending: PendingLogin = JSON.parse(sessionStorage.getItem(PENDING_LOGIN_KEY) || '{}');
+  sessionStorage.removeItem(PENDING_LOGIN_KEY);
+  window.history.replaceState(null, '', pending.redirectUri || getRedirectUri());
+
+  if (params.get('error')) {
+    throw new OidcError(`El proveedor rechazó el inicio de sesión: ${params.get('error_description') || params.get('error')}`);
+  }
+  if (!pending.state || params.get('state') !== pending.state) {
+    throw new OidcError('La respuesta del proveedor no corresponde a este inicio de sesión');
+  }
+
+  const discovery = await fetchDiscovery(config.issuer);
+  const response = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.get('code') || '',
+      redirect_uri: pending.redirectUri,
+      client_id: config.clientId,
+      code_verifier: pending.codeVerifier,
+    }),
+  });
+  const tokens = await response.json().catch(() => ({}));
+  if (!response.ok || !tokens.id_token) {
+    throw new OidcError(`No se pudo completar el inicio de sesión: ${tokens.error_description || tokens.error || response.status}`);
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, discovery, config.clientId, pending.nonce);
+  const assertion = await exchangeIdToken(tokens.id_token, getEmailClaim(claims));
+  // The http backend only serves the directory to signed-in users
+  if (assertion) {
+    await signInStorage(assertion);
+  } else if (getStorageBackend() === 'http') {
+    throw new OidcError('El servidor no aceptó el inicio de sesión con SSO. Intenta de nuevo más tarde.');
+  }
+  return { user: await resolveUser(claims, config), assertion };
+};
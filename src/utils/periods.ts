@@ -0,0 +1,120 @@
+import { PointAssignment } from '../types';
+
+export type PeriodKind = 'month' | 'quarter' | 'range';
+
+// Reporting period. Months and quarters follow the ledger month of each assignment; a custom
+// range filters by the day the points were given.
+export interface ReportPeriod {
+  kind: PeriodKind;
+  start: string; // 'YYYY-MM' (mes), 'YYYY-Qn' (trimestre) o 'YYYY-MM-DD' (inicio del rango)
+  end?: string; // 'YYYY-MM-DD', fin del rango (incluido)
+}
+
+const toMonth = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const toDay = (date: Date) => `${toMonth(date)}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1);
+};
+
+const parseDay = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+// Every month from `from` to `to`, both included
+const monthsBetween = (from: string, to: string): string[] => {
+  const months: string[] = [];
+  for (let date = parseMonth(from); toMonth(date) <= to; date.setMonth(date.getMonth() + 1)) {
+    months.push(toMonth(date));
+  }
+  return months;
+};
+
+// Today as 'YYYY-MM-DD', in local time
+export const getToday = (): string => toDay(new Date());
+
+export const monthPeriod = (month: string): ReportPeriod => ({ kind: 'month', start: month });
+
+export const getQuarter = (month: string): string => {
+  const date = parseMonth(month);
+  return `${date.getFullYear()}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+};
+
+const quarterMonths = (quarter: string): string[] => {
+  const [year, q] = quarter.split('-Q').map(Number);
+  const first = toMonth(new Date(year, (q - 1) * 3, 1));
+  return monthsBetween(first, toMonth(new Date(year, q * 3 - 1, 1)));
+};
+
+// Ledger months the period touches, used for allotments and balances
+export const getPeriodMonths = (period: ReportPeriod): string[] => {
+  if (period.kind === 'month') return [period.start];
+  if (period.kind === 'quarter') return quarterMonths(period.start);
+  return monthsBetween(period.start.slice(0, 7), (period.end ?? period.start).slice(0, 7));
+};
+
+export const isInPeriod = (assignment: PointAssignment, period: ReportPeriod): boolean => {
+  if (period.kind !== 'range') return getPeriodMonths(period).includes(assignment.month);
+  const from = parseDay(period.start).getTime();
+  const to = parseDay(period.end ?? period.start);
+  to.setDate(to.getDate() + 1);
+  return assignment.timestamp >= from && assignment.timestamp < to.getTime();
+};
+
+// The period of the same length right before `period`: the previous month, the previous quarter, or as
+// many days as the range ending the day before it starts
+export const getPreviousPeriod = (period: ReportPeriod): ReportPeriod => {
+  if (period.kind === 'month') {
+    const date = parseMonth(period.start);
+    date.setMonth(date.getMonth() - 1);
+    return monthPeriod(toMonth(date));
+  }
+  if (period.kind === 'quarter') {
+    const [first] = quarterMonths(period.start);
+    const date = parseMonth(first);
+    date.setMonth(date.getMonth() - 3);
+    return { kind: 'quarter', start: getQuarter(toMonth(date)) };
+  }
+  const start = parseDay(period.start);
+  const end = parseDay(period.end ?? period.start);
+  const days = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+  const previousEnd = new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1);
+  const previousStart = new Date(start.getFullYear(), start.getMonth(), start.getDate() - days);
+  return { kind: 'range', start: toDay(previousStart), end: toDay(previousEnd) };
+};
+
+// The `count` months ending with `lastMonth`, oldest first
+export const getTrailingMonths = (lastMonth: string, count: number): string[] => {
+  const date = parseMonth(lastMonth);
+  date.setMonth(date.getMonth() - (count - 1));
+  return monthsBetween(toMonth(date), lastMonth);
+};
+
+const formatMonth = (month: string) =>
+  parseMonth(month).toLocaleDateString('es-MX', { month: 'long', year: 'numeric' });
+
+// "oct 26", for chart axes
+export const formatShortMonth = (month: string): string =>
+  parseMonth(month).toLocaleDateString('es-MX', { month: 'short', year: '2-digit' });
+
+// "octubre de 2026", "T3 2026", "1 sept 2026 – 15 oct 2026"
+export const describePeriod = (period: ReportPeriod): string => {
+  if (period.kind === 'month') return formatMonth(period.start);
+  if (period.kind === 'quarter') return period.start.replace(/^(\d{4})-Q(\d)$/, 'T$2 $1');
+  const format = (day: string) =>
+    parseDay(day).toLocaleDateString('es-MX', { day: 'numeric', month: 'short', year: 'numeric' });
+  return `${format(period.start)} – ${format(period.end ?? period.start)}`;
+};
+
+// For file names: 2026-10, 2026-Q3 or 2026-09-01_2026-10-15
+export const getPeriodSlug = (period: ReportPeriod): string =>
+  period.kind === 'range' ? `${period.start}_${period.end ?? period.start}` : period.start;
+
+// Months that can be reported on, newest first: from the first assignment up to `currentMonth`
+export const getAvailableMonths = (assignments: PointAssignment[], currentMonth: string): string[] => {
+  const first = assignments.reduce((min, a) => (a.month < min ? a.month : min), currentMonth);
+  return monthsBetween(first, currentMonth).reverse();
+};
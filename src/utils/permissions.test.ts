@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { SystemConfig, User } from '../types';
+import { storage } from './storage';
+import { replaceDepartmentName } from './departments';
+import { PermissionError, assertConfigChange, isLastActiveSuperadmin } from './permissions';
+
+const user = (role: User['role'], overrides: Partial<User> = {}): User => ({
+  id: role,
+  name: role,
+  email: `${role}@grupoprominente.com`,
+  role,
+  department: 'Ventas',
+  ...overrides,
+});
+
+// The defaults, with a department that has its own budget and login domain
+const base = (): SystemConfig => {
+  const config = storage.getSystemConfig();
+  return {
+    ...config,
+    departments: [{ id: 'ventas', name: 'Ventas' }, { id: 'marketing', name: 'Marketing' }],
+    budget: { ...config.budget, byDepartment: { Ventas: 20 } },
+    loginDomains: [{ domain: 'grupoprominente.com', defaultDepartment: 'Ventas' }],
+    roles: [{ id: 'mail', name: 'Comunicación', permissions: ['configureEmail'] }],
+  };
+};
+
+describe('assertConfigChange', () => {
+  it('lets anyone save a config without changes', () => {
+    expect(() => assertConfigChange(user('employee'), base(), base())).not.toThrow();
+  });
+
+  it('checks the permission of each changed section', () => {
+    const current = base();
+    const departments = { ...current, departments: [...current.departments, { id: 'rh', name: 'RH' }] };
+    const budget = { ...current, budget: { ...current.budget, defaultPoints: 15 } };
+
+    expect(() => assertConfigChange(user('people'), current, departments)).not.toThrow();
+    expect(() => assertConfigChange(user('people'), current, budget)).toThrow(PermissionError);
+    expect(() => assertConfigChange(user('superadmin'), current, budget)).not.toThrow();
+    expect(() => assertConfigChange(undefined, current, departments)).toThrow(PermissionError);
+  });
+
+  it('uses the permissions of a custom role instead of the People & Culture ones', () => {
+    const current = base();
+    const analyst = user('people', { customRoleId: 'mail' });
+    const email = { ...current, emailNotifications: { ...current.emailNotifications, enabled: true } };
+    const departments = { ...current, departments: [] };
+
+    expect(() => assertConfigChange(analyst, current, email)).not.toThrow();
+    expect(() => assertConfigChange(analyst, current, departments)).toThrow(PermissionError);
+  });
+
+  it('leaves the roles to active superadmins', () => {
+    const current = base();
+    const roles = { ...current, roles: [] };
+
+    expect(() => assertConfigChange(user('superadmin'), current, roles)).not.toThrow();
+    expect(() => assertConfigChange(user('people', { customRoleId: 'mail' }), current, roles)).toThrow(
+      'Solo un SuperAdmin puede administrar los roles'
+    );
+    expect(() => assertConfigChange(user('superadmin', { active: false }), current, roles)).toThrow();
+  });
+
+  it('lets a department rename carry its budget and login domains along', () => {
+    const current = base();
+    const renamed = replaceDepartmentName(
+      { ...current, departments: [{ id: 'ventas', name: 'Comercial' }, current.departments[1]] },
+      [],
+      'Ventas',
+      'Comercial'
+    ).config;
+
+    expect(() => assertConfigChange(user('people'), current, renamed)).toThrow(PermissionError);
+    expect(() =>
+      assertConfigChange(user('people'), current, renamed, [{ from: 'Ventas', to: 'Comercial' }])
+    ).not.toThrow();
+  });
+
+  it('does not let a rename cover other budget changes', () => {
+    const current = base();
+    const renamed = replaceDepartmentName(
+      { ...current, departments: [{ id: 'ventas', name: 'Comercial' }, current.departments[1]] },
+      [],
+      'Ventas',
+      'Comercial'
+    ).config;
+    const raised = { ...renamed, budget: { ...renamed.budget, byDepartment: { Comercial: 50 } } };
+    const notRenamed = { ...current, budget: { ...current.budget, byDepartment: { Marketing: 20 } } };
+
+    expect(() => assertConfigChange(user('people'), current, raised, [{ from: 'Ventas', to: 'Comercial' }])).toThrow(
+      PermissionError
+    );
+    expect(() =>
+      assertConfigChange(user('people'), current, notRenamed, [{ from: 'Ventas', to: 'Marketing' }])
+    ).toThrow('El catálogo no refleja el cambio de Ventas a Marketing');
+  });
+});
+
+describe('isLastActiveSuperadmin', () => {
+  it('ignores inactive superadmins and other roles', () => {
+    const users = [user('superadmin', { id: 'ana' }), user('superadmin', { id: 'eva', active: false }), user('people')];
+
+    expect(isLastActiveSuperadmin(users, 'ana')).toBe(true);
+    expect(isLastActiveSuperadmin([...users, user('superadmin', { id: 'luis' })], 'ana')).toBe(false);
+  });
+});
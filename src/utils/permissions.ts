@@ -0,0 +1,125 @@
+import { User, Permission, CustomRole, SystemConfig } from '../types';
+import { DepartmentRename, departmentKey, findDepartment, replaceDepartmentName } from './departments';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  viewReports: 'Ver reportes y analíticas',
+  exportData: 'Exportar datos',
+  manageUsers: 'Administrar colaboradores y departamentos',
+  editCategories: 'Editar categorías',
+  resetPoints: 'Resetear y conciliar puntos',
+  configureEmail: 'Configurar emails',
+  configureSystem: 'Configurar presupuesto, tutorial e inicio de sesión',
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+// Built-in roles. People & Culture keeps what it could do before roles were configurable;
+// superadmins can always do everything, so nobody can lock themselves out of the settings.
+export const ROLE_PERMISSIONS: Record<User['role'], Permission[]> = {
+  employee: [],
+  people: ['viewReports', 'exportData', 'manageUsers'],
+  superadmin: ALL_PERMISSIONS,
+};
+
+// True when nobody but `userId` is an active superadmin. Shared with the SCIM server, which must not
+// leave the directory without one either.
+export const isLastActiveSuperadmin = (users: User[], userId: string) =>
+  !users.some(u => u.id !== userId && u.role === 'superadmin' && u.active !== false);
+
+// Only a superadmin can grant, change or revoke the superadmin role
+export const canManageRole = (actor: User, target: Pick<User, 'role'>) =>
+  actor.role === 'superadmin' || target.role !== 'superadmin';
+
+// Nobody can hand out a role with permissions they do not have themselves
+export const canGrantPermissions = (actor: User, target: Pick<User, 'role' | 'customRoleId'>, roles: CustomRole[]) => {
+  // The target's own custom role or none: never the actor's, when the target does not name one
+  const { role, customRoleId } = target;
+  const granted = resolvePermissions({ ...actor, role, customRoleId, active: true }, roles);
+  const own = resolvePermissions(actor, roles);
+  return granted.every(permission => own.includes(permission));
+};
+
+// First reason why `actor` may not turn `existing` into `next` (a new user without `existing`), or null.
+// Shared by the directory screens, the roster import and the API server.
+export const checkUserChange = (
+  actor: User,
+  roles: CustomRole[],
+  next: Pick<User, 'role' | 'customRoleId'>,
+  existing?: Pick<User, 'role' | 'customRoleId'>
+): string | null => {
+  if (!canManageRole(actor, next) || (existing && !canManageRole(actor, existing))) {
+    return 'Solo un SuperAdmin puede administrar usuarios SuperAdmin';
+  }
+  if (!canGrantPermissions(actor, next, roles) || (existing && !canGrantPermissions(actor, existing, roles))) {
+    return 'No puedes asignar un rol con más permisos que los tuyos';
+  }
+  return null;
+};
+
+export class PermissionError extends Error {
+  permission: Permission;
+
+  constructor(permission: Permission) {
+    super(`No tienes permiso para esta acción (${PERMISSION_LABELS[permission]})`);
+    this.name = 'PermissionError';
+    this.permission = permission;
+  }
+}
+
+// A custom role replaces the permissions of the People & Culture role it is assigned on top of
+export const resolvePermissions = (user: User | undefined, roles: CustomRole[]): Permission[] => {
+  if (!user || user.active === false) return [];
+  if (user.role === 'superadmin') return ROLE_PERMISSIONS.superadmin;
+  const customRole = user.role === 'people' ? roles.find(r => r.id === user.customRoleId) : undefined;
+  return customRole ? customRole.permissions : ROLE_PERMISSIONS[user.role];
+};
+
+export const hasPermission = (user: User | undefined, permission: Permission, roles: CustomRole[]): boolean =>
+  resolvePermissions(user, roles).includes(permission);
+
+export const assertPermission = (user: User | undefined, permission: Permission, roles: CustomRole[]) => {
+  if (!hasPermission(user, permission, roles)) throw new PermissionError(permission);
+};
+
+// Permission needed to change each section of the system config. Roles are left out: only
+// superadmins define them, so nobody can grant themselves more than they have.
+const CONFIG_SECTION_PERMISSIONS: Record<Exclude<keyof SystemConfig, 'roles'>, Permission> = {
+  categories: 'editCategories',
+  emailNotifications: 'configureEmail',
+  departments: 'manageUsers',
+  budget: 'configureSystem',
+  rollover: 'configureSystem',
+  anonymity: 'configureSystem',
+  onboardingSteps: 'configureSystem',
+  loginContent: 'configureSystem',
+  loginDomains: 'configureSystem',
+  oidc: 'configureSystem',
+};
+
+// Throws unless `actor` may make every change between `current` and `next`. Budgets and login domains that
+// only follow a department renamed or merged in `renames` are part of managing departments.
+export const assertConfigChange = (
+  actor: User | undefined,
+  current: SystemConfig,
+  next: SystemConfig,
+  renames: DepartmentRename[] = []
+) => {
+  renames.forEach(({ from, to }) => {
+    const replaced = departmentKey(from) === departmentKey(to) || !findDepartment(next.departments, from);
+    if (!replaced || !findDepartment(next.departments, to)) {
+      throw new Error(`El catálogo no refleja el cambio de ${from} a ${to}`);
+    }
+  });
+  const baseline = renames.reduce((config, { from, to }) => replaceDepartmentName(config, [], from, to).config, current);
+
+  const changed = (Object.keys(next) as (keyof SystemConfig)[]).filter(
+    section => JSON.stringify(baseline[section]) !== JSON.stringify(next[section])
+  );
+  changed.forEach(section => {
+    if (section !== 'roles') {
+      assertPermission(actor, CONFIG_SECTION_PERMISSIONS[section], current.roles);
+    } else if (actor?.role !== 'superadmin' || actor.active === false) {
+      throw new Error('Solo un SuperAdmin puede administrar los roles');
+    }
+  });
+};
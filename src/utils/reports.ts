@@ -0,0 +1,134 @@
+import { User, PointAssignment, Department } from '../types';
+import { storage, getCurrentMonth } from './storage';
+import { getAllottedPoints, getCarriedOverPoints, getAnonymousGivenPoints } from './ledger';
+import { findDepartment } from './departments';
+import { isActiveUser } from './directory';
+
+export interface UserReportRow {
+  userId: string;
+  name: string;
+  email: string;
+  department: string;
+  pointsReceived: number;
+  recognitionCount: number;
+  pointsGiven: number;
+  pointsAllotted: number;
+  pointsCarriedOver: number;
+  categoryBreakdown: Record<string, number>;
+}
+
+export interface CategoryTotal {
+  name: string;
+  value: number;
+}
+
+export interface DepartmentTotal {
+  department: string;
+  points: number;
+}
+
+export interface ReportSummary {
+  collaborators: number;
+  activeUsers: number; // Gave points at least once in the period
+  participationRate: number; // 0-100
+  pointsCirculating: number;
+  avgPointsPerUser: number;
+}
+
+export interface MonthlyTrendPoint extends ReportSummary {
+  month: string;
+  recognitions: number;
+  categories: Record<string, number>;
+}
+
+const sumByCategory = (assignments: PointAssignment[]) =>
+  assignments.reduce((acc, a) => {
+    acc[a.category] = (acc[a.category] || 0) + a.points;
+    return acc;
+  }, {} as Record<string, number>);
+
+// Deactivated users only count in a period while they have activity in it
+export const selectReportUsers = (users: User[], assignments: PointAssignment[]): User[] =>
+  users.filter(u => isActiveUser(u) || assignments.some(a => a.toUserId === u.id || a.fromUserId === u.id));
+
+// Points received and given by each user over `months`; `assignments` must already be limited to the period.
+// Allotments add up across the months, and only the rollover into the first month counts as carried over.
+// Fully anonymous recognitions only leave a monthly total per sender, so a date range counts whole months of them.
+export const buildUserReport = (users: User[], assignments: PointAssignment[], months: string[]): UserReportRow[] => {
+  const currentMonth = getCurrentMonth();
+  return users.map(u => {
+    const received = assignments.filter(a => a.toUserId === u.id);
+    const given = assignments.filter(a => a.fromUserId === u.id);
+    const allocations = months.map(month => ({ month, allocation: storage.getUserAllocation(u.id, month) }));
+
+    return {
+      userId: u.id,
+      name: u.name,
+      email: u.email,
+      department: u.department,
+      pointsReceived: received.reduce((sum, a) => sum + a.points, 0),
+      recognitionCount: received.length,
+      pointsGiven:
+        given.reduce((sum, a) => sum + a.points, 0) +
+        allocations.reduce((sum, { allocation }) => sum + getAnonymousGivenPoints(allocation), 0),
+      // A past month without an allocation had nothing to give
+      pointsAllotted: allocations.reduce(
+        (sum, { month, allocation }) =>
+          sum +
+          (allocation
+            ? getAllottedPoints(allocation)
+            : month === currentMonth
+              ? storage.getMonthlyBudget(u.id)
+              : 0),
+        0
+      ),
+      pointsCarriedOver: getCarriedOverPoints(allocations[0]?.allocation),
+      categoryBreakdown: sumByCategory(received),
+    };
+  });
+};
+
+export const summarizeReport = (rows: UserReportRow[]): ReportSummary => {
+  const pointsCirculating = rows.reduce((sum, r) => sum + r.pointsReceived, 0);
+  const activeUsers = rows.filter(r => r.pointsGiven > 0).length;
+  return {
+    collaborators: rows.length,
+    activeUsers,
+    participationRate: rows.length > 0 ? (activeUsers / rows.length) * 100 : 0,
+    pointsCirculating,
+    avgPointsPerUser: rows.length > 0 ? pointsCirculating / rows.length : 0,
+  };
+};
+
+// One summary per ledger month, oldest first, for the trend charts
+export const buildMonthlyTrend = (
+  users: User[],
+  assignments: PointAssignment[],
+  months: string[]
+): MonthlyTrendPoint[] =>
+  months.map(month => {
+    const monthAssignments = assignments.filter(a => a.month === month);
+    const rows = buildUserReport(selectReportUsers(users, monthAssignments), monthAssignments, [month]);
+    return {
+      month,
+      ...summarizeReport(rows),
+      recognitions: monthAssignments.length,
+      categories: sumByCategory(monthAssignments),
+    };
+  });
+
+export const buildCategoryTotals = (assignments: PointAssignment[]): CategoryTotal[] =>
+  Object.entries(sumByCategory(assignments)).map(([name, value]) => ({ name, value }));
+
+// Points given per catalogue department, including departments without activity. Spelling variants
+// count towards their catalogue entry; departments missing from the catalogue keep their own bar.
+export const buildDepartmentTotals = (rows: UserReportRow[], departments: Department[]): DepartmentTotal[] => {
+  const totals = new Map(departments.map(d => [d.name, 0]));
+  rows.forEach(r => {
+    const name = findDepartment(departments, r.department)?.name ?? r.department;
+    totals.set(name, (totals.get(name) || 0) + r.pointsGiven);
+  });
+  return Array.from(totals, ([department, points]) => ({ department, points })).sort((a, b) =>
+    a.department.localeCompare(b.department)
+  );
+};
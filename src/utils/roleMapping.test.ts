@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { OidcConfig, User } from '../types';
+import { resolveIdentityRole } from './roleMapping';
+
+const user = (id: string, role: User['role'], overrides: Partial<User> = {}): User => ({
+  id,
+  name: id,
+  email: `${id}@grupoprominente.com`,
+  role,
+  department: 'Ventas',
+  ...overrides,
+});
+
+const oidc: Pick<OidcConfig, 'roleClaim' | 'roleMapping'> = {
+  roleClaim: 'groups',
+  roleMapping: [
+    { claimValue: 'promipoints-admins', role: 'superadmin' },
+    { claimValue: 'people-culture', role: 'people' },
+  ],
+};
+
+describe('resolveIdentityRole', () => {
+  const admins = [user('admin', 'superadmin'), user('root', 'superadmin')];
+
+  it('gives the highest role of the mapped groups', () => {
+    const ana = user('ana', 'employee');
+
+    expect(resolveIdentityRole(ana, ['people-culture'], oidc, [ana, ...admins])).toBe('people');
+    expect(resolveIdentityRole(ana, ['people-culture', 'promipoints-admins'], oidc, [ana, ...admins])).toBe('superadmin');
+  });
+
+  it('demotes to employee someone removed from every mapped group', () => {
+    const luis = user('luis', 'people');
+
+    expect(resolveIdentityRole(luis, ['ventas'], oidc, [luis, ...admins])).toBe('employee');
+    expect(resolveIdentityRole(admins[0], [], oidc, admins)).toBe('employee');
+  });
+
+  it('never demotes the last active superadmin', () => {
+    const admin = user('admin', 'superadmin');
+    const users = [admin, user('root', 'superadmin', { active: false })];
+
+    expect(resolveIdentityRole(admin, [], oidc, users)).toBe('superadmin');
+  });
+
+  it('keeps the directory role when no role claim is configured', () => {
+    const luis = user('luis', 'people');
+
+    expect(resolveIdentityRole(luis, [], { ...oidc, roleClaim: '' }, [luis])).toBe('people');
+    expect(resolveIdentityRole(luis, ['promipoints-admins'], undefined, [luis])).toBe('people');
+  });
+});
@@ -0,0 +1,29 @@
+import { OidcConfig, User } from '../types';
+import { isLastActiveSuperadmin } from './permissions';
+
+// Highest privilege first: when several mappings match, the first of these wins
+export const ROLE_PRIORITY: User['role'][] = ['superadmin', 'people', 'employee'];
+
+// Values of a groups claim, sent as an array or as a space- or comma-separated string
+export const getClaimValues = (claim: unknown): string[] => {
+  if (Array.isArray(claim)) return claim.map(String);
+  return typeof claim === 'string' ? claim.split(/[\s,]+/).filter(Boolean) : [];
+};
+
+// Role that the identity provider's groups give `user` through the SSO role mapping, for the SSO login (role
+// claim) and SCIM provisioning (groups) alike. Without a role claim, roles are managed by hand and the directory
+// role is kept; with one, a user in no mapped group is an employee. The last active superadmin is never demoted,
+// so a change in the IdP groups cannot lock everyone out of the settings.
+export const resolveIdentityRole = (
+  user: User,
+  groups: string[],
+  oidc: Pick<OidcConfig, 'roleClaim' | 'roleMapping'> | undefined,
+  users: User[]
+): User['role'] => {
+  if (!oidc?.roleClaim) return user.role;
+
+  const mapped = oidc.roleMapping.filter(m => groups.includes(m.claimValue)).map(m => m.role);
+  const role = ROLE_PRIORITY.find(r => mapped.includes(r)) ?? 'employee';
+  const keepsSuperadmin = user.role === 'superadmin' && user.active !== false && isLastActiveSuperadmin(users, user.id);
+  return keepsSuperadmin ? user.role : role;
+};
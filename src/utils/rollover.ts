@@ -0,0 +1,43 @@
+import { RolloverPolicy } from '../types';
+
+export const ROLLOVER_PLACEHOLDER = '{acumulacion}';
+
+export const getPreviousMonth = (month: string): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const date = new Date(year, monthNumber - 2, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Points carried into the next month out of `unusedPoints`
+export const computeRollover = (unusedPoints: number, policy: RolloverPolicy): number => {
+  const unused = Math.max(0, unusedPoints);
+  switch (policy.mode) {
+    case 'full':
+      return unused;
+    case 'capped':
+      return Math.min(unused, Math.max(0, policy.cap));
+    case 'percentage':
+      return Math.floor((unused * Math.min(100, Math.max(0, policy.percentage))) / 100);
+    case 'none':
+    default:
+      return 0;
+  }
+};
+
+// Sentence used in the onboarding copy
+export const describeRolloverPolicy = (policy: RolloverPolicy): string => {
+  switch (policy.mode) {
+    case 'full':
+      return 'Los puntos no utilizados se acumulan para el mes siguiente.';
+    case 'capped':
+      return `Hasta ${policy.cap} puntos no utilizados se acumulan para el mes siguiente; el resto expira.`;
+    case 'percentage':
+      return `El ${policy.percentage}% de los puntos no utilizados se acumula para el mes siguiente; el resto expira.`;
+    case 'none':
+    default:
+      return 'Los puntos no utilizados expiran al final del mes.';
+  }
+};
+
+export const applyRolloverPlaceholder = (text: string, policy: RolloverPolicy): string =>
+  text.split(ROLLOVER_PLACEHOLDER).join(describeRolloverPolicy(policy));
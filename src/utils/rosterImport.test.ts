@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { User } from '../types';
+import { storage, initStorage } from './storage';
+import { buildRosterPreview, applyRosterImport, ColumnMapping, RosterSheet } from './rosterImport';
+
+const user = (id: string, role: User['role'], overrides: Partial<User> = {}): User => ({
+  id,
+  name: id,
+  email: `${id}@grupoprominente.com`,
+  role,
+  department: 'Ventas',
+  active: true,
+  ...overrides,
+});
+
+// People & Culture with a custom role that only manages users, below the default People permissions
+const RECRUITER = user('recruiter', 'people', { customRoleId: 'altas' });
+const USERS = [user('admin', 'superadmin'), RECRUITER, user('luis', 'people'), user('ana', 'employee')];
+
+const mapping: ColumnMapping = { name: 0, email: 1, department: 2, role: 3, manager: null };
+const sheet = (...rows: string[][]): RosterSheet => ({ headers: ['Nombre', 'Correo', 'Departamento', 'Rol'], rows });
+
+// What the browser's localStorage holds
+const stored = new Map<string, string>();
+
+beforeEach(async () => {
+  stored.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => void stored.set(key, value),
+    removeItem: (key: string) => void stored.delete(key),
+  });
+  vi.stubGlobal('window', { addEventListener: () => {}, removeEventListener: () => {} });
+  vi.stubGlobal('navigator', {});
+
+  await initStorage('local');
+  await storage.setUsers(USERS);
+  await storage.setSystemConfig({
+    ...storage.getSystemConfig(),
+    departments: [{ id: 'ventas', name: 'Ventas' }],
+    roles: [{ id: 'altas', name: 'Altas', permissions: ['manageUsers'] }],
+  });
+});
+
+describe('buildRosterPreview', () => {
+  it('refuses rows that grant more permissions than the importer has', () => {
+    const preview = buildRosterPreview(
+      sheet(
+        ['Eva', 'eva@grupoprominente.com', 'Ventas', 'Colaborador'],
+        ['Sofía', 'sofia@grupoprominente.com', 'Ventas', 'People & Culture'],
+        ['Ana', 'ana@grupoprominente.com', 'Ventas', 'People & Culture'],
+        ['Root', 'root@grupoprominente.com', 'Ventas', 'SuperAdmin']
+      ),
+      mapping,
+      RECRUITER,
+      false
+    );
+
+    expect(preview.rows.map(r => r.status)).toEqual(['create', 'error', 'error', 'error']);
+    expect(preview.rows[1].errors).toEqual(['No puedes asignar un rol con más permisos que los tuyos']);
+    expect(preview.rows[3].errors).toEqual(['Solo un SuperAdmin puede administrar usuarios SuperAdmin']);
+  });
+
+  it('does not touch users the importer could not edit by hand', () => {
+    const preview = buildRosterPreview(
+      sheet(['Luis', 'luis@grupoprominente.com', 'Ventas', 'Colaborador']),
+      mapping,
+      RECRUITER,
+      true
+    );
+
+    expect(preview.rows[0].errors).toEqual(['No puedes asignar un rol con más permisos que los tuyos']);
+    expect(preview.toDeactivate.map(u => u.id)).toEqual(['ana']);
+  });
+
+  it('drops the custom role of someone who leaves People & Culture', () => {
+    const preview = buildRosterPreview(
+      sheet(['Recruiter', 'recruiter@grupoprominente.com', 'Ventas', 'Colaborador']),
+      mapping,
+      USERS[0],
+      false
+    );
+
+    expect(preview.rows[0].user).toMatchObject({ role: 'employee', customRoleId: undefined });
+  });
+});
+
+describe('applyRosterImport', () => {
+  it('checks the roles again against the latest directory', async () => {
+    const preview = buildRosterPreview(
+      sheet(['Ana', 'ana@grupoprominente.com', 'Ventas', 'Colaborador']),
+      mapping,
+      RECRUITER,
+      false
+    );
+    const promoted = USERS.map(u => (u.id === 'ana' ? { ...u, role: 'people' as const } : u));
+    await storage.setUsers(promoted);
+    const changed = { ...preview, rows: preview.rows.map(r => ({ ...r, status: 'update' as const })) };
+
+    await expect(applyRosterImport(changed, RECRUITER)).rejects.toThrow(
+      'ana@grupoprominente.com: No puedes asignar un rol con más permisos que los tuyos'
+    );
+    expect(storage.getUsers().find(u => u.id === 'ana')?.role).toBe('people');
+  });
+});
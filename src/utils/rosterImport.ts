@@ -0,0 +1,284 @@
+import * as XLSX from 'xlsx';
+import { User } from '../types';
+import { storage } from './storage';
+import { createId } from './ids';
+import { findLoginDomain, getDefaultDepartment, describeLoginDomains } from './domains';
+import { ROLE_LABELS, isActiveUser, isValidEmail } from './directory';
+import { wouldCreateCycle } from './hierarchy';
+import { findDepartment } from './departments';
+import { assertPermission, checkUserChange } from './permissions';
+
+export type RosterField = 'name' | 'email' | 'department' | 'role' | 'manager';
+
+// Column index of each field in the file, null when the file has no such column
+export type ColumnMapping = Record<RosterField, number | null>;
+
+export interface RosterSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export type RosterRowStatus = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface RosterRowResult {
+  line: number; // Línea en el archivo (1 es el encabezado)
+  status: RosterRowStatus;
+  user?: User; // Resultado de aplicar la fila
+  email: string;
+  errors: string[];
+}
+
+export interface RosterPreview {
+  rows: RosterRowResult[];
+  toDeactivate: User[];
+}
+
+export interface RosterImportResult {
+  created: number;
+  updated: number;
+  deactivated: number;
+  skipped: number;
+}
+
+export const ROSTER_FIELD_LABELS: Record<RosterField, string> = {
+  name: 'Nombre',
+  email: 'Correo',
+  department: 'Departamento',
+  role: 'Rol',
+  manager: 'Jefe directo (correo)',
+};
+
+export const REQUIRED_ROSTER_FIELDS: RosterField[] = ['name', 'email'];
+
+const HEADER_ALIASES: Record<RosterField, string[]> = {
+  name: ['nombre', 'nombre completo', 'name', 'full name', 'colaborador', 'empleado'],
+  email: ['correo', 'correo electronico', 'email', 'e-mail', 'mail', 'correo corporativo'],
+  department: ['departamento', 'area', 'department', 'depto'],
+  role: ['rol', 'role', 'perfil'],
+  manager: ['jefe', 'jefe directo', 'correo jefe', 'correo del jefe', 'manager', 'manager email', 'supervisor'],
+};
+
+const ROLE_ALIASES: Record<string, User['role']> = {
+  colaborador: 'employee',
+  empleado: 'employee',
+  employee: 'employee',
+  people: 'people',
+  'people & culture': 'people',
+  'people and culture': 'people',
+  rh: 'people',
+  superadmin: 'superadmin',
+};
+
+const normalizeHeader = (value: string) =>
+  value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[_.]+/g, ' ');
+
+// Reads the first sheet of a CSV or Excel file as text cells.
+// CSVs are decoded as UTF-8 first; given raw bytes the parser would read accents as Latin-1.
+export const readRosterFile = async (file: File): Promise<RosterSheet> => {
+  const isCsv = /\.csv$/i.test(file.name) || file.type === 'text/csv';
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('El archivo no contiene hojas');
+
+  const [headers = [], ...rows] = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '' });
+  return {
+    headers: headers.map(h => String(h).trim()),
+    rows: rows.filter(row => row.some(cell => String(cell).trim())).map(row => row.map(cell => String(cell).trim())),
+  };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const find = (field: RosterField) => {
+    const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    return index === -1 ? null : index;
+  };
+  return {
+    name: find('name'),
+    email: find('email'),
+    department: find('department'),
+    role: find('role'),
+    manager: find('manager'),
+  };
+};
+
+const parseRole = (value: string): User['role'] | undefined => {
+  const key = value.trim().toLowerCase();
+  if (ROLE_ALIASES[key]) return ROLE_ALIASES[key];
+  return (Object.keys(ROLE_LABELS) as User['role'][]).find(role => ROLE_LABELS[role].toLowerCase() === key);
+};
+
+const isSameUser = (a: User, b: User) =>
+  a.name === b.name &&
+  a.email === b.email &&
+  a.department === b.department &&
+  a.role === b.role &&
+  a.managerId === b.managerId &&
+  isActiveUser(a) === isActiveUser(b);
+
+// Validates every row against the directory and works out what applying the file would change.
+// Each row passes the same role checks as editing the user by hand (checkUserChange). Users missing
+// from the file are only deactivated when `deactivateMissing` is set; superadmins, the person importing
+// and users the importer could not edit by hand are never deactivated by an import.
+export const buildRosterPreview = (
+  sheet: RosterSheet,
+  mapping: ColumnMapping,
+  actor: User,
+  deactivateMissing: boolean
+): RosterPreview => {
+  const users = storage.getUsers();
+  const { loginDomains, departments, roles } = storage.getSystemConfig();
+  const usersByEmail = new Map(users.map(u => [u.email.toLowerCase(), u]));
+  const seen = new Map<string, number>();
+
+  const cell = (row: string[], field: RosterField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  const rows = sheet.rows.map((row, index): RosterRowResult => {
+    const line = index + 2;
+    const email = cell(row, 'email').toLowerCase();
+    const existing = usersByEmail.get(email);
+    const errors: string[] = [];
+
+    const name = cell(row, 'name');
+    if (!name) errors.push('Falta el nombre');
+
+    if (!isValidEmail(email)) {
+      errors.push('Correo inválido');
+    } else if (seen.has(email)) {
+      errors.push(`Correo duplicado (línea ${seen.get(email)})`);
+    } else {
+      seen.set(email, line);
+    }
+
+    const roleValue = cell(row, 'role');
+    const role = roleValue ? parseRole(roleValue) : existing?.role ?? 'employee';
+    // A custom role only applies to People & Culture, so it is kept while the user stays there
+    const customRoleId = role === 'people' ? existing?.customRoleId : undefined;
+    const permissionError = role ? checkUserChange(actor, roles, { role, customRoleId }, existing) : null;
+    if (!role) {
+      errors.push(`Rol desconocido: "${roleValue}"`);
+    } else if (permissionError) {
+      errors.push(permissionError);
+    } else if (existing?.role === 'superadmin' && role !== 'superadmin') {
+      errors.push('El rol SuperAdmin no se puede retirar por importación');
+    }
+
+    if (email && role !== 'superadmin' && !findLoginDomain(email, loginDomains)) {
+      errors.push(`Dominio no permitido (${describeLoginDomains(loginDomains)})`);
+    }
+
+    const departmentName = cell(row, 'department') || existing?.department || getDefaultDepartment(email, loginDomains);
+    const department = findDepartment(departments, departmentName)?.name ?? '';
+    if (!departmentName) {
+      errors.push('Falta el departamento y el dominio no tiene uno por defecto');
+    } else if (!department) {
+      errors.push(`Departamento fuera del catálogo: "${departmentName}"`);
+    }
+
+    if (errors.length > 0 || !role) {
+      return { line, status: 'error', email, errors };
+    }
+
+    // Being in the payroll file reactivates a user that had been deactivated
+    const user: User = existing
+      ? { ...existing, name, department, role, customRoleId, active: true }
+      : { id: createId(), name, email, department, role, active: true };
+    return { line, status: existing ? 'update' : 'create', user, email, errors };
+  });
+
+  // Managers are resolved once every row has an id, so they can be new users from the same file.
+  // Without a manager column the current manager is kept.
+  if (mapping.manager !== null) {
+    const managersByEmail = new Map(usersByEmail);
+    rows.forEach(r => r.user && managersByEmail.set(r.email, r.user));
+    rows.forEach((r, index) => {
+      if (!r.user) return;
+      const managerEmail = cell(sheet.rows[index], 'manager').toLowerCase();
+      const manager = managerEmail ? managersByEmail.get(managerEmail) : undefined;
+      if (managerEmail && !manager) {
+        r.errors.push(`Jefe directo no encontrado: ${managerEmail}`);
+      } else if (manager?.id === r.user.id) {
+        r.errors.push('Un colaborador no puede ser su propio jefe');
+      } else {
+        r.user = { ...r.user, managerId: manager?.id };
+      }
+    });
+
+    const imported = new Map(rows.flatMap(r => (r.user ? [[r.user.id, r.user] as const] : [])));
+    const result = [...users.filter(u => !imported.has(u.id)), ...imported.values()];
+    rows.forEach(r => {
+      if (r.user?.managerId && r.errors.length === 0 && wouldCreateCycle(result, r.user.id, r.user.managerId)) {
+        r.errors.push('La jerarquía de jefes forma un ciclo');
+      }
+    });
+
+    // A manager created by a row that failed would not exist after the import
+    const notCreated = new Set(
+      rows.filter(r => r.errors.length > 0 && r.user && !usersByEmail.has(r.email)).map(r => r.user!.id)
+    );
+    rows.forEach(r => {
+      if (r.errors.length === 0 && r.user?.managerId && notCreated.has(r.user.managerId)) {
+        r.errors.push('La fila del jefe directo tiene errores');
+      }
+    });
+  }
+
+  rows.forEach(r => {
+    if (r.errors.length > 0) {
+      r.status = 'error';
+      r.user = undefined;
+    } else if (r.status === 'update' && isSameUser(usersByEmail.get(r.email)!, r.user!)) {
+      r.status = 'unchanged';
+    }
+  });
+
+  // Emails of rows with errors still count as present so a typo does not deactivate anyone
+  const inFile = new Set(rows.map(r => r.email));
+  const toDeactivate = deactivateMissing
+    ? users.filter(
+        u =>
+          isActiveUser(u) &&
+          u.role !== 'superadmin' &&
+          u.id !== actor.id &&
+          !inFile.has(u.email.toLowerCase()) &&
+          !checkUserChange(actor, roles, u, u)
+      )
+    : [];
+
+  return { rows, toDeactivate };
+};
+
+// Rows with errors are skipped; everything else is written in a single update of the directory.
+// The role checks run again against the latest directory, in case a user changed since the preview.
+export const applyRosterImport = async (preview: RosterPreview, actor: User): Promise<RosterImportResult> => {
+  const { roles } = storage.getSystemConfig();
+  assertPermission(actor, 'manageUsers', roles);
+  const changes = new Map<string, User>();
+  preview.rows.forEach(row => {
+    if (row.user && (row.status === 'create' || row.status === 'update')) changes.set(row.user.id, row.user);
+  });
+  preview.toDeactivate.forEach(user => changes.set(user.id, { ...user, active: false }));
+
+  let created: User[] = [];
+  await storage.updateUsers(users => {
+    const existing = new Map(users.map(u => [u.id, u]));
+    changes.forEach(change => {
+      const error = checkUserChange(actor, roles, change, existing.get(change.id));
+      if (error) throw new Error(`${change.email}: ${error}`);
+    });
+    created = Array.from(changes.values()).filter(u => !existing.has(u.id));
+    return [...users.map(u => changes.get(u.id) ?? u), ...created];
+  });
+
+  return {
+    created: created.length,
+    updated: preview.rows.filter(r => r.status === 'update').length,
+    deactivated: preview.toDeactivate.length,
+    skipped: preview.rows.filter(r => r.status === 'error').length,
+  };
+};
@@ -0,0 +1,106 @@
+import { appConfig } from '../config';
+import { openDatabase, requestToPromise, SECRETS_STORE_NAME } from './adapters/indexedDB';
+import { getAuthHeaders } from './auth';
+
+export type SecretName = 'smtpPassword';
+
+// SMTP server and user a password belongs to. The server only ever sends it to that host and user.
+export interface SecretBinding {
+  host: string;
+  user?: string;
+}
+
+interface EncryptedSecret {
+  iv: ArrayBuffer;
+  data: ArrayBuffer;
+  binding?: SecretBinding; // Missing in secrets saved before passwords were bound to their host
+}
+
+const matchesBinding = (stored: SecretBinding | undefined, binding: SecretBinding) =>
+  stored?.host === binding.host && (stored.user || '') === (binding.user || '');
+
+const KEY_ID = 'promipoints_secret_key';
+const SESSION_KEY_ID = 'promipoints_session_key';
+
+// With the http backend secrets live only on the server; otherwise they are encrypted in this
+// browser with a non-extractable AES-GCM key, so the raw key can never be read back from devtools.
+export const secretsAreServerSide = () => appConfig.storageBackend === 'http';
+
+const secretsUrl = (name: SecretName) => `${appConfig.apiUrl.replace(/\/$/, '')}/secrets/${name}`;
+
+const getRecord = async <T>(id: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise<T | undefined>(
+    db.transaction(SECRETS_STORE_NAME, 'readonly').objectStore(SECRETS_STORE_NAME).get(id)
+  );
+};
+
+const putRecord = async (id: string, value: unknown) => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(SECRETS_STORE_NAME, 'readwrite').objectStore(SECRETS_STORE_NAME).put(value, id));
+};
+
+const deleteRecord = async (id: string) => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(SECRETS_STORE_NAME, 'readwrite').objectStore(SECRETS_STORE_NAME).delete(id));
+};
+
+const getOrCreateKey = async (id: string, generate: () => Promise<CryptoKey>): Promise<CryptoKey> => {
+  const existing = await getRecord<CryptoKey>(id);
+  if (existing) return existing;
+
+  const key = await generate();
+  await putRecord(id, key);
+  return key;
+};
+
+const getEncryptionKey = () =>
+  getOrCreateKey(KEY_ID, () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']));
+
+// Non-extractable HMAC key that signs the session tokens of this browser
+export const getSessionSigningKey = () =>
+  getOrCreateKey(SESSION_KEY_ID, () => crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']));
+
+const requestSecret = async (name: SecretName, init: RequestInit) => {
+  const response = await fetch(secretsUrl(name), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...init.headers },
+  });
+  if (!response.ok) {
+    throw new Error(`Secret request failed (${response.status}) for ${name}`);
+  }
+  return response;
+};
+
+export const saveSecret = async (name: SecretName, value: string, binding: SecretBinding): Promise<void> => {
+  if (secretsAreServerSide()) {
+    await requestSecret(name, { method: 'PUT', body: JSON.stringify({ value, ...binding }) });
+    return;
+  }
+
+  const key = await getEncryptionKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value));
+  const secret: EncryptedSecret = { iv: iv.buffer, data, binding: { host: binding.host, user: binding.user } };
+  await putRecord(name, secret);
+};
+
+// Plain value for the mail relay, only for the host and user it was saved with, like the server does.
+// Always null for server-side secrets, which the server fills in itself.
+export const readSecret = async (name: SecretName, binding: SecretBinding): Promise<string | null> => {
+  if (secretsAreServerSide()) return null;
+
+  const secret = await getRecord<EncryptedSecret>(name);
+  if (!secret || !matchesBinding(secret.binding, binding)) return null;
+  const key = await getEncryptionKey();
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: secret.iv }, key, secret.data);
+  return new TextDecoder().decode(data);
+};
+
+export const deleteSecret = async (name: SecretName): Promise<void> => {
+  if (secretsAreServerSide()) {
+    await requestSecret(name, { method: 'DELETE' });
+    return;
+  }
+  await deleteRecord(name);
+};
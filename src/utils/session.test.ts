@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Session, User } from '../types';
+import { storage, initStorage } from './storage';
+import { startSession, checkSession, touchSession, endSession } from './session';
+
+// IndexedDB keeps the signing key in the browser; a key of this run is enough here
+vi.mock('./secrets', async importOriginal => {
+  const actual = await importOriginal<typeof import('./secrets')>();
+  const key = crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+  return { ...actual, getSessionSigningKey: () => key };
+});
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+const ANA: User = { id: 'ana', name: 'Ana', email: 'ana@grupoprominente.com', role: 'employee', department: 'Ventas' };
+
+// What the browser's localStorage holds; other tabs write here behind the cache's back
+const stored = new Map<string, string>();
+
+const storedSessions = (): Session[] => JSON.parse(stored.get('promipoints_sessions') || '[]');
+
+let start: number;
+
+beforeEach(async () => {
+  stored.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => void stored.set(key, value),
+    removeItem: (key: string) => void stored.delete(key),
+  });
+  vi.stubGlobal('window', { addEventListener: () => {}, removeEventListener: () => {} });
+  vi.stubGlobal('navigator', {});
+
+  await initStorage('local');
+  await storage.setUsers([ANA]);
+  start = Date.now();
+  await startSession(ANA);
+});
+
+describe('checkSession', () => {
+  it('ends the session 12 hours after login, however active the user was', async () => {
+    for (let elapsed = 20 * MINUTE; elapsed < 12 * HOUR; elapsed += 20 * MINUTE) {
+      await touchSession(start + elapsed);
+    }
+
+    expect(checkSession(start + 12 * HOUR - MINUTE)).toEqual({ user: ANA });
+    expect(checkSession(start + 12 * HOUR + MINUTE)).toEqual({ user: null, reason: 'expired' });
+  });
+
+  it('ends the session after 30 minutes without activity', async () => {
+    expect(checkSession(start + 29 * MINUTE).user).toEqual(ANA);
+    expect(checkSession(start + 31 * MINUTE)).toEqual({ user: null, reason: 'idle' });
+
+    await touchSession(start + 20 * MINUTE);
+    expect(checkSession(start + 45 * MINUTE).user).toEqual(ANA);
+  });
+
+  it('ends the session when the user is deactivated or changes role', async () => {
+    await storage.updateUsers(() => [{ ...ANA, role: 'people' }]);
+    expect(checkSession()).toEqual({ user: null, reason: 'role_changed' });
+
+    await storage.updateUsers(() => [{ ...ANA, active: false }]);
+    expect(checkSession()).toEqual({ user: null, reason: 'inactive' });
+  });
+});
+
+describe('sessions registry', () => {
+  it('keeps the sessions other tabs record meanwhile', async () => {
+    const otherTab: Session = { ...storedSessions()[0], id: 'other-tab' };
+    stored.set('promipoints_sessions', JSON.stringify([...storedSessions(), otherTab]));
+
+    endSession();
+    await vi.waitFor(() => expect(storedSessions()[0].revokedAt).toBeDefined());
+
+    expect(storedSessions().map(s => s.id)).toContain('other-tab');
+    expect(storedSessions().find(s => s.id === 'other-tab')?.revokedAt).toBeUndefined();
+  });
+
+  it('drops sessions ended more than 7 days ago when a new one starts', async () => {
+    const old: Session = { ...storedSessions()[0], id: 'old', expiresAt: start - 8 * 24 * HOUR };
+    const recent: Session = { ...storedSessions()[0], id: 'recent', revokedAt: start - 24 * HOUR };
+    stored.set('promipoints_sessions', JSON.stringify([old, recent]));
+
+    await startSession(ANA);
+
+    expect(storedSessions().map(s => s.id)).toEqual(['recent', expect.any(String)]);
+  });
+});
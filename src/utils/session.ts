@@ -0,0 +1,152 @@
+import { Session, User } from '../types';
+import { storage } from './storage';
+import { getSessionSigningKey } from './secrets';
+import { toBase64Url, fromBase64Url } from './encoding';
+
+const SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// Activity is recorded at most this often to keep writes to the registry low
+const TOUCH_INTERVAL_MS = 60 * 1000;
+// Ended sessions are kept this long in the registry for auditing
+const SESSION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Serialized session of an older version; it carried the whole user and is no longer trusted
+const LEGACY_CURRENT_USER_KEY = 'promipoints_current_user';
+
+export type SessionEndReason = 'expired' | 'idle' | 'revoked' | 'role_changed' | 'inactive' | 'invalid';
+
+export const SESSION_END_MESSAGES: Record<SessionEndReason, string> = {
+  expired: 'Tu sesión expiró. Inicia sesión de nuevo.',
+  idle: 'Cerramos tu sesión por inactividad.',
+  revoked: 'Tu sesión fue cerrada. Inicia sesión de nuevo.',
+  role_changed: 'Tus permisos cambiaron. Inicia sesión de nuevo para continuar.',
+  inactive: 'Tu usuario fue desactivado. Contacta a People & Culture.',
+  invalid: 'Tu sesión no es válida. Inicia sesión de nuevo.',
+};
+
+interface TokenPayload {
+  sid: string;
+  sub: string;
+  exp: number;
+}
+
+export type SessionCheck = { user: User; reason?: undefined } | { user: null; reason: SessionEndReason };
+
+const encoder = new TextEncoder();
+
+const signToken = async (payload: TokenPayload): Promise<string> => {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSessionSigningKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+// Payload of a token signed by this browser, or null if it was tampered with
+const verifyToken = async (token: string): Promise<TokenPayload | null> => {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await getSessionSigningKey(), fromBase64Url(signature), encoder.encode(body));
+    return valid ? JSON.parse(new TextDecoder().decode(fromBase64Url(body))) : null;
+  } catch {
+    return null;
+  }
+};
+
+let activeSessionId: string | null = null;
+
+const updateSession = (sessionId: string, changes: Partial<Session>) =>
+  storage.updateSessions(sessions => sessions.map(s => (s.id === sessionId ? { ...s, ...changes } : s)));
+
+// `assertion` is the login assertion of the API server, when the login produced one
+export const startSession = async (user: User, assertion?: string | null): Promise<void> => {
+  const now = Date.now();
+  const session: Session = {
+    id: `${now}-${Math.random().toString(36).substr(2, 9)}`,
+    userId: user.id,
+    role: user.role,
+    createdAt: now,
+    lastActiveAt: now,
+    expiresAt: now + SESSION_MAX_AGE_MS,
+  };
+
+  // Set first: the API server only records sessions of a signed-in user
+  storage.setApiToken(assertion ?? null);
+  await storage.updateSessions(sessions => [
+    ...sessions.filter(s => (s.revokedAt ?? s.expiresAt) > now - SESSION_RETENTION_MS),
+    session,
+  ]);
+  storage.setSessionToken(await signToken({ sid: session.id, sub: user.id, exp: session.expiresAt }));
+  activeSessionId = session.id;
+};
+
+// Re-validates the active session against the registry and the user directory.
+// The returned user always comes from the directory, never from the token.
+export const checkSession = (now = Date.now()): SessionCheck => {
+  const session = storage.getSessions().find(s => s.id === activeSessionId);
+  if (!session) return { user: null, reason: 'invalid' };
+  if (session.revokedAt) return { user: null, reason: 'revoked' };
+  if (now > session.expiresAt) return { user: null, reason: 'expired' };
+  if (now - session.lastActiveAt > IDLE_TIMEOUT_MS) return { user: null, reason: 'idle' };
+
+  const user = storage.getUsers().find(u => u.id === session.userId);
+  if (!user || user.active === false) return { user: null, reason: 'inactive' };
+  if (user.role !== session.role) return { user: null, reason: 'role_changed' };
+
+  return { user };
+};
+
+// Restores the session of this browser on startup
+export const resumeSession = async (): Promise<SessionCheck | null> => {
+  localStorage.removeItem(LEGACY_CURRENT_USER_KEY);
+
+  const token = storage.getSessionToken();
+  if (!token) return null;
+
+  const payload = await verifyToken(token);
+  if (!payload || payload.exp < Date.now()) {
+    storage.setSessionToken(null);
+    storage.setApiToken(null);
+    return { user: null, reason: payload ? 'expired' : 'invalid' };
+  }
+
+  const session = storage.getSessions().find(s => s.id === payload.sid);
+  if (session && session.userId !== payload.sub) {
+    storage.setSessionToken(null);
+    storage.setApiToken(null);
+    return { user: null, reason: 'invalid' };
+  }
+
+  activeSessionId = payload.sid;
+  const result = checkSession();
+  if (result.user) {
+    touchSession();
+  } else {
+    endSession();
+  }
+  return result;
+};
+
+export const touchSession = async (now = Date.now()) => {
+  if (!activeSessionId) return;
+  const session = storage.getSessions().find(s => s.id === activeSessionId);
+  if (session && !session.revokedAt && now - session.lastActiveAt >= TOUCH_INTERVAL_MS) {
+    await updateSession(session.id, { lastActiveAt: now }).catch(error => {
+      console.error('[session] Error al registrar la actividad de la sesión:', error);
+    });
+  }
+};
+
+// Invalidates the session in the registry, so the token cannot be reused, and forgets it locally
+export const endSession = () => {
+  if (activeSessionId) {
+    const session = storage.getSessions().find(s => s.id === activeSessionId);
+    if (session && !session.revokedAt) {
+      updateSession(session.id, { revokedAt: Date.now() }).catch(error => {
+        console.error('[session] Error al cerrar la sesión en el registro:', error);
+      });
+    }
+  }
+  activeSessionId = null;
+  storage.setSessionToken(null);
+  storage.setApiToken(null);
+};
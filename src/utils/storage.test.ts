@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MonthlyAllocation, PointAssignment, User } from '../types';
+import { storage, initStorage, getCurrentMonth, TransferError, TransferRequest } from './storage';
+import type { StorageAdapter } from './adapters';
+
+const adapterControl = vi.hoisted(() => ({ loseNextTransaction: false }));
+
+// The local adapter, whose next transaction can be made to lose against another writer
+vi.mock('./adapters', async importOriginal => {
+  const actual = await importOriginal<typeof import('./adapters')>();
+  const transact: StorageAdapter['transact'] = (keys, update) => {
+    if (adapterControl.loseNextTransaction) {
+      adapterControl.loseNextTransaction = false;
+      return Promise.reject(new actual.TransactionConflictError());
+    }
+    return actual.localStorageAdapter.transact(keys, update);
+  };
+  return { ...actual, createStorageAdapter: () => ({ ...actual.localStorageAdapter, transact }) };
+});
+
+const USERS: User[] = [
+  { id: 'ana', name: 'Ana', email: 'ana@grupoprominente.com', role: 'employee', department: 'Ventas' },
+  { id: 'luis', name: 'Luis', email: 'luis@grupoprominente.com', role: 'employee', department: 'Ventas' },
+  { id: 'eva', name: 'Eva', email: 'eva@grupoprominente.com', role: 'employee', department: 'Ventas', active: false },
+];
+
+// What the browser's localStorage holds; other tabs write here behind the cache's back
+const stored = new Map<string, string>();
+
+beforeEach(async () => {
+  stored.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => void stored.set(key, value),
+    removeItem: (key: string) => void stored.delete(key),
+  });
+  vi.stubGlobal('window', { addEventListener: () => {}, removeEventListener: () => {} });
+  vi.stubGlobal('navigator', {});
+  adapterControl.loseNextTransaction = false;
+
+  await initStorage('local');
+  await storage.setUsers(USERS);
+  await storage.ensureMonthlyAllocation('ana');
+  await storage.ensureMonthlyAllocation('luis');
+});
+
+const transfer = (overrides: Partial<TransferRequest> = {}) =>
+  storage.transferPoints({
+    fromUserId: 'ana',
+    toUserId: 'luis',
+    points: 3,
+    category: 'Innovación',
+    expectedRemaining: 10,
+    ...overrides,
+  });
+
+describe('transferPoints', () => {
+  it('moves the points between both balances in a single commit', async () => {
+    await transfer();
+
+    expect(storage.getBalance('ana')).toEqual({ pointsRemaining: 7, pointsReceived: 0 });
+    expect(storage.getBalance('luis')).toEqual({ pointsRemaining: 10, pointsReceived: 3 });
+    expect(storage.getReconciliationReport()).toEqual([]);
+  });
+
+  it('rejects a transfer confirmed against a balance that has changed since', async () => {
+    await transfer();
+
+    await expect(transfer({ expectedRemaining: 10 })).rejects.toMatchObject({ code: 'conflict' });
+    expect(storage.getAssignments()).toHaveLength(1);
+  });
+
+  it('checks the balance against what another tab committed, not against the cache', async () => {
+    const fromOtherTab: PointAssignment = {
+      id: 'other-tab',
+      fromUserId: 'ana',
+      toUserId: 'luis',
+      points: 4,
+      category: 'Liderazgo',
+      timestamp: Date.now(),
+      month: getCurrentMonth(),
+    };
+    stored.set('promipoints_assignments', JSON.stringify([fromOtherTab]));
+
+    await expect(transfer({ expectedRemaining: 10 })).rejects.toMatchObject({ code: 'conflict' });
+
+    await transfer({ expectedRemaining: 6 });
+    expect(storage.getBalance('ana').pointsRemaining).toBe(3);
+    expect(storage.getAssignments().map(a => a.id)).toContain('other-tab');
+  });
+
+  it('refuses more points than the balance', async () => {
+    await expect(transfer({ points: 11 })).rejects.toMatchObject({ code: 'insufficient_points' });
+    expect(storage.getBalance('ana').pointsRemaining).toBe(10);
+  });
+
+  it('reports a transaction lost to another writer as a conflict and records nothing', async () => {
+    adapterControl.loseNextTransaction = true;
+
+    const result = transfer();
+    await expect(result).rejects.toBeInstanceOf(TransferError);
+    await expect(result).rejects.toMatchObject({ code: 'conflict' });
+    expect(storage.getAssignments()).toEqual([]);
+  });
+
+  it('rejects invalid transfers before touching the ledger', async () => {
+    await expect(transfer({ toUserId: 'ana' })).rejects.toMatchObject({ code: 'invalid' });
+    await expect(transfer({ points: 0 })).rejects.toMatchObject({ code: 'invalid' });
+    await expect(transfer({ points: 1.5 })).rejects.toMatchObject({ code: 'invalid' });
+    await expect(transfer({ toUserId: 'eva' })).rejects.toMatchObject({ code: 'invalid' });
+    expect(storage.getAssignments()).toEqual([]);
+  });
+});
+
+describe('getReconciliationReport', () => {
+  it('expects a month without an allocation to start at the configured budget', async () => {
+    const config = storage.getSystemConfig();
+    await storage.setSystemConfig({ ...config, budget: { ...config.budget, defaultPoints: 15 } });
+    const received: PointAssignment = {
+      id: 'without-allocation',
+      fromUserId: 'ana',
+      toUserId: 'luis',
+      points: 3,
+      category: 'Liderazgo',
+      timestamp: Date.now(),
+      month: getCurrentMonth(),
+    };
+    const allocations: MonthlyAllocation[] = JSON.parse(stored.get('promipoints_allocations')!);
+    stored.set('promipoints_allocations', JSON.stringify(allocations.filter(a => a.userId !== 'luis')));
+    stored.set('promipoints_assignments', JSON.stringify([received]));
+    await initStorage('local');
+
+    expect(storage.getReconciliationReport()).toContainEqual({
+      userId: 'luis',
+      month: getCurrentMonth(),
+      stored: null,
+      ledger: { pointsRemaining: 15, pointsReceived: 3 },
+    });
+  });
+});
+
+describe('registry updates', () => {
+  const admin: User = {
+    id: 'admin',
+    name: 'Admin',
+    email: 'admin@grupoprominente.com',
+    role: 'superadmin',
+    department: 'Ventas',
+  };
+
+  it('applies a directory change to what another tab stored meanwhile', async () => {
+    const fromOtherTab = { ...USERS[1], name: 'Luis Pérez' };
+    stored.set('promipoints_users', JSON.stringify([USERS[0], fromOtherTab, USERS[2]]));
+
+    await storage.updateUsers(users => users.map(u => (u.id === 'ana' ? { ...u, name: 'Ana López' } : u)));
+
+    expect(storage.getUsers().map(u => u.name)).toEqual(['Ana López', 'Luis Pérez', 'Eva']);
+  });
+
+  it('moves the users of a renamed department in the same commit as the catalogue', async () => {
+    await storage.setUsers([...USERS, admin]);
+    const config = storage.getSystemConfig();
+    const ventas = config.departments.find(d => d.name === 'Ventas')!;
+
+    const rename = (departments: typeof config.departments) =>
+      departments.map(d => (d.id === ventas.id ? { ...d, name: 'Comercial' } : d));
+
+    await storage.updateSystemConfig(latest => ({ ...latest, departments: rename(latest.departments) }), 'admin', [
+      { from: 'Ventas', to: 'Comercial' },
+    ]);
+
+    const storedUsers: User[] = JSON.parse(stored.get('promipoints_users')!);
+    expect(storedUsers.map(u => u.department)).toEqual(['Comercial', 'Comercial', 'Comercial', 'Comercial']);
+  });
+
+  it('lets a failed write reach the caller and keeps the cache as stored', async () => {
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+      removeItem: (key: string) => void stored.delete(key),
+    });
+
+    await expect(storage.setUsers([])).rejects.toThrow('QuotaExceededError');
+    expect(storage.getUsers()).toEqual(USERS);
+  });
+});
@@ -1,13 +1,244 @@
-import { User, MonthlyAllocation, PointAssignment, SystemConfig, CategoryConfig } from '../types';
+import { User, MonthlyAllocation, PointAssignment, SystemConfig, CategoryConfig, LedgerAdjustment, EmailNotificationConfig, Session, Permission, Department } from '../types';
+import { appConfig } from '../config';
+import {
+  StorageAdapter,
+  StorageBackend,
+  TransactionConflictError,
+  TransactionUpdate,
+  createStorageAdapter,
+  localStorageAdapter,
+} from './adapters';
+import { resolveMonthlyBudget, BUDGET_PLACEHOLDER } from './budget';
+import { computeRollover, getPreviousMonth, ROLLOVER_PLACEHOLDER } from './rollover';
+import { ANONYMITY_PLACEHOLDER } from './anonymity';
+import { DEFAULT_EMAIL_TEMPLATES } from './emailTemplates';
+import { saveSecret } from './secrets';
+import { DEFAULT_LOGIN_DOMAIN } from './domains';
+import { createId } from './ids';
+import { DepartmentRename, deriveDepartments, findDepartment, replaceDepartmentName } from './departments';
+import { assertConfigChange, assertPermission, resolvePermissions } from './permissions';
+import {
+  DEFAULT_MONTHLY_POINTS,
+  AllocationFactory,
+  LedgerBalance,
+  ReconciliationEntry,
+  applyLedgerBalances,
+  buildReconciliationReport,
+  computeBalance,
+  getAnonymousGivenPoints,
+} from './ledger';
 
 const STORAGE_KEYS = {
-  CURRENT_USER: 'promipoints_current_user',
+  SESSION_TOKEN: 'promipoints_session_token',
+  API_TOKEN: 'promipoints_api_token',
+  SESSIONS: 'promipoints_sessions',
   USERS: 'promipoints_users',
   ALLOCATIONS: 'promipoints_allocations',
   ASSIGNMENTS: 'promipoints_assignments',
+  ADJUSTMENTS: 'promipoints_adjustments',
   SYSTEM_CONFIG: 'promipoints_system_config',
 };
 
+// Keys shared through the configured backend. The session token stays in this browser.
+const SHARED_KEYS = [
+  STORAGE_KEYS.USERS,
+  STORAGE_KEYS.SESSIONS,
+  STORAGE_KEYS.ALLOCATIONS,
+  STORAGE_KEYS.ASSIGNMENTS,
+  STORAGE_KEYS.ADJUSTMENTS,
+  STORAGE_KEYS.SYSTEM_CONFIG,
+];
+
+// Synchronous in-memory copy of the shared keys, hydrated by initStorage()
+const cache = new Map<string, string>();
+let adapter: StorageAdapter = localStorageAdapter;
+let unsubscribe: (() => void) | null = null;
+
+const parseJSON = <T>(data: string | null | undefined, fallback: T): T =>
+  data ? JSON.parse(data) : fallback;
+
+const readJSON = <T>(key: string, fallback: T): T => {
+  const data = cache.get(key);
+  return data ? JSON.parse(data) : fallback;
+};
+
+// Blind write, for seeding and migrations. A failed write is undone in the cache (unless the adapter already
+// reloaded a newer version) and rethrown, so the caller can tell the user it was not saved.
+const writeJSON = async (key: string, value: unknown) => {
+  const data = JSON.stringify(value);
+  const previous = cache.get(key);
+  cache.set(key, data);
+  try {
+    await adapter.save(key, data);
+  } catch (error) {
+    if (cache.get(key) === data) {
+      if (previous === undefined) cache.delete(key);
+      else cache.set(key, previous);
+    }
+    throw error;
+  }
+};
+
+// Read-modify-write of shared documents: `update` gets their latest stored values, so a change another
+// client made meanwhile is kept instead of overwritten. Refreshes the cache with what was committed.
+const commitDocuments = async (keys: string[], update: TransactionUpdate) => {
+  const committed = await adapter.transact(keys, update);
+  Object.entries(committed).forEach(([key, value]) => cache.set(key, value));
+  return committed;
+};
+
+// Configs saved before secrets were split out kept the SMTP password in plain text
+const migrateLegacySmtpPassword = async () => {
+  const config = readJSON<SystemConfig | null>(STORAGE_KEYS.SYSTEM_CONFIG, null);
+  const legacy = config?.emailNotifications as (EmailNotificationConfig & { smtpPassword?: string }) | undefined;
+  if (!config || !legacy || legacy.smtpPassword === undefined) return;
+
+  const { smtpPassword, ...emailNotifications } = legacy;
+  if (smtpPassword) {
+    await saveSecret('smtpPassword', smtpPassword, { host: legacy.smtpHost, user: legacy.smtpUser });
+  }
+  await writeJSON(STORAGE_KEYS.SYSTEM_CONFIG, {
+    ...config,
+    emailNotifications: { ...emailNotifications, smtpPasswordSet: Boolean(smtpPassword) },
+  });
+};
+
+export const initStorage = async (backend: StorageBackend = appConfig.storageBackend) => {
+  unsubscribe?.();
+  adapter = createStorageAdapter(backend, appConfig.apiUrl, () => storage.getApiToken());
+
+  const values = await adapter.load(SHARED_KEYS);
+  cache.clear();
+  Object.entries(values).forEach(([key, value]) => {
+    if (value !== null) cache.set(key, value);
+  });
+
+  unsubscribe = adapter.subscribe?.((key, value) => {
+    if (!SHARED_KEYS.includes(key)) return;
+    if (value === null) cache.delete(key);
+    else cache.set(key, value);
+  }) ?? null;
+
+  await migrateLegacySmtpPassword().catch(error => {
+    console.error('[storage] Error al migrar la contraseña SMTP:', error);
+  });
+};
+
+export const getStorageBackend = (): StorageBackend => adapter.backend;
+
+// The sections a settings form changed from `opened` (the config it started from), applied onto `latest`, so
+// a section someone else saved meanwhile is kept unless this form changed it too
+export const applyConfigEdits = (latest: SystemConfig, opened: SystemConfig, edited: SystemConfig): SystemConfig => {
+  const changed = (Object.keys(edited) as (keyof SystemConfig)[]).filter(
+    section => JSON.stringify(opened[section]) !== JSON.stringify(edited[section])
+  );
+  return { ...latest, ...Object.fromEntries(changed.map(section => [section, edited[section]])) };
+};
+
+// Keeps the login assertion sent to the API server and reloads the shared data with it: signed out, the http
+// backend only serves the public documents. Null signs out.
+export const signInStorage = async (assertion: string | null) => {
+  storage.setApiToken(assertion);
+  await initStorage(adapter.backend);
+};
+
+export type TransferErrorCode = 'invalid' | 'insufficient_points' | 'conflict';
+
+export class TransferError extends Error {
+  code: TransferErrorCode;
+
+  constructor(code: TransferErrorCode, message: string) {
+    super(message);
+    this.name = 'TransferError';
+    this.code = code;
+  }
+}
+
+export interface TransferRequest {
+  fromUserId: string;
+  toUserId: string;
+  points: number;
+  category: string;
+  message?: string;
+  // Sign with the sender's name; ignored unless the anonymity policy lets the sender choose
+  signed?: boolean;
+  // Sender balance the user saw when confirming; a different stored value is a conflict
+  expectedRemaining: number;
+}
+
+export type ResetMode = 'partial' | 'total';
+
+// Checked against the stored user, so a role change applies even to a session opened before it
+const assertActorPermission = (actorId: string, permission: Permission) => {
+  const actor = storage.getUsers().find(u => u.id === actorId);
+  assertPermission(actor, permission, storage.getSystemConfig().roles);
+};
+
+// New allocations with the user's configured monthly budget plus the rollover of last month, all read
+// from the same transaction snapshot as the ledger they are added to
+const allocationFactory = (
+  allocations: MonthlyAllocation[],
+  assignments: PointAssignment[],
+  adjustments: LedgerAdjustment[],
+  users: User[],
+  config: SystemConfig
+): AllocationFactory => (userId, month) => {
+  const pointsAllotted = resolveMonthlyBudget(users.find(u => u.id === userId), config.budget);
+
+  const previousMonth = getPreviousMonth(month);
+  const previous = allocations.find(a => a.userId === userId && a.month === previousMonth);
+  const unused = previous ? computeBalance(userId, previousMonth, previous, assignments, adjustments).pointsRemaining : 0;
+  const pointsCarriedOver = computeRollover(unused, config.rollover);
+
+  return {
+    userId,
+    month,
+    pointsAllotted,
+    pointsCarriedOver,
+    pointsRemaining: pointsAllotted + pointsCarriedOver,
+    pointsReceived: 0,
+  };
+};
+
+// Commits a ledger transaction through the adapter and refreshes the cache with its result
+// Users and config are read in the same transaction, without being written, for the budgets and rollover of
+// the allocations it creates.
+const commitLedger = async (
+  update: (
+    allocations: MonthlyAllocation[],
+    assignments: PointAssignment[],
+    adjustments: LedgerAdjustment[],
+    createAllocation: AllocationFactory
+  ) => { allocations: MonthlyAllocation[]; assignments: PointAssignment[]; adjustments: LedgerAdjustment[] }
+) => {
+  const keys = [
+    STORAGE_KEYS.ALLOCATIONS,
+    STORAGE_KEYS.ASSIGNMENTS,
+    STORAGE_KEYS.ADJUSTMENTS,
+    STORAGE_KEYS.USERS,
+    STORAGE_KEYS.SYSTEM_CONFIG,
+  ];
+  await commitDocuments(keys, values => {
+    const allocations = parseJSON<MonthlyAllocation[]>(values[STORAGE_KEYS.ALLOCATIONS], []);
+    const assignments = parseJSON<PointAssignment[]>(values[STORAGE_KEYS.ASSIGNMENTS], []);
+    const adjustments = parseJSON<LedgerAdjustment[]>(values[STORAGE_KEYS.ADJUSTMENTS], []);
+    const users = parseJSON<User[]>(values[STORAGE_KEYS.USERS], []);
+    const config = withConfigDefaults(parseJSON<SystemConfig>(values[STORAGE_KEYS.SYSTEM_CONFIG], getDefaultConfig()));
+
+    const result = update(
+      allocations,
+      assignments,
+      adjustments,
+      allocationFactory(allocations, assignments, adjustments, users, config)
+    );
+    return {
+      [STORAGE_KEYS.ALLOCATIONS]: JSON.stringify(result.allocations),
+      [STORAGE_KEYS.ASSIGNMENTS]: JSON.stringify(result.assignments),
+      [STORAGE_KEYS.ADJUSTMENTS]: JSON.stringify(result.adjustments),
+    };
+  });
+};
+
 export const getCurrentMonth = (): string => {
   const now = new Date();
   return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
@@ -30,6 +261,24 @@ const getDefaultConfig = (): SystemConfig => ({
     description: 'Sistema de reconocimiento de Grupo Prominente',
     helpEmail: 'people@grupoprominente.com',
   },
+  loginDomains: [
+    { domain: DEFAULT_LOGIN_DOMAIN, defaultDepartment: '' },
+  ],
+  departments: deriveDepartments(storage.getUsers()),
+  roles: [],
+  oidc: {
+    enabled: false,
+    issuer: 'http://localhost:4000/oidc',
+    clientId: 'promipoints',
+    scopes: 'openid email profile',
+    buttonLabel: 'SSO Corporativo',
+    departmentClaim: 'department',
+    roleClaim: 'groups',
+    roleMapping: [
+      { claimValue: 'promipoints-admins', role: 'superadmin' },
+      { claimValue: 'people-culture', role: 'people' },
+    ],
+  },
   onboardingSteps: [
     {
       title: '¡Bienvenido a PromiPoints!',
@@ -37,14 +286,14 @@ const getDefaultConfig = (): SystemConfig => ({
       details: 'Reconoce el trabajo excepcional de tus compañeros y fortalece la cultura organizacional.',
     },
     {
-      title: '10 Puntos Mensuales',
-      description: 'Cada mes recibes 10 PromiPoints para compartir',
-      details: 'Los puntos no utilizados expiran al final del mes, así que ¡no olvides reconocer a tus compañeros!',
+      title: `${BUDGET_PLACEHOLDER} Puntos Mensuales`,
+      description: `Cada mes recibes ${BUDGET_PLACEHOLDER} PromiPoints para compartir`,
+      details: `${ROLLOVER_PLACEHOLDER} ¡No olvides reconocer a tus compañeros!`,
     },
     {
-      title: 'Asignación Anónima',
+      title: 'Privacidad de los Reconocimientos',
       description: 'Reconoce valores organizacionales de forma privada',
-      details: 'Tus compañeros verán los puntos recibidos y la categoría, pero no sabrán quién los envió.',
+      details: `Tus compañeros verán los puntos recibidos y la categoría. ${ANONYMITY_PLACEHOLDER}`,
     },
     {
       title: '¡Estás listo!',
@@ -61,45 +310,164 @@ const getDefaultConfig = (): SystemConfig => ({
     smtpHost: 'smtp.gmail.com',
     smtpPort: 587,
     smtpUser: '',
-    smtpPassword: '',
+    smtpPasswordSet: false,
     fromEmail: 'noreply@grupoprominente.com',
     fromName: 'PromiPoints - Grupo Prominente',
+    templates: DEFAULT_EMAIL_TEMPLATES,
+  },
+  budget: {
+    defaultPoints: DEFAULT_MONTHLY_POINTS,
+    byRole: {},
+    byDepartment: {},
+    byUser: {},
+  },
+  rollover: {
+    mode: 'none',
+    cap: 5,
+    percentage: 50,
+  },
+  anonymity: {
+    mode: 'people',
   },
 });
 
+// Onboarding copy shipped before budgets were configurable
+const LEGACY_BUDGET_COPY: Record<string, string> = {
+  '10 Puntos Mensuales': `${BUDGET_PLACEHOLDER} Puntos Mensuales`,
+  'Cada mes recibes 10 PromiPoints para compartir': `Cada mes recibes ${BUDGET_PLACEHOLDER} PromiPoints para compartir`,
+};
+
+// Onboarding copy shipped before the rollover policy was configurable
+const LEGACY_ROLLOVER_COPY: Record<string, string> = {
+  'Los puntos no utilizados expiran al final del mes, así que ¡no olvides reconocer a tus compañeros!':
+    `${ROLLOVER_PLACEHOLDER} ¡No olvides reconocer a tus compañeros!`,
+};
+
+// Onboarding copy shipped before the anonymity policy was configurable
+const LEGACY_ANONYMITY_COPY: Record<string, string> = {
+  'Asignación Anónima': 'Privacidad de los Reconocimientos',
+  'Tus compañeros verán los puntos recibidos y la categoría, pero no sabrán quién los envió.':
+    `Tus compañeros verán los puntos recibidos y la categoría. ${ANONYMITY_PLACEHOLDER}`,
+};
+
+// Ensure backward compatibility - add missing fields from default config
+const withConfigDefaults = (config: SystemConfig): SystemConfig => {
+  const defaultConfig = getDefaultConfig();
+  if (!config.onboardingSteps) {
+    config.onboardingSteps = defaultConfig.onboardingSteps;
+  }
+  if (!config.loginContent) {
+    config.loginContent = defaultConfig.loginContent;
+  }
+  if (!config.loginDomains) {
+    config.loginDomains = defaultConfig.loginDomains;
+  }
+  if (!config.departments) {
+    config.departments = defaultConfig.departments;
+  }
+  if (!config.roles) {
+    config.roles = defaultConfig.roles;
+  }
+  if (!config.oidc) {
+    config.oidc = defaultConfig.oidc;
+  }
+  if (!config.emailNotifications) {
+    config.emailNotifications = defaultConfig.emailNotifications;
+  }
+  if (config.emailNotifications.smtpPasswordSet === undefined) {
+    config.emailNotifications.smtpPasswordSet = false;
+  }
+  if (!config.emailNotifications.templates) {
+    config.emailNotifications.templates = defaultConfig.emailNotifications.templates;
+  }
+  if (!config.budget) {
+    config.budget = defaultConfig.budget;
+    config.onboardingSteps = config.onboardingSteps.map(step => ({
+      ...step,
+      title: LEGACY_BUDGET_COPY[step.title] ?? step.title,
+      description: LEGACY_BUDGET_COPY[step.description] ?? step.description,
+    }));
+  }
+  if (!config.rollover) {
+    config.rollover = defaultConfig.rollover;
+    config.onboardingSteps = config.onboardingSteps.map(step => ({
+      ...step,
+      details: LEGACY_ROLLOVER_COPY[step.details] ?? step.details,
+    }));
+  }
+  if (!config.anonymity) {
+    config.anonymity = defaultConfig.anonymity;
+    config.onboardingSteps = config.onboardingSteps.map(step => ({
+      ...step,
+      title: LEGACY_ANONYMITY_COPY[step.title] ?? step.title,
+      details: LEGACY_ANONYMITY_COPY[step.details] ?? step.details,
+    }));
+  }
+
+  return config;
+};
+
 export const storage = {
-  // Current User
-  setCurrentUser: (user: User | null) => {
-    if (user) {
-      localStorage.setItem(STORAGE_KEYS.CURRENT_USER, JSON.stringify(user));
+  // Session token of this browser (see utils/session.ts)
+  setSessionToken: (token: string | null) => {
+    if (token) {
+      localStorage.setItem(STORAGE_KEYS.SESSION_TOKEN, token);
     } else {
-      localStorage.removeItem(STORAGE_KEYS.CURRENT_USER);
+      localStorage.removeItem(STORAGE_KEYS.SESSION_TOKEN);
     }
   },
 
-  getCurrentUser: (): User | null => {
-    const data = localStorage.getItem(STORAGE_KEYS.CURRENT_USER);
-    return data ? JSON.parse(data) : null;
+  getSessionToken: (): string | null => {
+    return localStorage.getItem(STORAGE_KEYS.SESSION_TOKEN);
+  },
+
+  // Login assertion signed by the API server, sent to the routes that need a signed-in user (see utils/auth.ts)
+  setApiToken: (token: string | null) => {
+    if (token) {
+      localStorage.setItem(STORAGE_KEYS.API_TOKEN, token);
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.API_TOKEN);
+    }
+  },
+
+  getApiToken: (): string | null => {
+    return localStorage.getItem(STORAGE_KEYS.API_TOKEN);
+  },
+
+  // Sessions registry
+  getSessions: (): Session[] => {
+    return readJSON<Session[]>(STORAGE_KEYS.SESSIONS, []);
+  },
+
+  // Read-modify-write of the registry: `update` gets the latest stored sessions, so sessions opened or ended
+  // meanwhile in other tabs or browsers are kept
+  updateSessions: async (update: (sessions: Session[]) => Session[]): Promise<void> => {
+    await commitDocuments([STORAGE_KEYS.SESSIONS], values => ({
+      [STORAGE_KEYS.SESSIONS]: JSON.stringify(update(parseJSON<Session[]>(values[STORAGE_KEYS.SESSIONS], []))),
+    }));
   },
 
   // Users
   getUsers: (): User[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.USERS);
-    return data ? JSON.parse(data) : [];
+    return readJSON<User[]>(STORAGE_KEYS.USERS, []);
   },
 
-  setUsers: (users: User[]) => {
-    localStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(users));
+  // Unchecked: for seeding. Changes made by a user go through updateUsers.
+  setUsers: (users: User[]): Promise<void> => {
+    return writeJSON(STORAGE_KEYS.USERS, users);
   },
 
-  // Monthly Allocations
-  getAllocations: (): MonthlyAllocation[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.ALLOCATIONS);
-    return data ? JSON.parse(data) : [];
+  // Read-modify-write of the directory: `update` gets the latest stored users. Resolves with the saved list.
+  updateUsers: async (update: (users: User[]) => User[]): Promise<User[]> => {
+    const committed = await commitDocuments([STORAGE_KEYS.USERS], values => ({
+      [STORAGE_KEYS.USERS]: JSON.stringify(update(parseJSON<User[]>(values[STORAGE_KEYS.USERS], []))),
+    }));
+    return JSON.parse(committed[STORAGE_KEYS.USERS]);
   },
 
-  setAllocations: (allocations: MonthlyAllocation[]) => {
-    localStorage.setItem(STORAGE_KEYS.ALLOCATIONS, JSON.stringify(allocations));
+  // Monthly Allocations
+  getAllocations: (): MonthlyAllocation[] => {
+    return readJSON<MonthlyAllocation[]>(STORAGE_KEYS.ALLOCATIONS, []);
   },
 
   getUserAllocation: (userId: string, month: string): MonthlyAllocation | null => {
@@ -107,35 +475,173 @@ export const storage = {
     return allocations.find(a => a.userId === userId && a.month === month) || null;
   },
 
-  updateAllocation: (allocation: MonthlyAllocation) => {
-    const allocations = storage.getAllocations();
-    const index = allocations.findIndex(
-      a => a.userId === allocation.userId && a.month === allocation.month
-    );
-    
-    if (index >= 0) {
-      allocations[index] = allocation;
-    } else {
-      allocations.push(allocation);
-    }
-    
-    storage.setAllocations(allocations);
+  // Balance of a user for a month, always derived from the ledger: the stored counters may have drifted.
+  // Without an allocation for the month there is nothing to give yet, as in transferPoints.
+  getBalance: (userId: string, month: string = getCurrentMonth()): LedgerBalance => {
+    const allocation = storage.getUserAllocation(userId, month);
+    const balance = computeBalance(userId, month, allocation, storage.getAssignments(), storage.getAdjustments());
+    return allocation ? balance : { ...balance, pointsRemaining: 0 };
   },
 
   // Point Assignments
   getAssignments: (): PointAssignment[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.ASSIGNMENTS);
-    return data ? JSON.parse(data) : [];
+    return readJSON<PointAssignment[]>(STORAGE_KEYS.ASSIGNMENTS, []);
+  },
+
+  // Records the assignment and updates both allocations in a single transaction
+  transferPoints: async (request: TransferRequest): Promise<PointAssignment> => {
+    const { fromUserId, toUserId, points, category, message, signed, expectedRemaining } = request;
+
+    if (fromUserId === toUserId) {
+      throw new TransferError('invalid', 'No puedes asignarte puntos a ti mismo');
+    }
+    if (!Number.isInteger(points) || points <= 0) {
+      throw new TransferError('invalid', 'La cantidad de puntos no es válida');
+    }
+    if (storage.getUsers().find(u => u.id === toUserId)?.active === false) {
+      throw new TransferError('invalid', 'El colaborador está desactivado y ya no puede recibir puntos');
+    }
+
+    const month = getCurrentMonth();
+    // With the fully anonymous policy the recognition keeps no trace of its sender: only the monthly
+    // total on the sender's allocation, which the balance needs, records what they gave.
+    const anonymous = storage.getSystemConfig().anonymity.mode === 'anonymous';
+    const assignment: PointAssignment = {
+      id: createId(),
+      fromUserId: anonymous ? '' : fromUserId,
+      toUserId,
+      points,
+      category,
+      message,
+      timestamp: Date.now(),
+      month,
+    };
+    if (signed && storage.getSystemConfig().anonymity.mode === 'senderChoice') {
+      assignment.signed = true;
+    }
+
+    try {
+      await commitLedger((allocations, assignments, adjustments, createAllocation) => {
+        const sender = allocations.find(a => a.userId === fromUserId && a.month === month);
+        if (!sender) {
+          throw new TransferError('conflict', 'No tienes puntos asignados para este mes');
+        }
+
+        // The ledger is authoritative: the stored counter may have drifted
+        const { pointsRemaining } = computeBalance(fromUserId, month, sender, assignments, adjustments);
+        if (pointsRemaining !== expectedRemaining) {
+          throw new TransferError(
+            'conflict',
+            'Tu saldo de puntos cambió mientras asignabas. Revisa tus puntos disponibles e intenta de nuevo.'
+          );
+        }
+        if (points > pointsRemaining) {
+          throw new TransferError('insufficient_points', `Solo tienes ${pointsRemaining} puntos disponibles`);
+        }
+
+        assignments.push(assignment);
+        if (anonymous) {
+          sender.pointsGivenAnonymously = getAnonymousGivenPoints(sender) + points;
+        }
+        applyLedgerBalances(
+          allocations,
+          [{ userId: fromUserId, month }, { userId: toUserId, month }],
+          assignments,
+          adjustments,
+          createAllocation
+        );
+        return { allocations, assignments, adjustments };
+      });
+    } catch (error) {
+      if (error instanceof TransactionConflictError) {
+        throw new TransferError('conflict', 'Otra operación modificó los puntos al mismo tiempo. Intenta de nuevo.');
+      }
+      throw error;
+    }
+
+    return assignment;
   },
 
-  setAssignments: (assignments: PointAssignment[]) => {
-    localStorage.setItem(STORAGE_KEYS.ASSIGNMENTS, JSON.stringify(assignments));
+  // Ledger adjustments
+  getAdjustments: (): LedgerAdjustment[] => {
+    return readJSON<LedgerAdjustment[]>(STORAGE_KEYS.ADJUSTMENTS, []);
   },
 
-  addAssignment: (assignment: PointAssignment) => {
+  // Partial: cancels the points received this month with an adjustment, keeping the history.
+  // Total: removes this month's assignments and adjustments of the users and restores their allotment.
+  resetPoints: async (userIds: string[], mode: ResetMode, actorId: string) => {
+    assertActorPermission(actorId, 'resetPoints');
+    const month = getCurrentMonth();
+
+    await commitLedger((allocations, assignments, adjustments, createAllocation) => {
+      let nextAssignments = assignments;
+      let nextAdjustments = adjustments;
+      const affected = new Map<string, { userId: string; month: string }>();
+      userIds.forEach(userId => affected.set(userId, { userId, month }));
+
+      if (mode === 'total') {
+        nextAssignments = assignments.filter(a => {
+          const involved = a.month === month && (userIds.includes(a.fromUserId) || userIds.includes(a.toUserId));
+          if (involved) {
+            // The other party's counters change too
+            affected.set(a.fromUserId, { userId: a.fromUserId, month });
+            affected.set(a.toUserId, { userId: a.toUserId, month });
+          }
+          return !involved;
+        });
+        nextAdjustments = adjustments.filter(adj => adj.month !== month || !userIds.includes(adj.userId));
+        // Anonymous recognitions cannot be traced to their senders: resetting a sender gives back what they
+        // gave anonymously while the recipients keep it, and resetting a recipient leaves the senders' totals.
+        allocations.forEach(a => {
+          if (a.month === month && userIds.includes(a.userId)) delete a.pointsGivenAnonymously;
+        });
+      } else {
+        userIds.forEach(userId => {
+          const allocation = allocations.find(a => a.userId === userId && a.month === month);
+          const { pointsReceived } = computeBalance(userId, month, allocation, nextAssignments, nextAdjustments);
+          if (pointsReceived !== 0) {
+            nextAdjustments = [...nextAdjustments, {
+              id: createId(),
+              userId,
+              month,
+              kind: 'received',
+              amount: -pointsReceived,
+              reason: 'Reseteo parcial de puntos recibidos',
+              createdBy: actorId,
+              timestamp: Date.now(),
+            }];
+          }
+        });
+      }
+
+      const existing = allocations.filter(a => a.month === month).map(a => a.userId);
+      const pairs = Array.from(affected.values()).filter(p => existing.includes(p.userId));
+      applyLedgerBalances(allocations, pairs, nextAssignments, nextAdjustments, createAllocation);
+      return { allocations, assignments: nextAssignments, adjustments: nextAdjustments };
+    });
+  },
+
+  // Reconciliation of stored counters against the ledger
+  getReconciliationReport: (): ReconciliationEntry[] => {
+    const allocations = storage.getAllocations();
     const assignments = storage.getAssignments();
-    assignments.push(assignment);
-    storage.setAssignments(assignments);
+    const adjustments = storage.getAdjustments();
+    const createAllocation = allocationFactory(
+      allocations,
+      assignments,
+      adjustments,
+      storage.getUsers(),
+      storage.getSystemConfig()
+    );
+    return buildReconciliationReport(allocations, assignments, adjustments, createAllocation);
+  },
+
+  repairAllocations: async (entries: ReconciliationEntry[], actorId: string) => {
+    assertActorPermission(actorId, 'resetPoints');
+    await commitLedger((allocations, assignments, adjustments, createAllocation) => {
+      applyLedgerBalances(allocations, entries, assignments, adjustments, createAllocation);
+      return { allocations, assignments, adjustments };
+    });
   },
 
   getReceivedPoints: (userId: string): PointAssignment[] => {
@@ -143,51 +649,105 @@ export const storage = {
     return assignments.filter(a => a.toUserId === userId);
   },
 
+  getGivenPoints: (userId: string): PointAssignment[] => {
+    const assignments = storage.getAssignments();
+    return assignments.filter(a => a.fromUserId === userId);
+  },
+
+  // Points given in fully anonymous recognitions, which getGivenPoints cannot list
+  getAnonymousGivenTotal: (userId: string): number => {
+    const allocations = storage.getAllocations().filter(a => a.userId === userId);
+    return allocations.reduce((sum, a) => sum + getAnonymousGivenPoints(a), 0);
+  },
+
+  getMonthlyBudget: (userId: string): number => {
+    const user = storage.getUsers().find(u => u.id === userId);
+    return resolveMonthlyBudget(user, storage.getSystemConfig().budget);
+  },
+
   // Initialize monthly allocation
-  ensureMonthlyAllocation: (userId: string) => {
+  // Created in a ledger transaction, so the rollover uses the same ledger the allocation is added to
+  ensureMonthlyAllocation: async (userId: string): Promise<MonthlyAllocation | null> => {
     const month = getCurrentMonth();
-    let allocation = storage.getUserAllocation(userId, month);
-    
-    if (!allocation) {
-      allocation = {
-        userId,
-        month,
-        pointsRemaining: 10,
-        pointsReceived: 0,
-      };
-      storage.updateAllocation(allocation);
+    const existing = storage.getUserAllocation(userId, month);
+    if (existing) return existing;
+
+    try {
+      await commitLedger((allocations, assignments, adjustments, createAllocation) => {
+        if (!allocations.some(a => a.userId === userId && a.month === month)) {
+          applyLedgerBalances(allocations, [{ userId, month }], assignments, adjustments, createAllocation);
+        }
+        return { allocations, assignments, adjustments };
+      });
+    } catch (error) {
+      console.error('[storage] Error al crear la asignación mensual:', error);
     }
-    
-    return allocation;
+    return storage.getUserAllocation(userId, month);
   },
 
   // System Config
   getSystemConfig: (): SystemConfig => {
-    const data = localStorage.getItem(STORAGE_KEYS.SYSTEM_CONFIG);
-    const config = data ? JSON.parse(data) : getDefaultConfig();
-    
-    // Ensure backward compatibility - add missing fields from default config
-    const defaultConfig = getDefaultConfig();
-    if (!config.onboardingSteps) {
-      config.onboardingSteps = defaultConfig.onboardingSteps;
-    }
-    if (!config.loginContent) {
-      config.loginContent = defaultConfig.loginContent;
-    }
-    if (!config.emailNotifications) {
-      config.emailNotifications = defaultConfig.emailNotifications;
-    }
-    
-    return config;
+    return withConfigDefaults(readJSON<SystemConfig>(STORAGE_KEYS.SYSTEM_CONFIG, getDefaultConfig()));
+  },
+
+  // Unchecked: for migrations and seeding. Changes made by a user go through updateSystemConfig.
+  setSystemConfig: (config: SystemConfig): Promise<void> => {
+    return writeJSON(STORAGE_KEYS.SYSTEM_CONFIG, config);
+  },
+
+  // Saves settings edited by `actorId` as a read-modify-write: `update` gets the latest stored config, and
+  // each section it changes needs its own permission. The users of a department renamed or merged in `renames`
+  // are moved in the same transaction. Resolves with the saved config.
+  updateSystemConfig: async (
+    update: (config: SystemConfig) => SystemConfig,
+    actorId: string,
+    renames: DepartmentRename[] = []
+  ): Promise<SystemConfig> => {
+    const keys = [STORAGE_KEYS.SYSTEM_CONFIG, STORAGE_KEYS.USERS];
+    const committed = await commitDocuments(keys, values => {
+      const users = parseJSON<User[]>(values[STORAGE_KEYS.USERS], []);
+      const stored = parseJSON<SystemConfig>(values[STORAGE_KEYS.SYSTEM_CONFIG], getDefaultConfig());
+      const config = withConfigDefaults(stored);
+      const next = update(config);
+      assertConfigChange(users.find(u => u.id === actorId), config, next, renames);
+
+      const moved = renames.reduce((list, { from, to }) => replaceDepartmentName(next, list, from, to).users, users);
+      return {
+        [STORAGE_KEYS.SYSTEM_CONFIG]: JSON.stringify(next),
+        ...(renames.length > 0 ? { [STORAGE_KEYS.USERS]: JSON.stringify(moved) } : {}),
+      };
+    });
+    return JSON.parse(committed[STORAGE_KEYS.SYSTEM_CONFIG]);
+  },
+
+  // The only config change made without a signed-in actor: a department sent by the identity provider, or
+  // typed on the setup screen, is appended to the catalogue when it is new. Resolves with the catalogue entry.
+  addDepartment: async (name: string): Promise<Department> => {
+    const cached = findDepartment(storage.getSystemConfig().departments, name);
+    if (cached) return cached;
+
+    let department: Department = { id: createId(), name: name.trim() };
+    await commitDocuments([STORAGE_KEYS.SYSTEM_CONFIG], values => {
+      const stored = parseJSON<SystemConfig>(values[STORAGE_KEYS.SYSTEM_CONFIG], getDefaultConfig());
+      const config = withConfigDefaults(stored);
+      const existing = findDepartment(config.departments, name);
+      if (existing) {
+        department = existing;
+        return {};
+      }
+      const departments = [...config.departments, department];
+      return { [STORAGE_KEYS.SYSTEM_CONFIG]: JSON.stringify({ ...config, departments }) };
+    });
+    return department;
   },
 
-  setSystemConfig: (config: SystemConfig) => {
-    localStorage.setItem(STORAGE_KEYS.SYSTEM_CONFIG, JSON.stringify(config));
+  getUserPermissions: (user: User): Permission[] => {
+    return resolvePermissions(user, storage.getSystemConfig().roles);
   },
 };
 
 // Initialize demo users on first load
-export const initializeDemoData = () => {
+export const initializeDemoData = async () => {
   const existingUsers = storage.getUsers();
   
   if (existingUsers.length === 0) {
@@ -257,13 +817,9 @@ export const initializeDemoData = () => {
       },
     ];
     
-    storage.setUsers(demoUsers);
+    await storage.setUsers(demoUsers);
     
-    // Initialize allocations for demo users
     const month = getCurrentMonth();
-    demoUsers.forEach(user => {
-      storage.ensureMonthlyAllocation(user.id);
-    });
 
     // Add some demo assignments
     const demoAssignments: PointAssignment[] = [
@@ -308,21 +864,12 @@ export const initializeDemoData = () => {
       },
     ];
 
-    storage.setAssignments(demoAssignments);
-
-    // Update allocations based on assignments
-    demoAssignments.forEach(assignment => {
-      const fromAllocation = storage.getUserAllocation(assignment.fromUserId, month);
-      if (fromAllocation) {
-        fromAllocation.pointsRemaining -= assignment.points;
-        storage.updateAllocation(fromAllocation);
-      }
-
-      const toAllocation = storage.getUserAllocation(assignment.toUserId, month);
-      if (toAllocation) {
-        toAllocation.pointsReceived += assignment.points;
-        storage.updateAllocation(toAllocation);
-      }
+    // Allocations and recognitions are seeded together, with the balances the ledger gives them
+    await commitLedger((allocations, assignments, adjustments, createAllocation) => {
+      const seeded = [...assignments, ...demoAssignments];
+      const pairs = demoUsers.map(user => ({ userId: user.id, month }));
+      applyLedgerBalances(allocations, pairs, seeded, adjustments, createAllocation);
+      return { allocations, assignments: seeded, adjustments };
     });
   }
 };
\ No newline at end of file
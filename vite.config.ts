@@ -55,5 +55,8 @@
     server: {
       port: 3000,
       open: true,
+      proxy: {
+        '/api': process.env.MOCK_API_URL || 'http://localhost:4000',
+      },
     },
   });
\ No newline at end of file